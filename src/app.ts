@@ -13,13 +13,18 @@ import swaggerUi from 'swagger-ui-express';
 import { initializeSentry } from './config/sentry.js';
 import { globalErrorHandler } from './middleware/errorHandler.js';
 import { requireApiToken } from './middleware/requireApiToken.js';
+import agentsRoute from './routes/agents.js';
 import analyticsRoute from './routes/analytics.js';
+import apiKeysRoute from './routes/apiKeys.js';
 import askRoute from './routes/ask.js';
 import cacheRoute from './routes/cache.js';
+import chunksRoute from './routes/chunks.js';
+import conversationsRoute from './routes/conversations.js';
 import feedbackRoute from './routes/feedback.js';
 import trainRoute from './routes/train.js';
 import watchdogRoute from './routes/watchdog.js';
-import { geminiService } from './services/gemini.js';
+import { getProviderStatus } from './services/llm.js';
+import { TrainingQueueService } from './services/trainingQueue.js';
 import { SECURITY_CONFIG } from './utils/security.js';
 
 // Load environment variables
@@ -90,8 +95,8 @@ const corsOptions = {
     ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:5173'],
   credentials: true,
   optionsSuccessStatus: 200,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Requested-With'],
   exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-RateLimit-Reset']
 };
 app.use(cors(corsOptions));
@@ -251,9 +256,12 @@ app.use(express.urlencoded({
  *                   type: string
  *                   example: "connected"
  *                   description: Database connection status
- *                 gemini:
+ *                 providers:
  *                   type: object
- *                   description: Gemini service status
+ *                   description: Default LLM/embedding providers and the status of each initialized provider
+ *                 trainingWorker:
+ *                   type: object
+ *                   description: In-process training worker (running is false when RUN_TRAINING_WORKER=false)
  */
 app.get('/health', (req: Request, res: Response) => {
   const healthCheck = {
@@ -264,7 +272,8 @@ app.get('/health', (req: Request, res: Response) => {
     version: process.env.npm_package_version || '1.0.0',
     memory: process.memoryUsage(),
     database: 'connected', // Database connection is handled by connectDB function
-    gemini: geminiService.getStatus()
+    providers: getProviderStatus(),
+    trainingWorker: TrainingQueueService.getStatus()
   };
   const statusCode = 200; // Always return 200 since connection is managed by connectDB
   res.status(statusCode).json(healthCheck);
@@ -343,6 +352,10 @@ app.get('/api/status', (req: Request, res: Response) => {
  *                       type: string
  *                       example: "/api/status"
  *                       description: API status endpoint
+ *                     agents:
+ *                       type: string
+ *                       example: "/api/agents"
+ *                       description: Agent registry endpoint
  *                     train:
  *                       type: string
  *                       example: "/api/train"
@@ -351,6 +364,10 @@ app.get('/api/status', (req: Request, res: Response) => {
  *                       type: string
  *                       example: "/api/ask"
  *                       description: Question answering endpoint
+ *                     conversations:
+ *                       type: string
+ *                       example: "/api/conversations"
+ *                       description: Multi-turn conversation history endpoint
  *                     analytics:
  *                       type: string
  *                       example: "/api/analytics"
@@ -371,8 +388,10 @@ app.get('/', (req: Request, res: Response) => {
     endpoints: {
       health: '/health',
       status: '/api/status',
+      agents: '/api/agents',
       train: '/api/train',
       ask: '/api/ask',
+      conversations: '/api/conversations',
       analytics: '/api/analytics',
       feedback: '/api/feedback'
     },
@@ -402,7 +421,7 @@ const swaggerOptions = {
         bearerAuth: {
           type: 'http',
           scheme: 'bearer',
-          bearerFormat: 'JWT'
+          description: 'API key issued with POST /api/keys (or AGENT_API_TOKEN as the bootstrap admin key)'
         }
       }
     },
@@ -417,8 +436,12 @@ app.use('/docs', swaggerUi.serve, swaggerUi.setup(specs));
 app.use('/api', requireApiToken);
 
 // API routes
+app.use('/api/keys', apiKeysRoute);
+app.use('/api/agents/:agentId/chunks', chunksRoute);
+app.use('/api/agents', agentsRoute);
 app.use('/api/train', trainRoute);
 app.use('/api/ask', askLimiter, askRoute);
+app.use('/api/conversations', askLimiter, conversationsRoute);
 app.use('/api/analytics', analyticsLimiter, analyticsRoute);
 app.use('/api/feedback', feedbackLimiter, feedbackRoute);
 app.use('/api/watchdog', watchdogLimiter, watchdogRoute);
@@ -461,7 +484,7 @@ app.use('*', (req: Request, res: Response) => {
     error: 'Endpoint not found',
     path: req.originalUrl,
     method: req.method,
-    availableEndpoints: ['/health', '/api/status', '/api/train', '/api/ask', '/api/analytics', '/api/feedback'],
+    availableEndpoints: ['/health', '/api/status', '/api/agents', '/api/train', '/api/ask', '/api/conversations', '/api/analytics', '/api/feedback'],
     message: 'Check if you are using the correct HTTP method and URL path'
   });
 });
@@ -0,0 +1,80 @@
+import { IAgentRetrievalSettings } from '../models/Agent.js';
+
+export type RetrievalSettings = Required<IAgentRetrievalSettings>;
+
+// Defaults used when neither the agent nor the request sets a value
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  vectorK: 20, // Number of top vector search results to retrieve
+  keywordK: 8, // Number of top keyword search results to retrieve
+  minSimilarityScore: 0.3, // Minimum cosine similarity threshold
+  confidenceThreshold: 0.2, // Minimum confidence score for including chunks
+  maxChunks: 10, // Maximum number of chunks to include in context
+  maxContextLength: 50000 // Maximum context length in characters (Gemini handles ~1M tokens)
+};
+
+// Allowed range for each setting; integer settings reject fractional values
+export const RETRIEVAL_SETTING_LIMITS: Record<keyof RetrievalSettings, { min: number; max: number; integer: boolean }> = {
+  vectorK: { min: 1, max: 50, integer: true },
+  keywordK: { min: 1, max: 20, integer: true },
+  minSimilarityScore: { min: 0, max: 1, integer: false },
+  confidenceThreshold: { min: 0, max: 1, integer: false },
+  maxChunks: { min: 1, max: 20, integer: true },
+  maxContextLength: { min: 1, max: 1000000, integer: true }
+};
+
+const RETRIEVAL_SETTING_KEYS = Object.keys(DEFAULT_RETRIEVAL_SETTINGS) as (keyof RetrievalSettings)[];
+
+/**
+ * Validate a partial set of retrieval settings.
+ * Unknown keys are rejected so typos don't silently fall back to defaults.
+ * A null value is kept as null, meaning "reset to the default" when stored on an agent.
+ */
+export function validateRetrievalSettings(settings: any): {
+  isValid: boolean;
+  sanitized?: { [K in keyof RetrievalSettings]?: number | null };
+  error?: string;
+} {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    return { isValid: false, error: 'retrieval must be an object' };
+  }
+
+  const sanitized: { [K in keyof RetrievalSettings]?: number | null } = {};
+  for (const [key, value] of Object.entries(settings)) {
+    if (!RETRIEVAL_SETTING_KEYS.includes(key as keyof RetrievalSettings)) {
+      return { isValid: false, error: `Unknown retrieval setting '${key}'. Allowed: ${RETRIEVAL_SETTING_KEYS.join(', ')}` };
+    }
+    if (value === undefined) continue;
+    if (value === null) {
+      sanitized[key as keyof RetrievalSettings] = null;
+      continue;
+    }
+
+    const limits = RETRIEVAL_SETTING_LIMITS[key as keyof RetrievalSettings];
+    if (typeof value !== 'number' || !Number.isFinite(value) || (limits.integer && !Number.isInteger(value))) {
+      return { isValid: false, error: `${key} must be ${limits.integer ? 'an integer' : 'a number'}` };
+    }
+    if (value < limits.min || value > limits.max) {
+      return { isValid: false, error: `${key} must be between ${limits.min} and ${limits.max}` };
+    }
+    sanitized[key as keyof RetrievalSettings] = value;
+  }
+
+  return { isValid: true, sanitized };
+}
+
+/**
+ * Resolve the settings for one request: request overrides, then the agent's stored settings, then defaults
+ */
+export function resolveRetrievalSettings(
+  agentSettings?: IAgentRetrievalSettings | null,
+  overrides?: IAgentRetrievalSettings | null
+): RetrievalSettings {
+  const resolved = { ...DEFAULT_RETRIEVAL_SETTINGS };
+  for (const key of RETRIEVAL_SETTING_KEYS) {
+    const value = overrides?.[key] ?? agentSettings?.[key];
+    if (typeof value === 'number') {
+      resolved[key] = value;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,48 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiKeyScope } from '../models/ApiKey.js';
+import { ApiKeyService } from '../services/apiKey.js';
+
+/**
+ * Reject requests whose API key has none of the scopes (admin keys have every scope)
+ */
+export function requireScope(...scopes: ApiKeyScope[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth || !scopes.some(scope => ApiKeyService.hasScope(req.auth!, scope))) {
+      return res.status(403).json({
+        error: `API key does not have the ${scopes.map(scope => `'${scope}'`).join(' or ')} scope`,
+        requiredScope: scopes.length === 1 ? scopes[0] : scopes
+      });
+    }
+    next();
+  };
+}
+
+export function hasAgentAccess(req: Request, agentId: string): boolean {
+  return !!req.auth && ApiKeyService.canAccessAgent(req.auth, agentId);
+}
+
+export function denyAgentAccess(res: Response, agentId: string) {
+  return res.status(403).json({
+    error: `API key cannot access agent '${agentId}'`,
+    field: 'agentId'
+  });
+}
+
+// The agentId a request targets: path parameter, then body, then query string
+function requestAgentId(req: Request): unknown {
+  return req.params.agentId ?? req.body?.agentId ?? req.query.agentId;
+}
+
+/**
+ * Reject requests for agents outside the key's agentIds. Requests without an agentId are left
+ * to the route's own validation; routes addressing records by id check hasAgentAccess themselves.
+ */
+export function requireAgentAccess(getAgentId: (req: Request) => unknown = requestAgentId) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const agentId = getAgentId(req);
+    if (typeof agentId === 'string' && agentId && !hasAgentAccess(req, agentId)) {
+      return denyAgentAccess(res, agentId);
+    }
+    next();
+  };
+}
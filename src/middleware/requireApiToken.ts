@@ -1,7 +1,40 @@
 import { NextFunction, Request, Response } from 'express';
+import { ApiAuthContext, ApiKeyService } from '../services/apiKey.js';
 
-export function requireApiToken(req: Request, res: Response, next: NextFunction) {
-  // Authentication disabled - allow all requests
-  console.log(`🔓 Authentication disabled: Allowing request for ${req.method} ${req.originalUrl}`);
-  return next();
-} 
\ No newline at end of file
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: ApiAuthContext; // Set by requireApiToken
+    }
+  }
+}
+
+// Keys are accepted as "Authorization: Bearer <key>" or "x-api-key: <key>"
+function extractApiKey(req: Request): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim() || null;
+  }
+  const apiKeyHeader = req.headers['x-api-key'];
+  return typeof apiKeyHeader === 'string' && apiKeyHeader.trim() ? apiKeyHeader.trim() : null;
+}
+
+export async function requireApiToken(req: Request, res: Response, next: NextFunction) {
+  try {
+    const key = extractApiKey(req);
+    if (!key) {
+      return res.status(401).json({ error: 'API key required. Send it as "Authorization: Bearer <key>" or in the x-api-key header.' });
+    }
+
+    const auth = await ApiKeyService.authenticate(key);
+    if (!auth) {
+      console.log(`🔒 Rejected invalid API key for ${req.method} ${req.originalUrl}`);
+      return res.status(401).json({ error: 'Invalid, expired or revoked API key' });
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
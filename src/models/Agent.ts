@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { PROVIDER_NAMES, ProviderName } from '../services/providers/types.js';
+
+export interface IAgentRetrievalSettings {
+  vectorK?: number;
+  keywordK?: number;
+  minSimilarityScore?: number;
+  confidenceThreshold?: number;
+  maxChunks?: number;
+  maxContextLength?: number;
+}
+
+export interface IAgent extends Document {
+  agentId: string;
+  name?: string;
+  role?: string;
+  tone?: string;
+  do_not_answer_from_general_knowledge: boolean;
+  systemPrompt?: string; // Extra instructions prepended to every answer prompt
+  fallbackMessage?: string; // Reply used when no relevant knowledge is found
+  language?: string; // Language code replies should be written in (e.g. "en", "fr", "pt-BR")
+  llmProvider?: ProviderName; // Overrides LLM_PROVIDER for this agent
+  embeddingProvider?: ProviderName; // Overrides EMBEDDING_PROVIDER; changing it requires retraining
+  retrieval?: IAgentRetrievalSettings; // Unset values fall back to DEFAULT_RETRIEVAL_SETTINGS
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AgentRetrievalSettingsSchema = new Schema<IAgentRetrievalSettings>({
+  vectorK: { type: Number, min: 1, max: 50 },
+  keywordK: { type: Number, min: 1, max: 20 },
+  minSimilarityScore: { type: Number, min: 0, max: 1 },
+  confidenceThreshold: { type: Number, min: 0, max: 1 },
+  maxChunks: { type: Number, min: 1, max: 20 },
+  maxContextLength: { type: Number, min: 1, max: 1000000 }
+}, { _id: false });
+
+const AgentSchema = new Schema<IAgent>({
+  agentId: { type: String, required: true, unique: true },
+  name: { type: String, required: false },
+  role: { type: String, required: false },
+  tone: { type: String, required: false },
+  do_not_answer_from_general_knowledge: { type: Boolean, default: false },
+  systemPrompt: { type: String, required: false },
+  fallbackMessage: { type: String, required: false },
+  language: { type: String, required: false },
+  llmProvider: { type: String, enum: PROVIDER_NAMES, required: false },
+  embeddingProvider: { type: String, enum: PROVIDER_NAMES, required: false },
+  retrieval: { type: AgentRetrievalSettingsSchema, default: {} }
+}, { timestamps: true });
+
+export default mongoose.model<IAgent>('Agent', AgentSchema);
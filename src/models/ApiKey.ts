@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// admin implies every other scope
+export const API_KEY_SCOPES = ['train', 'ask', 'analytics:read', 'admin'] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface IApiKey extends Document {
+  keyId: string; // Public identifier used to manage the key
+  name: string;
+  keyHash: string; // SHA-256 of the secret; the secret itself is only shown when the key is issued
+  prefix: string; // First characters of the secret, to recognise a key in listings
+  scopes: ApiKeyScope[];
+  agentIds: string[]; // Agents the key may use; empty means all agents
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdBy?: string; // keyId of the admin key that issued it
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  keyId: { type: String, required: true, unique: true },
+  name: { type: String, required: true },
+  keyHash: { type: String, required: true, unique: true },
+  prefix: { type: String, required: true },
+  scopes: { type: [String], enum: API_KEY_SCOPES, required: true },
+  agentIds: { type: [String], default: [] },
+  expiresAt: { type: Date, required: false },
+  lastUsedAt: { type: Date, required: false },
+  revokedAt: { type: Date, required: false },
+  createdBy: { type: String, required: false },
+}, { timestamps: true });
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
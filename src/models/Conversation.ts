@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  standaloneQuestion?: string; // Rewritten form of a follow-up question (user turns only)
+  questionId?: string; // Links assistant turns to analytics/feedback/audit records
+  confidence?: number;
+  timestamp: Date;
+}
+
+export interface IConversation extends Document {
+  conversationId: string;
+  agentId: string;
+  turns: IConversationTurn[];
+  sessionId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ConversationTurnSchema = new Schema<IConversationTurn>({
+  role: { type: String, enum: ['user', 'assistant'], required: true },
+  content: { type: String, required: true },
+  standaloneQuestion: { type: String, required: false },
+  questionId: { type: String, required: false },
+  confidence: { type: Number, required: false },
+  timestamp: { type: Date, default: Date.now }
+}, { _id: false });
+
+const ConversationSchema = new Schema<IConversation>({
+  conversationId: { type: String, required: true, unique: true },
+  agentId: { type: String, required: true },
+  turns: { type: [ConversationTurnSchema], default: [] },
+  sessionId: { type: String, required: false }
+}, { timestamps: true });
+
+ConversationSchema.index({ agentId: 1, updatedAt: -1 });
+
+export default mongoose.model<IConversation>('Conversation', ConversationSchema);
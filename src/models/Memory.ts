@@ -1,10 +1,25 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Model that produced embeddings stored before models were recorded on each chunk
+export const LEGACY_EMBEDDING_MODEL = 'gemini:models/text-embedding-004';
+
 export interface IMemory extends Document {
   agentId: string;
   text: string;
   embedding: number[];
-  source: 'audio' | 'video' | 'document' | 'website' | 'youtube';
+  embeddingModel?: string; // "<provider>:<model>" that produced the embedding (missing = LEGACY_EMBEDDING_MODEL)
+  embeddingDimensions?: number;
+  reembedding?: { embedding: number[]; embeddingModel: string; embeddingDimensions: number }; // Vector from a running re-embedding job, swapped in when the agent switches models; the old vector while it switches
+  embeddingStatus?: 'ready' | 'pending_embedding'; // pending_embedding chunks have no vector yet (missing = ready)
+  embeddingAttempts?: number; // Failed embedding attempts so far
+  embeddingError?: string; // Last embedding error
+  nextEmbeddingAttemptAt?: Date; // When the sweeper may retry a pending chunk
+  trainJobId?: string; // Training job that created this chunk
+  source: 'audio' | 'video' | 'document' | 'website' | 'youtube' | 'manual'; // manual = hand-written Q&A
+  pinned?: boolean; // Ranked above other chunks of similar relevance when answering
+  disabled?: boolean; // Kept, but never used to answer questions
+  editedAt?: Date; // Last manual edit through the chunk endpoints
+  editedBy?: string; // API key that made the last manual edit
   sourceUrl?: string;
   chunkIndex: number; // Position of this chunk in the original document
   contentHash: string; // SHA256 hash of the text content for deduplication
@@ -18,6 +33,9 @@ export interface IMemory extends Document {
     pageNumber?: number; // For PDF documents
     timestamp?: string; // For audio/video sources
     section?: string; // Section or chapter information
+    rowNumber?: number; // For CSV and spreadsheet rows (1 = first row below the headers)
+    fields?: Record<string, string>; // Filterable column values of a row, keyed by fieldKey(header)
+    ocrConfidence?: number; // For text read with OCR (scanned PDF pages, images), 0-100
     [key: string]: any; // Allow additional metadata
   };
   sourceMetadata?: {
@@ -29,17 +47,36 @@ export interface IMemory extends Document {
   };
 }
 
+// Identifies one trained source of an agent: a URL, an uploaded file, or pasted text of a source type
+export interface IMemorySource {
+  source: IMemory['source'];
+  sourceUrl?: string;
+  fileName?: string;
+}
+
 const MemorySchema = new Schema<IMemory>({
   agentId: { type: String, required: true },
   text: { type: String, required: true },
   embedding: { type: [Number], required: true }, // Vector index should be created in MongoDB Atlas
+  embeddingModel: { type: String, required: false },
+  embeddingDimensions: { type: Number, required: false },
+  reembedding: { type: Schema.Types.Mixed, required: false },
+  embeddingStatus: { type: String, enum: ['ready', 'pending_embedding'], default: 'ready' },
+  embeddingAttempts: { type: Number, required: false },
+  embeddingError: { type: String, required: false },
+  nextEmbeddingAttemptAt: { type: Date, required: false },
+  trainJobId: { type: String, required: false },
   source: { 
     type: String, 
-    enum: ["audio", "video", "document", "website", "youtube"],
+    enum: ["audio", "video", "document", "website", "youtube", "manual"],
     required: true,
     default: "document" // Default source for backward compatibility
   },
   sourceUrl: { type: String, required: false },
+  pinned: { type: Boolean, default: false },
+  disabled: { type: Boolean, default: false },
+  editedAt: { type: Date, required: false },
+  editedBy: { type: String, required: false },
   chunkIndex: { type: Number, required: true, default: 0 }, // Position of chunk in original document
   contentHash: { type: String, required: true }, // SHA256 hash for deduplication
   contentVersion: { type: Number, required: true, default: 1 }, // Version number
@@ -65,7 +102,52 @@ MemorySchema.index({ agentId: 1, chunkIndex: 1 });
 MemorySchema.index({ agentId: 1, 'chunkMetadata.totalChunks': 1 });
 MemorySchema.index({ agentId: 1, contentHash: 1 }); // For deduplication lookups
 MemorySchema.index({ agentId: 1, contentVersion: 1 }); // For versioning
+MemorySchema.index({ agentId: 1, embeddingModel: 1 }); // Queries only compare vectors from one model
+MemorySchema.index({ agentId: 1, 'reembedding.embeddingModel': 1 }, { sparse: true }); // Resuming re-embedding jobs
+MemorySchema.index({ embeddingStatus: 1, nextEmbeddingAttemptAt: 1 }); // Embedding sweeper
+MemorySchema.index({ trainJobId: 1, embeddingStatus: 1 }, { sparse: true }); // Training job status
 
 // NOTE: Create the vector index on 'embedding' in MongoDB Atlas, not in Mongoose.
+// Include 'embeddingModel' as a filter field so vector search can be restricted to one model.
+
+// Query condition excluding chunks whose embedding has not been generated yet
+export const EMBEDDING_READY = { embeddingStatus: { $ne: 'pending_embedding' } };
+
+// Query condition for chunks questions may be answered from
+export const RETRIEVABLE = { ...EMBEDDING_READY, disabled: { $ne: true } };
+
+/**
+ * Query condition matching chunks embedded with the given model
+ */
+export function matchEmbeddingModel(embeddingModel: string): { embeddingModel: string | { $in: (string | null)[] } } {
+  // Legacy chunks have no embeddingModel field; $in with null matches missing fields
+  if (embeddingModel === LEGACY_EMBEDDING_MODEL) {
+    return { embeddingModel: { $in: [LEGACY_EMBEDDING_MODEL, null] } };
+  }
+  return { embeddingModel };
+}
+
+/**
+ * Query condition matching chunks that have a vector from the given model, either as their embedding
+ * or as the previous vector a re-embedding job keeps while it switches the agent over
+ */
+export function matchVectorModel(embeddingModel: string): { $or: Record<string, unknown>[] } {
+  return { $or: [matchEmbeddingModel(embeddingModel), { 'reembedding.embeddingModel': embeddingModel }] };
+}
+
+/**
+ * Key a column is stored under in chunkMetadata.fields. Columns are named case-insensitively, so
+ * keys are lower case. Dots and a leading $ would be read as query paths and operators, so they are replaced.
+ */
+export function fieldKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\./g, '_').replace(/^\$/, '_');
+}
+
+/**
+ * Query condition matching chunks whose fields have one of the given values for every column
+ */
+export function matchFields(filters: Record<string, string[]>): Record<string, { $in: string[] }> {
+  return Object.fromEntries(Object.entries(filters).map(([name, values]) => [`chunkMetadata.fields.${fieldKey(name)}`, { $in: values }]));
+}
 
 export default mongoose.model<IMemory>('Memory', MemorySchema); 
\ No newline at end of file
@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Chunks removed by a purge, grouped the way dry runs report them
+export interface IMemoryPurgeSummary {
+  totalChunks: number;
+  byAgent: { agentId: string; chunks: number; bySource: Record<string, number> }[];
+}
+
+// Audit record of a memory purge. Purged chunks stay restorable until restoreUntil.
+export interface IMemoryPurge extends Document {
+  purgeId: string;
+  scope: 'all' | 'agent';
+  agentId?: string; // Set when scope is 'agent'
+  status: 'deleting' | 'soft_deleted' | 'restored' | 'purged' | 'failed';
+  summary: IMemoryPurgeSummary;
+  deletedCount: number;
+  requestedBy: string; // keyId of the API key that requested the purge
+  restoreUntil?: Date; // After this the chunks are permanently deleted
+  restoredAt?: Date;
+  restoredBy?: string;
+  restoredCount?: number;
+  purgedAt?: Date;
+  error: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MemoryPurgeSchema = new Schema<IMemoryPurge>({
+  purgeId: { type: String, required: true, unique: true },
+  scope: { type: String, enum: ['all', 'agent'], required: true },
+  agentId: { type: String, required: false },
+  status: { type: String, enum: ['deleting', 'soft_deleted', 'restored', 'purged', 'failed'], required: true },
+  summary: { type: Schema.Types.Mixed, required: true },
+  deletedCount: { type: Number, default: 0 },
+  requestedBy: { type: String, required: true },
+  restoreUntil: { type: Date, required: false },
+  restoredAt: { type: Date, required: false },
+  restoredBy: { type: String, required: false },
+  restoredCount: { type: Number, required: false },
+  purgedAt: { type: Date, required: false },
+  error: { type: Schema.Types.Mixed, default: null }
+}, { timestamps: true });
+
+MemoryPurgeSchema.index({ status: 1, restoreUntil: 1 }); // Final deletion sweep
+MemoryPurgeSchema.index({ agentId: 1, createdAt: -1 });
+
+export default mongoose.model<IMemoryPurge>('MemoryPurge', MemoryPurgeSchema);
+
+// Soft-deleted Memory chunks, kept with their original _id so a restore puts them back unchanged
+const DeletedMemorySchema = new Schema({
+  purgeId: { type: String, required: true },
+  deletedAt: { type: Date, required: true }
+}, { strict: false });
+
+DeletedMemorySchema.index({ purgeId: 1 });
+
+export const DeletedMemory = mongoose.model('DeletedMemory', DeletedMemorySchema, 'memories_deleted');
@@ -0,0 +1,37 @@
+import mongoose, { Document, Schema, Types } from 'mongoose';
+
+export interface IReembedJob extends Document {
+  jobId: string;
+  agentId: string;
+  status: 'queued' | 'processing' | 'completed' | 'failed';
+  targetProvider: string; // Provider the agent is switched to once all chunks are re-embedded
+  targetModel: string; // "<provider>:<model>" of the new embeddings
+  progress: number;
+  totalChunks: number;
+  processedChunks: number;
+  errorCount: number;
+  lastProcessedId?: Types.ObjectId; // Resume point: chunks are processed in _id order
+  error: any;
+  result: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReembedJobSchema = new Schema<IReembedJob>({
+  jobId: { type: String, required: true, unique: true },
+  agentId: { type: String, required: true },
+  status: { type: String, enum: ['queued', 'processing', 'completed', 'failed'], required: true },
+  targetProvider: { type: String, required: true },
+  targetModel: { type: String, required: true },
+  progress: { type: Number, default: 0 },
+  totalChunks: { type: Number, default: 0 },
+  processedChunks: { type: Number, default: 0 },
+  errorCount: { type: Number, default: 0 },
+  lastProcessedId: { type: Schema.Types.ObjectId, required: false },
+  error: { type: Schema.Types.Mixed, default: null },
+  result: { type: Schema.Types.Mixed, default: null }
+}, { timestamps: true });
+
+ReembedJobSchema.index({ agentId: 1, status: 1 });
+
+export default mongoose.model<IReembedJob>('ReembedJob', ReembedJobSchema);
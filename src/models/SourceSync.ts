@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const SYNC_FREQUENCIES = ['manual', 'daily', 'weekly'] as const;
+export type SyncFrequency = typeof SYNC_FREQUENCIES[number];
+
+// Chunks a re-sync added, removed and kept for a page
+export interface ISyncChanges {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Re-sync state and schedule of one website page of an agent
+export interface ISourceSync extends Document {
+  agentId: string;
+  sourceUrl: string;
+  frequency: SyncFrequency; // manual = only re-synced on request
+  nextRunAt?: Date; // When the scheduler re-syncs the page next
+  pausedByPurgeId?: string; // Memory purge that removed the page's knowledge; not re-synced until it is restored
+  activeJobId?: string; // Training job currently re-syncing the page
+  lastJobId?: string;
+  lastRunAt?: Date; // When the last re-sync was queued
+  lastSyncedAt?: Date; // When the last re-sync finished
+  lastStatus?: 'completed' | 'failed' | 'cancelled';
+  lastError?: any;
+  lastChangedAt?: Date; // Last re-sync that found changed content
+  lastChanges?: ISyncChanges;
+  contentVersion: number; // Highest content version stored for the page
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SourceSyncSchema = new Schema<ISourceSync>({
+  agentId: { type: String, required: true },
+  sourceUrl: { type: String, required: true },
+  frequency: { type: String, enum: SYNC_FREQUENCIES, default: 'manual' },
+  nextRunAt: { type: Date, required: false },
+  pausedByPurgeId: { type: String, required: false },
+  activeJobId: { type: String, required: false },
+  lastJobId: { type: String, required: false },
+  lastRunAt: { type: Date, required: false },
+  lastSyncedAt: { type: Date, required: false },
+  lastStatus: { type: String, enum: ['completed', 'failed', 'cancelled'], required: false },
+  lastError: { type: Schema.Types.Mixed, required: false },
+  lastChangedAt: { type: Date, required: false },
+  lastChanges: { type: Schema.Types.Mixed, required: false },
+  contentVersion: { type: Number, default: 0 }
+}, { timestamps: true });
+
+SourceSyncSchema.index({ agentId: 1, sourceUrl: 1 }, { unique: true });
+SourceSyncSchema.index({ nextRunAt: 1 }, { sparse: true }); // Scheduler picks due pages
+SourceSyncSchema.index({ activeJobId: 1 }, { sparse: true }); // Settling finished re-syncs
+SourceSyncSchema.index({ pausedByPurgeId: 1 }, { sparse: true }); // Resuming schedules when a purge is restored
+
+export default mongoose.model<ISourceSync>('SourceSync', SourceSyncSchema);
@@ -1,8 +1,35 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { CrawlOptions } from '../utils/crawlWebsite.js';
+import { TableOptions } from '../utils/parsers/table.js';
+import { IMemorySource } from './Memory.js';
+
+// File uploaded with a training request, kept in staging storage until the job finishes
+export interface IStagedFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  key: string; // Staging storage key, `<jobId>/<file>`
+}
+
+// Everything a worker needs to run the job, stored with the job so it survives restarts
+export interface ITrainJobPayload {
+  text?: string;
+  source: string;
+  sourceUrl?: string;
+  sourceMetadata?: any;
+  fileType?: string | string[];
+  files: IStagedFile[];
+  embeddingProvider?: string;
+  replaceSource?: IMemorySource; // Source whose old chunks are removed once this job's chunks are all embedded
+  resync?: boolean; // Website re-sync: unchanged chunks of replaceSource are kept, only changed ones are embedded
+  crawl?: CrawlOptions; // Website crawl: every page found from sourceUrl is stored as its own source
+  table?: TableOptions; // CSV and spreadsheet files: columns kept as row text and as filterable metadata
+  retryOf?: string; // Job whose failed files this job reprocesses
+}
 
 export interface ITrainJob extends Document {
   jobId: string;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'completed_with_errors' | 'failed' | 'cancelled'; // completed_with_errors: some files failed
   progress: number;
   error: any;
   result: any;
@@ -16,11 +43,23 @@ export interface ITrainJob extends Document {
   successCount?: number;
   errorCount?: number;
   skippedCount?: number;
+  pendingEmbeddingCount?: number; // Chunks stored without an embedding, retried by the embedding sweeper
+  payload?: ITrainJobPayload;
+  attempts: number; // Times a worker has started the job
+  maxAttempts: number;
+  runAt: Date; // Queued jobs are not picked up before this time (retry backoff)
+  workerId?: string; // Worker currently running the job
+  heartbeatAt?: Date; // Updated while the job runs; stale heartbeats mean the worker died
+  cancelRequested: boolean;
+  startedAt?: Date;
+  finishedAt?: Date;
+  retryableUntil?: Date; // Failed files of a completed_with_errors job stay staged until then
+  retriedBy?: string; // Job that took over the failed files
 }
 
 const TrainJobSchema = new Schema<ITrainJob>({
   jobId: { type: String, required: true, unique: true },
-  status: { type: String, enum: ['queued', 'processing', 'completed', 'failed'], required: true },
+  status: { type: String, enum: ['queued', 'processing', 'completed', 'completed_with_errors', 'failed', 'cancelled'], required: true },
   progress: { type: Number, default: 0 },
   error: { type: Schema.Types.Mixed, default: null },
   result: { type: Schema.Types.Mixed, default: null },
@@ -32,6 +71,22 @@ const TrainJobSchema = new Schema<ITrainJob>({
   successCount: { type: Number, default: 0 },
   errorCount: { type: Number, default: 0 },
   skippedCount: { type: Number, default: 0 },
+  pendingEmbeddingCount: { type: Number, default: 0 },
+  payload: { type: Schema.Types.Mixed, required: false },
+  attempts: { type: Number, default: 0 },
+  maxAttempts: { type: Number, default: 3 },
+  runAt: { type: Date, default: Date.now },
+  workerId: { type: String, required: false },
+  heartbeatAt: { type: Date, required: false },
+  cancelRequested: { type: Boolean, default: false },
+  startedAt: { type: Date, required: false },
+  finishedAt: { type: Date, required: false },
+  retryableUntil: { type: Date, required: false },
+  retriedBy: { type: String, required: false },
 }, { timestamps: true });
 
-export default mongoose.model<ITrainJob>('TrainJob', TrainJobSchema); 
\ No newline at end of file
+TrainJobSchema.index({ status: 1, runAt: 1 }); // Workers claim the oldest due job
+TrainJobSchema.index({ status: 1, heartbeatAt: 1 }); // Stale job detection
+TrainJobSchema.index({ retryableUntil: 1 }, { sparse: true }); // Expiring files kept for retries
+
+export default mongoose.model<ITrainJob>('TrainJob', TrainJobSchema);
@@ -0,0 +1,1102 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { requireAgentAccess, requireScope } from '../middleware/authorize.js';
+import { IAgent } from '../models/Agent.js';
+import { IReembedJob } from '../models/ReembedJob.js';
+import { ISourceSync, SYNC_FREQUENCIES } from '../models/SourceSync.js';
+import { AGENT_EDITABLE_FIELDS, AgentInput, AgentService } from '../services/agent.js';
+import { getEmbeddingModelId, getEmbeddingProvider, isProviderName } from '../services/llm.js';
+import { MemoryPurgeService } from '../services/memoryPurge.js';
+import { ReembedService } from '../services/reembed.js';
+import { SourceService } from '../services/source.js';
+import { SourceSyncService, SourceSyncStateError } from '../services/sourceSync.js';
+import { PROVIDER_NAMES } from '../services/providers/types.js';
+import { validateRetrievalSettings } from '../config/retrieval.js';
+import { sanitizeAgentId, sanitizeText } from '../utils/security.js';
+
+const router = express.Router();
+
+// Length limits for free-text agent fields
+const AGENT_FIELD_LIMITS: Record<'name' | 'role' | 'tone' | 'systemPrompt' | 'fallbackMessage', number> = {
+  name: 200,
+  role: 500,
+  tone: 100,
+  systemPrompt: 10000,
+  fallbackMessage: 2000
+};
+
+// Validate and sanitize the editable agent fields in the request body
+const validateAgentPayload = (req: Request, res: Response, next: NextFunction) => {
+  const input: AgentInput = {};
+
+  for (const field of Object.keys(AGENT_FIELD_LIMITS) as (keyof typeof AGENT_FIELD_LIMITS)[]) {
+    const value = req.body[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (typeof value !== 'string') {
+      return res.status(400).json({ error: `${field} must be a string`, field });
+    }
+    const textValidation = sanitizeText(value, AGENT_FIELD_LIMITS[field]);
+    if (!textValidation.isValid) {
+      return res.status(400).json({ error: `${field}: ${textValidation.error}`, field });
+    }
+    input[field] = textValidation.sanitized;
+  }
+
+  const { do_not_answer_from_general_knowledge, language } = req.body;
+
+  if (do_not_answer_from_general_knowledge !== undefined) {
+    if (typeof do_not_answer_from_general_knowledge !== 'boolean') {
+      return res.status(400).json({
+        error: 'do_not_answer_from_general_knowledge must be a boolean',
+        field: 'do_not_answer_from_general_knowledge'
+      });
+    }
+    input.do_not_answer_from_general_knowledge = do_not_answer_from_general_knowledge;
+  }
+
+  if (language !== undefined && language !== null && language !== '') {
+    if (typeof language !== 'string' || !/^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(language)) {
+      return res.status(400).json({
+        error: 'language must be a language code such as "en", "fr" or "pt-BR"',
+        field: 'language'
+      });
+    }
+    input.language = language;
+  }
+
+  for (const field of ['llmProvider', 'embeddingProvider'] as const) {
+    const value = req.body[field];
+    if (value === undefined || value === null || value === '') continue;
+    if (!isProviderName(value)) {
+      return res.status(400).json({
+        error: `${field} must be one of: ${PROVIDER_NAMES.join(', ')}`,
+        field
+      });
+    }
+    input[field] = value;
+  }
+
+  if (req.body.retrieval !== undefined) {
+    const retrievalValidation = validateRetrievalSettings(req.body.retrieval);
+    if (!retrievalValidation.isValid) {
+      return res.status(400).json({ error: retrievalValidation.error, field: 'retrieval' });
+    }
+    input.retrieval = retrievalValidation.sanitized;
+  }
+
+  res.locals.agentInput = input;
+  next();
+};
+
+// Shape returned by every agents endpoint
+const toAgentResponse = (agent: IAgent) => {
+  const response: Record<string, unknown> = { agentId: agent.agentId };
+  for (const field of AGENT_EDITABLE_FIELDS) {
+    response[field] = agent[field];
+  }
+  response.createdAt = agent.createdAt;
+  response.updatedAt = agent.updatedAt;
+  return response;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Agent:
+ *       type: object
+ *       properties:
+ *         agentId:
+ *           type: string
+ *           example: "sales-agent-001"
+ *         name:
+ *           type: string
+ *           example: "Sales Assistant"
+ *         role:
+ *           type: string
+ *           example: "Fashion store assistant"
+ *         tone:
+ *           type: string
+ *           example: "friendly"
+ *         do_not_answer_from_general_knowledge:
+ *           type: boolean
+ *           description: Only answer from trained knowledge
+ *         systemPrompt:
+ *           type: string
+ *           description: Extra instructions included in every answer prompt
+ *         fallbackMessage:
+ *           type: string
+ *           description: Reply used when no relevant knowledge is found
+ *           example: "I'm not sure about that - please contact sales@example.com."
+ *         language:
+ *           type: string
+ *           description: Language code replies are written in
+ *           example: "en"
+ *         llmProvider:
+ *           type: string
+ *           enum: [gemini, openai, stub]
+ *           description: Provider used to generate answers (defaults to the LLM_PROVIDER setting)
+ *         embeddingProvider:
+ *           type: string
+ *           enum: [gemini, openai, stub]
+ *           description: Provider used to embed knowledge and questions (defaults to the EMBEDDING_PROVIDER setting). Only chunks embedded with the same model are searched, so switch with POST /api/agents/{agentId}/reembed rather than changing it directly.
+ *         retrieval:
+ *           type: object
+ *           description: Per-agent retrieval settings. Omitted settings use the defaults; send null to reset a setting to its default.
+ *           properties:
+ *             vectorK:
+ *               type: integer
+ *               minimum: 1
+ *               maximum: 50
+ *               default: 20
+ *             keywordK:
+ *               type: integer
+ *               minimum: 1
+ *               maximum: 20
+ *               default: 8
+ *             minSimilarityScore:
+ *               type: number
+ *               minimum: 0
+ *               maximum: 1
+ *               default: 0.3
+ *             confidenceThreshold:
+ *               type: number
+ *               minimum: 0
+ *               maximum: 1
+ *               default: 0.2
+ *             maxChunks:
+ *               type: integer
+ *               minimum: 1
+ *               maximum: 20
+ *               default: 10
+ *             maxContextLength:
+ *               type: integer
+ *               minimum: 1
+ *               maximum: 1000000
+ *               default: 50000
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/agents:
+ *   post:
+ *     summary: Register an agent
+ *     description: Create an agent in the registry. Agents must be registered before they can be trained or asked questions.
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/Agent'
+ *             required:
+ *               - agentId
+ *     responses:
+ *       201:
+ *         description: Agent created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 agent:
+ *                   $ref: '#/components/schemas/Agent'
+ *       400:
+ *         description: Invalid agent fields
+ *       409:
+ *         description: Agent already exists
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', requireScope('train'), requireAgentAccess(), validateAgentPayload, async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.body.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    if (await AgentService.agentExists(agentId)) {
+      return res.status(409).json({
+        error: `Agent '${agentId}' already exists`,
+        field: 'agentId'
+      });
+    }
+
+    const agent = await AgentService.createAgent(agentId, res.locals.agentInput);
+    res.status(201).json({
+      success: true,
+      agent: toAgentResponse(agent)
+    });
+  } catch (error: any) {
+    if (error?.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error?.code === 11000) {
+      return res.status(409).json({ error: `Agent '${req.body.agentId}' already exists`, field: 'agentId' });
+    }
+    console.error('Create agent error:', error);
+    res.status(500).json({
+      error: 'Failed to create agent',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents:
+ *   get:
+ *     summary: List agents
+ *     description: List registered agents, most recently updated first
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *     responses:
+ *       200:
+ *         description: Agents retrieved successfully
+ *       400:
+ *         description: Invalid parameters
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('train', 'ask', 'analytics:read'), async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    if (limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 100' });
+    }
+    if (page < 1) {
+      return res.status(400).json({ error: 'Page must be 1 or greater' });
+    }
+
+    const { agents, total } = await AgentService.listAgents(limit, (page - 1) * limit, req.auth?.agentIds);
+    res.json({
+      success: true,
+      agents: agents.map(toAgentResponse),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('List agents error:', error);
+    res.status(500).json({
+      error: 'Failed to list agents',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}:
+ *   get:
+ *     summary: Get an agent
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Agent retrieved successfully
+ *       400:
+ *         description: Invalid agent ID
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:agentId', requireScope('train', 'ask', 'analytics:read'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+
+    const agent = await AgentService.getAgent(agentIdValidation.sanitized!);
+    if (!agent) {
+      return res.status(404).json({ error: `Agent '${agentIdValidation.sanitized}' not found` });
+    }
+
+    res.json({
+      success: true,
+      agent: toAgentResponse(agent)
+    });
+  } catch (error) {
+    console.error('Get agent error:', error);
+    res.status(500).json({
+      error: 'Failed to get agent',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}:
+ *   put:
+ *     summary: Update an agent
+ *     description: Update any of the agent's editable fields. Fields that are omitted are left unchanged.
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Agent'
+ *     responses:
+ *       200:
+ *         description: Agent updated
+ *       400:
+ *         description: Invalid agent fields
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:agentId', requireScope('train'), requireAgentAccess(), validateAgentPayload, async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    // Make sure legacy agents are registered before updating them
+    if (!(await AgentService.agentExists(agentId))) {
+      return res.status(404).json({ error: `Agent '${agentId}' not found` });
+    }
+
+    const agent = await AgentService.updateAgent(agentId, res.locals.agentInput);
+    if (!agent) {
+      return res.status(404).json({ error: `Agent '${agentId}' not found` });
+    }
+
+    res.json({
+      success: true,
+      agent: toAgentResponse(agent)
+    });
+  } catch (error: any) {
+    if (error?.name === 'ValidationError') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Update agent error:', error);
+    res.status(500).json({
+      error: 'Failed to update agent',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}:
+ *   delete:
+ *     summary: Delete an agent
+ *     description: |
+ *       Remove an agent from the registry together with its conversations. Its trained knowledge is removed by a
+ *       memory purge (memoryPurgeId in the response), so it can be restored with
+ *       POST /api/analytics/memory-purges/{purgeId}/restore until the retention period ends.
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Agent deleted
+ *       400:
+ *         description: Invalid agent ID
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:agentId', requireScope('admin'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    if (!(await AgentService.agentExists(agentId))) {
+      return res.status(404).json({ error: `Agent '${agentId}' not found` });
+    }
+
+    // Knowledge goes through a memory purge so the deletion is recorded and can be undone
+    const purge = await MemoryPurgeService.startSoftDelete({ scope: 'agent', agentId }, req.auth!.keyId);
+    const result = await AgentService.deleteAgent(agentId);
+    console.log(`🗑️ Deleted agent ${agentId} (${purge.summary.totalChunks} chunks purged by ${purge.purgeId}, ${result.conversationsDeleted} conversations)`);
+
+    res.json({
+      success: true,
+      message: `Agent '${agentId}' deleted. Its knowledge can be restored through memory purge ${purge.purgeId}.`,
+      data: {
+        agentId,
+        memoryPurgeId: purge.purgeId,
+        memoryChunks: purge.summary.totalChunks,
+        conversationsDeleted: result.conversationsDeleted
+      }
+    });
+  } catch (error) {
+    console.error('Delete agent error:', error);
+    res.status(500).json({
+      error: 'Failed to delete agent',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/sources:
+ *   get:
+ *     summary: List an agent's knowledge sources
+ *     description: |
+ *       Distinct sources the agent was trained on (website or YouTube URL, uploaded file, or pasted text per source type),
+ *       with chunk counts, the latest content version and when they were last trained, most recent first.
+ *       Replace a source by training with its sourceId as replaceSourceId (see POST /api/train).
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sources of the agent
+ *       400:
+ *         description: Invalid agent ID
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:agentId/sources', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    if (!(await AgentService.agentExists(agentId))) {
+      return res.status(404).json({ error: `Agent '${agentId}' not found` });
+    }
+
+    const sources = await SourceService.listSources(agentId);
+    res.json({
+      success: true,
+      agentId,
+      total: sources.length,
+      sources
+    });
+  } catch (error) {
+    console.error('List sources error:', error);
+    res.status(500).json({
+      error: 'Failed to list sources',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/sources/{sourceId}:
+ *   get:
+ *     summary: Get one knowledge source
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Source details
+ *       400:
+ *         description: Invalid agent ID or source ID
+ *       404:
+ *         description: Source not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete a knowledge source
+ *     description: Deletes every chunk trained from the source. The agent stops answering from it immediately.
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Source deleted
+ *       400:
+ *         description: Invalid agent ID or source ID
+ *       404:
+ *         description: Source not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:agentId/sources/:sourceId', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    const ref = SourceService.parseSourceId(req.params.sourceId);
+    if (!ref) {
+      return res.status(400).json({ error: 'Invalid source ID', field: 'sourceId' });
+    }
+
+    const source = await SourceService.getSource(agentId, ref);
+    if (!source) {
+      return res.status(404).json({ error: 'Source not found' });
+    }
+
+    // Website pages also report their re-sync state
+    const sync = source.source === 'website' && source.sourceUrl
+      ? await SourceSyncService.getSync(agentId, source.sourceUrl)
+      : null;
+
+    res.json({
+      success: true,
+      agentId,
+      source,
+      ...(source.source === 'website' && { sync: sync ? toSyncResponse(sync) : null })
+    });
+  } catch (error) {
+    console.error('Get source error:', error);
+    res.status(500).json({
+      error: 'Failed to get source',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.delete('/:agentId/sources/:sourceId', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    const ref = SourceService.parseSourceId(req.params.sourceId);
+    if (!ref) {
+      return res.status(400).json({ error: 'Invalid source ID', field: 'sourceId' });
+    }
+
+    const deletedCount = await SourceService.deleteSource(agentId, ref);
+    if (deletedCount === 0) {
+      return res.status(404).json({ error: 'Source not found' });
+    }
+    console.log(`🗑️ Deleted source ${ref.sourceUrl || ref.fileName || ref.source} of agent ${agentId} (${deletedCount} chunks)`);
+
+    res.json({
+      success: true,
+      message: `Source deleted (${deletedCount} chunks)`,
+      data: {
+        agentId,
+        sourceId: req.params.sourceId,
+        deletedCount
+      }
+    });
+  } catch (error) {
+    console.error('Delete source error:', error);
+    res.status(500).json({
+      error: 'Failed to delete source',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+
+// Resolve a website source for the re-sync endpoints; sends the error response and returns null otherwise
+const resolveWebsiteSource = async (req: Request, res: Response): Promise<{ agentId: string; sourceUrl: string } | null> => {
+  const agentIdValidation = sanitizeAgentId(req.params.agentId);
+  if (!agentIdValidation.isValid) {
+    res.status(400).json({
+      error: agentIdValidation.error,
+      field: 'agentId'
+    });
+    return null;
+  }
+  const agentId = agentIdValidation.sanitized!;
+
+  const ref = SourceService.parseSourceId(req.params.sourceId);
+  if (!ref) {
+    res.status(400).json({ error: 'Invalid source ID', field: 'sourceId' });
+    return null;
+  }
+  if (ref.source !== 'website' || !ref.sourceUrl) {
+    res.status(400).json({ error: 'Only website sources can be re-synced', field: 'sourceId' });
+    return null;
+  }
+  if (!(await SourceService.getSource(agentId, ref))) {
+    res.status(404).json({ error: 'Source not found' });
+    return null;
+  }
+  return { agentId, sourceUrl: ref.sourceUrl };
+};
+
+// Shape returned for page re-sync state
+const toSyncResponse = (sync: ISourceSync) => ({
+  frequency: sync.frequency,
+  nextRunAt: sync.nextRunAt ?? null,
+  pausedByPurgeId: sync.pausedByPurgeId ?? null,
+  activeJobId: sync.activeJobId ?? null,
+  lastJobId: sync.lastJobId ?? null,
+  lastRunAt: sync.lastRunAt ?? null,
+  lastSyncedAt: sync.lastSyncedAt ?? null,
+  lastStatus: sync.lastStatus ?? null,
+  lastError: sync.lastError ?? null,
+  lastChangedAt: sync.lastChangedAt ?? null,
+  lastChanges: sync.lastChanges ?? null,
+  contentVersion: sync.contentVersion
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/sources/{sourceId}/resync:
+ *   post:
+ *     summary: Re-sync a website source now
+ *     description: |
+ *       Queues a training job that scrapes the page again, embeds only chunks whose content changed and removes
+ *       chunks that are no longer on the page (once the new ones are embedded). Poll /api/train/status/{jobId}.
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Re-sync queued
+ *       400:
+ *         description: Invalid IDs, or the source is not a website
+ *       404:
+ *         description: Source not found
+ *       409:
+ *         description: A re-sync of the page is already running, or a memory purge removed its knowledge
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:agentId/sources/:sourceId/resync', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const page = await resolveWebsiteSource(req, res);
+    if (!page) return;
+
+    const sync = await SourceSyncService.resyncNow(page.agentId, page.sourceUrl);
+    res.status(202).json({
+      success: true,
+      message: `Re-sync started. Poll /api/train/status/${sync.activeJobId} for progress.`,
+      jobId: sync.activeJobId,
+      sync: toSyncResponse(sync)
+    });
+  } catch (error) {
+    if (error instanceof SourceSyncStateError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Re-sync source error:', error);
+    res.status(500).json({
+      error: 'Failed to start re-sync',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/sources/{sourceId}/schedule:
+ *   put:
+ *     summary: Schedule re-syncs of a website source
+ *     description: The in-process scheduler re-syncs the page daily or weekly; `manual` turns scheduling off
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sourceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - frequency
+ *             properties:
+ *               frequency:
+ *                 type: string
+ *                 enum: [manual, daily, weekly]
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *       400:
+ *         description: Invalid IDs or frequency, or the source is not a website
+ *       404:
+ *         description: Source not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:agentId/sources/:sourceId/schedule', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const { frequency } = req.body;
+    if (!SYNC_FREQUENCIES.includes(frequency)) {
+      return res.status(400).json({
+        error: `frequency must be one of: ${SYNC_FREQUENCIES.join(', ')}`,
+        field: 'frequency'
+      });
+    }
+
+    const page = await resolveWebsiteSource(req, res);
+    if (!page) return;
+
+    const sync = await SourceSyncService.setSchedule(page.agentId, page.sourceUrl, frequency);
+    console.log(`🔄 Re-sync of ${page.sourceUrl} for agent ${page.agentId} set to ${frequency}`);
+    res.json({
+      success: true,
+      sync: toSyncResponse(sync)
+    });
+  } catch (error) {
+    console.error('Schedule source re-sync error:', error);
+    res.status(500).json({
+      error: 'Failed to schedule re-sync',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+
+// Shape returned for re-embedding jobs
+const toReembedJobResponse = (job: IReembedJob) => ({
+  jobId: job.jobId,
+  agentId: job.agentId,
+  status: job.status,
+  targetProvider: job.targetProvider,
+  targetModel: job.targetModel,
+  progress: job.progress,
+  totalChunks: job.totalChunks,
+  processedChunks: job.processedChunks,
+  errorCount: job.errorCount,
+  error: job.error,
+  result: job.result,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/embeddings:
+ *   get:
+ *     summary: Get an agent's embedding models
+ *     description: Number of knowledge chunks per embedding model, the model questions are currently embedded with, and recent re-embedding jobs
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Embedding statistics
+ *       400:
+ *         description: Invalid agent ID
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:agentId/embeddings', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    const agent = await AgentService.getAgent(agentId);
+    if (!agent) {
+      return res.status(404).json({ error: `Agent '${agentId}' not found` });
+    }
+
+    const [models, jobs] = await Promise.all([
+      ReembedService.getEmbeddingStats(agentId),
+      ReembedService.listJobs(agentId)
+    ]);
+
+    res.json({
+      success: true,
+      agentId,
+      activeEmbeddingModel: getEmbeddingModelId(getEmbeddingProvider(agent.embeddingProvider)),
+      models,
+      jobs: jobs.map(toReembedJobResponse)
+    });
+  } catch (error) {
+    console.error('Get embedding stats error:', error);
+    res.status(500).json({
+      error: 'Failed to get embedding statistics',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/reembed:
+ *   post:
+ *     summary: Re-embed an agent's knowledge with a new embedding provider
+ *     description: |
+ *       Starts a background job that re-embeds every chunk with the target provider's model. The agent keeps
+ *       answering from its current model until all chunks are done. The new vectors then replace the old ones
+ *       in the same chunks (chunk ids, edits, pins and disables are kept) and the agent switches to the new
+ *       provider; questions find every chunk throughout. If the job fails or the server restarts, start it again (or let it resume on startup);
+ *       chunks that were already re-embedded are skipped.
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - embeddingProvider
+ *             properties:
+ *               embeddingProvider:
+ *                 type: string
+ *                 enum: [gemini, openai, stub]
+ *     responses:
+ *       202:
+ *         description: Re-embedding job queued
+ *       200:
+ *         description: A re-embedding job is already running for this agent
+ *       400:
+ *         description: Invalid agent ID or provider
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:agentId/reembed', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agentId = agentIdValidation.sanitized!;
+
+    const { embeddingProvider } = req.body;
+    if (!isProviderName(embeddingProvider)) {
+      return res.status(400).json({
+        error: `embeddingProvider must be one of: ${PROVIDER_NAMES.join(', ')}`,
+        field: 'embeddingProvider'
+      });
+    }
+
+    if (!(await AgentService.agentExists(agentId))) {
+      return res.status(404).json({ error: `Agent '${agentId}' not found` });
+    }
+
+    // Fails fast when the provider has no credentials configured
+    try {
+      getEmbeddingProvider(embeddingProvider);
+    } catch (providerError) {
+      return res.status(400).json({
+        error: `Provider '${embeddingProvider}' is not configured: ${providerError instanceof Error ? providerError.message : String(providerError)}`,
+        field: 'embeddingProvider'
+      });
+    }
+
+    const { job, created } = await ReembedService.startJob(agentId, embeddingProvider);
+    if (created) {
+      console.log(`🧬 Queued re-embedding job ${job.jobId} for agent ${agentId} (${job.targetModel})`);
+    }
+
+    res.status(created ? 202 : 200).json({
+      success: true,
+      message: created
+        ? `Re-embedding started. Poll /api/agents/${agentId}/reembed/${job.jobId} for progress.`
+        : 'A re-embedding job is already running for this agent',
+      job: toReembedJobResponse(job)
+    });
+  } catch (error) {
+    console.error('Start re-embedding error:', error);
+    res.status(500).json({
+      error: 'Failed to start re-embedding',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/reembed/{jobId}:
+ *   get:
+ *     summary: Get re-embedding job status
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job status
+ *       404:
+ *         description: Job not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:agentId/reembed/:jobId', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const job = await ReembedService.getJob(req.params.jobId);
+    if (!job || job.agentId !== req.params.agentId) {
+      return res.status(404).json({ error: 'Re-embedding job not found' });
+    }
+
+    res.json({
+      success: true,
+      job: toReembedJobResponse(job)
+    });
+  } catch (error) {
+    console.error('Get re-embedding job error:', error);
+    res.status(500).json({
+      error: 'Failed to get re-embedding job',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
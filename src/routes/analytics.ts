@@ -1,6 +1,9 @@
-import { Router } from 'express';
+import { Request, Response, Router } from 'express';
+import { hasAgentAccess, requireAgentAccess, requireScope } from '../middleware/authorize.js';
 import Memory from '../models/Memory.js';
+import { IMemoryPurge } from '../models/MemoryPurge.js';
 import { analyticsService } from '../services/analytics.js';
+import { MemoryPurgeScope, MemoryPurgeService, MemoryPurgeStateError } from '../services/memoryPurge.js';
 import { sanitizeAgentId } from '../utils/security.js';
 
 const router = Router();
@@ -78,7 +81,7 @@ const router = Router();
  *       500:
  *         description: Internal server error
  */
-router.get('/dashboard/:agentId', async (req, res) => {
+router.get('/dashboard/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { days = 30 } = req.query;
@@ -184,7 +187,7 @@ router.get('/dashboard/:agentId', async (req, res) => {
  *       500:
  *         description: Internal server error
  */
-router.get('/top-questions/:agentId', async (req, res) => {
+router.get('/top-questions/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { limit = 20, days = 30 } = req.query;
@@ -227,7 +230,7 @@ router.get('/top-questions/:agentId', async (req, res) => {
  * GET /analytics/sources/:agentId
  * Get sources used in answers
  */
-router.get('/sources/:agentId', async (req, res) => {
+router.get('/sources/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { limit = 20, days = 30 } = req.query;
@@ -270,7 +273,7 @@ router.get('/sources/:agentId', async (req, res) => {
  * GET /analytics/unanswered/:agentId
  * Get unanswered queries
  */
-router.get('/unanswered/:agentId', async (req, res) => {
+router.get('/unanswered/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { limit = 50, days = 30, minConfidence = 0 } = req.query;
@@ -319,7 +322,7 @@ router.get('/unanswered/:agentId', async (req, res) => {
  * GET /analytics/similarity-heatmap/:agentId
  * Get similarity heatmap data
  */
-router.get('/similarity-heatmap/:agentId', async (req, res) => {
+router.get('/similarity-heatmap/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { limit = 100, days = 7, minSimilarity = 0.5 } = req.query;
@@ -368,7 +371,7 @@ router.get('/similarity-heatmap/:agentId', async (req, res) => {
  * GET /analytics/business-insights/:agentId
  * Get business insights and trends
  */
-router.get('/business-insights/:agentId', async (req, res) => {
+router.get('/business-insights/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { days = 30 } = req.query;
@@ -406,7 +409,7 @@ router.get('/business-insights/:agentId', async (req, res) => {
  * POST /analytics/generate-insights/:agentId
  * Manually generate daily insights for an agent
  */
-router.post('/generate-insights/:agentId', async (req, res) => {
+router.post('/generate-insights/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { date } = req.body;
@@ -446,7 +449,7 @@ router.post('/generate-insights/:agentId', async (req, res) => {
  * GET /analytics/export/:agentId
  * Export analytics data for an agent
  */
-router.get('/export/:agentId', async (req, res) => {
+router.get('/export/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
     const { format = 'json', days = 30 } = req.query;
@@ -490,7 +493,7 @@ router.get('/export/:agentId', async (req, res) => {
  * GET /analytics/memory-agents
  * Check what agents exist in the Memory collection
  */
-router.get('/memory-agents', async (req, res) => {
+router.get('/memory-agents', requireScope('admin'), async (req, res) => {
   try {
     // Get all unique agent IDs from the Memory collection
     const agents = await Memory.aggregate([
@@ -504,7 +507,7 @@ router.get('/memory-agents', async (req, res) => {
       {
         $sort: { lastUpdated: -1 }
       }
-    ]);
+    ]).then(groups => groups.filter(group => hasAgentAccess(req, group._id)));
 
     console.log('📊 Found agents in Memory collection:', agents);
 
@@ -529,34 +532,74 @@ router.get('/memory-agents', async (req, res) => {
   }
 });
 
-/**
- * DELETE /analytics/memory-clear
- * Delete all data from the Memory collection
- */
-router.delete('/memory-clear', async (req, res) => {
-  try {
-    console.log('🗑️ Clearing all data from Memory collection...');
-    
-    // Get count before deletion
-    const countBefore = await Memory.countDocuments();
-    console.log(`📊 Found ${countBefore} documents in Memory collection`);
-    
-    // Delete all documents
-    const result = await Memory.deleteMany({});
-    
-    console.log(`🗑️ Deleted ${result.deletedCount} documents from Memory collection`);
-    
-    res.json({
+// Dry run, confirmation and soft delete shared by the memory-clear endpoints
+const purgeMemory = async (req: Request, res: Response, target: MemoryPurgeScope, confirmValue: string) => {
+  const label = target.scope === 'agent' ? `agent ${target.agentId}` : 'all agents';
+
+  if (req.query.dryRun === 'true') {
+    const summary = await MemoryPurgeService.summarize(target);
+    return res.json({
       success: true,
-      message: `Successfully cleared Memory collection`,
-      data: {
-        deletedCount: result.deletedCount,
-        countBefore,
-        countAfter: 0
-      },
+      dryRun: true,
+      message: `${summary.totalChunks} chunks would be deleted for ${label}`,
+      data: summary,
       timestamp: new Date().toISOString()
     });
+  }
+
+  if (req.query.confirm !== confirmValue) {
+    return res.status(400).json({
+      error: `Pass confirm=${confirmValue} to delete the knowledge of ${label}, or dryRun=true to preview what would be deleted`,
+      field: 'confirm'
+    });
+  }
+
+  // Large purges take a while; the chunks are moved in the background
+  const purge = await MemoryPurgeService.startSoftDelete(target, req.auth!.keyId);
+  res.status(202).json({
+    success: true,
+    message: `Deleting ${purge.summary.totalChunks} chunks for ${label}. Poll /api/analytics/memory-purges/${purge.purgeId} for progress.`,
+    data: {
+      purgeId: purge.purgeId,
+      ...(target.scope === 'agent' && { agentId: target.agentId }),
+      status: purge.status,
+      countBefore: purge.summary.totalChunks,
+      byAgent: purge.summary.byAgent
+    },
+    timestamp: new Date().toISOString()
+  });
+};
+
+// Shape returned by the purge audit endpoints
+const toPurgeResponse = (purge: IMemoryPurge) => ({
+  purgeId: purge.purgeId,
+  scope: purge.scope,
+  agentId: purge.agentId ?? null,
+  status: purge.status,
+  deletedCount: purge.deletedCount,
+  summary: purge.summary,
+  requestedBy: purge.requestedBy,
+  createdAt: purge.createdAt,
+  restoreUntil: purge.restoreUntil ?? null,
+  restoredAt: purge.restoredAt ?? null,
+  restoredBy: purge.restoredBy ?? null,
+  restoredCount: purge.restoredCount ?? null,
+  purgedAt: purge.purgedAt ?? null,
+  error: purge.error
+});
+
+/**
+ * DELETE /analytics/memory-clear?dryRun=true | ?confirm=all
+ * Soft-delete the knowledge of every agent. dryRun returns counts by agent and source without deleting.
+ */
+router.delete('/memory-clear', requireScope('admin'), async (req, res) => {
+  try {
+    // Wiping every agent needs a key that isn't limited to particular agents
+    if (req.auth?.agentIds.length) {
+      return res.status(403).json({ error: 'Clearing all agents requires an API key without an agentIds restriction' });
+    }
 
+    await purgeMemory(req, res, { scope: 'all' }, 'all');
   } catch (error) {
     console.error('❌ Error clearing Memory collection:', error);
     res.status(500).json({ 
@@ -566,40 +609,98 @@ router.delete('/memory-clear', async (req, res) => {
 });
 
 /**
- * DELETE /analytics/memory-agent/:agentId
- * Delete all data for a specific agent from the Memory collection
+ * DELETE /analytics/memory-agent/:agentId?dryRun=true | ?confirm=<agentId>
+ * Soft-delete the knowledge of one agent. dryRun returns counts by source without deleting.
  */
-router.delete('/memory-agent/:agentId', async (req, res) => {
+router.delete('/memory-agent/:agentId', requireScope('admin'), requireAgentAccess(), async (req, res) => {
   try {
     const { agentId } = req.params;
-    
-    console.log(`🗑️ Clearing data for agent ${agentId} from Memory collection...`);
-    
-    // Get count before deletion
-    const countBefore = await Memory.countDocuments({ agentId });
-    console.log(`📊 Found ${countBefore} documents for agent ${agentId}`);
-    
-    // Delete documents for this agent
-    const result = await Memory.deleteMany({ agentId });
-    
-    console.log(`🗑️ Deleted ${result.deletedCount} documents for agent ${agentId}`);
-    
+    await purgeMemory(req, res, { scope: 'agent', agentId }, agentId);
+  } catch (error) {
+    console.error('❌ Error clearing agent data from Memory collection:', error);
+    res.status(500).json({ 
+      error: 'Failed to clear agent data from Memory collection' 
+    });
+  }
+});
+
+/**
+ * GET /analytics/memory-purges
+ * Audit log of memory purges, newest first
+ */
+router.get('/memory-purges', requireScope('admin'), async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const purges = await MemoryPurgeService.listPurges(limit, req.auth?.agentIds);
     res.json({
       success: true,
-      message: `Successfully cleared data for agent ${agentId}`,
-      data: {
-        agentId,
-        deletedCount: result.deletedCount,
-        countBefore,
-        countAfter: 0
-      },
+      data: { purges: purges.map(toPurgeResponse) },
       timestamp: new Date().toISOString()
     });
+  } catch (error) {
+    console.error('❌ Error listing memory purges:', error);
+    res.status(500).json({
+      error: 'Failed to list memory purges'
+    });
+  }
+});
 
+/**
+ * GET /analytics/memory-purges/:purgeId
+ * One purge: 'deleting' while its chunks are moved, then 'soft_deleted' with deletedCount and restoreUntil
+ */
+router.get('/memory-purges/:purgeId', requireScope('admin'), async (req, res) => {
+  try {
+    const purge = await MemoryPurgeService.getPurge(req.params.purgeId);
+    if (!purge) {
+      return res.status(404).json({ error: 'Purge not found' });
+    }
+    const allowed = purge.scope === 'agent' ? hasAgentAccess(req, purge.agentId!) : !req.auth?.agentIds.length;
+    if (!allowed) {
+      return res.status(403).json({ error: 'API key cannot access this purge' });
+    }
+    res.json({
+      success: true,
+      data: toPurgeResponse(purge),
+      timestamp: new Date().toISOString()
+    });
   } catch (error) {
-    console.error('❌ Error clearing agent data from Memory collection:', error);
-    res.status(500).json({ 
-      error: 'Failed to clear agent data from Memory collection' 
+    console.error('❌ Error getting memory purge:', error);
+    res.status(500).json({
+      error: 'Failed to get memory purge'
+    });
+  }
+});
+
+/**
+ * POST /analytics/memory-purges/:purgeId/restore
+ * Put the chunks of a purge back while its restore period lasts
+ */
+router.post('/memory-purges/:purgeId/restore', requireScope('admin'), async (req, res) => {
+  try {
+    const purge = await MemoryPurgeService.getPurge(req.params.purgeId);
+    if (!purge) {
+      return res.status(404).json({ error: 'Purge not found' });
+    }
+    const allowed = purge.scope === 'agent' ? hasAgentAccess(req, purge.agentId!) : !req.auth?.agentIds.length;
+    if (!allowed) {
+      return res.status(403).json({ error: 'API key cannot restore this purge' });
+    }
+
+    const restored = await MemoryPurgeService.restore(purge.purgeId, req.auth!.keyId);
+    res.json({
+      success: true,
+      message: `Restored ${restored!.restoredCount} chunks`,
+      data: toPurgeResponse(restored!),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    if (error instanceof MemoryPurgeStateError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('❌ Error restoring memory purge:', error);
+    res.status(500).json({
+      error: 'Failed to restore memory purge'
     });
   }
 });
@@ -0,0 +1,336 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { requireScope } from '../middleware/authorize.js';
+import { API_KEY_SCOPES, ApiKeyScope, IApiKey } from '../models/ApiKey.js';
+import { ApiKeyInput, ApiKeyService } from '../services/apiKey.js';
+import { sanitizeAgentId, sanitizeText } from '../utils/security.js';
+
+const router = express.Router();
+
+// Keys can grant access to any agent, so only unrestricted admin keys may manage them
+router.use(requireScope('admin'), (req: Request, res: Response, next: NextFunction) => {
+  if (req.auth?.agentIds.length) {
+    return res.status(403).json({ error: 'Managing API keys requires an admin key without an agentIds restriction' });
+  }
+  next();
+});
+
+// Validate the body of a key creation request
+const validateApiKeyPayload = (req: Request, res: Response, next: NextFunction) => {
+  const { name, scopes, agentIds, expiresAt } = req.body;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'name is required and must be a string', field: 'name' });
+  }
+  const nameValidation = sanitizeText(name, 200);
+  if (!nameValidation.isValid) {
+    return res.status(400).json({ error: `name: ${nameValidation.error}`, field: 'name' });
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(scope => (API_KEY_SCOPES as readonly string[]).includes(scope))) {
+    return res.status(400).json({
+      error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}`,
+      field: 'scopes'
+    });
+  }
+
+  const input: ApiKeyInput = { name: nameValidation.sanitized!, scopes: scopes as ApiKeyScope[] };
+
+  if (agentIds !== undefined && agentIds !== null) {
+    if (!Array.isArray(agentIds)) {
+      return res.status(400).json({ error: 'agentIds must be an array of agent IDs', field: 'agentIds' });
+    }
+    input.agentIds = [];
+    for (const agentId of agentIds) {
+      const agentIdValidation = sanitizeAgentId(agentId);
+      if (!agentIdValidation.isValid) {
+        return res.status(400).json({ error: `agentIds: ${agentIdValidation.error}`, field: 'agentIds' });
+      }
+      input.agentIds.push(agentIdValidation.sanitized!);
+    }
+  }
+
+  if (expiresAt !== undefined && expiresAt !== null) {
+    const expiry = new Date(expiresAt);
+    if (typeof expiresAt !== 'string' || isNaN(expiry.getTime()) || expiry.getTime() <= Date.now()) {
+      return res.status(400).json({ error: 'expiresAt must be a future ISO 8601 date', field: 'expiresAt' });
+    }
+    input.expiresAt = expiry;
+  }
+
+  res.locals.apiKeyInput = input;
+  next();
+};
+
+// Shape returned by every key endpoint; the hash is never exposed
+const toApiKeyResponse = (apiKey: IApiKey) => ({
+  keyId: apiKey.keyId,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  agentIds: apiKey.agentIds,
+  expiresAt: apiKey.expiresAt ?? null,
+  lastUsedAt: apiKey.lastUsedAt ?? null,
+  revokedAt: apiKey.revokedAt ?? null,
+  createdBy: apiKey.createdBy ?? null,
+  createdAt: apiKey.createdAt
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         keyId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: "Website chat widget"
+ *         prefix:
+ *           type: string
+ *           description: First characters of the key, to recognise it
+ *           example: "ak_3fZ9qL"
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [train, ask, analytics:read, admin]
+ *         agentIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Agents the key may use; empty means all agents
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastUsedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         revokedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         createdBy:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/keys:
+ *   post:
+ *     summary: Issue an API key
+ *     description: Requires an admin key without an agentIds restriction. The key is only returned in this response; store it securely.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scopes
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 maxLength: 200
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [train, ask, analytics:read, admin]
+ *               agentIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Key issued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 key:
+ *                   type: string
+ *                   description: The secret key. It cannot be retrieved again.
+ *                 apiKey:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: Invalid key fields
+ *       403:
+ *         description: Not an unrestricted admin key
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', validateApiKeyPayload, async (req: Request, res: Response) => {
+  try {
+    const { apiKey, key } = await ApiKeyService.createKey(res.locals.apiKeyInput, req.auth?.keyId);
+    console.log(`🔑 Issued API key ${apiKey.keyId} (${apiKey.scopes.join(', ')}) by ${req.auth?.keyId}`);
+    res.status(201).json({
+      success: true,
+      key,
+      apiKey: toApiKeyResponse(apiKey)
+    });
+  } catch (error) {
+    console.error('Create API key error:', error);
+    res.status(500).json({
+      error: 'Failed to create API key',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/keys:
+ *   get:
+ *     summary: List API keys
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeRevoked
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     responses:
+ *       200:
+ *         description: API keys, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 keys:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         description: Not an unrestricted admin key
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const keys = await ApiKeyService.listKeys(req.query.includeRevoked === 'true');
+    res.json({
+      success: true,
+      keys: keys.map(toApiKeyResponse)
+    });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    res.status(500).json({
+      error: 'Failed to list API keys',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/keys/{keyId}:
+ *   get:
+ *     summary: Get an API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key details
+ *       403:
+ *         description: Not an unrestricted admin key
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:keyId', async (req: Request, res: Response) => {
+  try {
+    const apiKey = await ApiKeyService.getKey(req.params.keyId);
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+    res.json({
+      success: true,
+      apiKey: toApiKeyResponse(apiKey)
+    });
+  } catch (error) {
+    console.error('Get API key error:', error);
+    res.status(500).json({
+      error: 'Failed to get API key',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/keys/{keyId}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: Revoked keys are rejected immediately. The record is kept for auditing.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: API key revoked
+ *       403:
+ *         description: Not an unrestricted admin key
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:keyId', async (req: Request, res: Response) => {
+  try {
+    const apiKey = await ApiKeyService.revokeKey(req.params.keyId);
+    if (!apiKey) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+    console.log(`🔒 Revoked API key ${apiKey.keyId} by ${req.auth?.keyId}`);
+    res.json({
+      success: true,
+      message: 'API key revoked',
+      apiKey: toApiKeyResponse(apiKey)
+    });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({
+      error: 'Failed to revoke API key',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
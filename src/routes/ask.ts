@@ -1,53 +1,55 @@
 import express, { NextFunction, Request, Response } from 'express';
-import mongoose from 'mongoose';
-import Memory, { IMemory } from '../models/Memory.js';
+import { DEFAULT_RETRIEVAL_SETTINGS, RETRIEVAL_SETTING_LIMITS, RetrievalSettings, resolveRetrievalSettings, validateRetrievalSettings } from '../config/retrieval.js';
+import { requireAgentAccess, requireScope } from '../middleware/authorize.js';
+import { IAgent } from '../models/Agent.js';
+import { IConversationTurn } from '../models/Conversation.js';
+import Memory, { IMemory, matchFields, matchVectorModel, RETRIEVABLE } from '../models/Memory.js';
+import { AgentService } from '../services/agent.js';
 import { analyticsService } from '../services/analytics.js';
-import { embedText, generateReply } from '../services/gemini.js';
+import { ConversationService } from '../services/conversation.js';
+import { getEmbeddingModelId, getEmbeddingProvider, getLLMProvider } from '../services/llm.js';
 import { WatchdogService } from '../services/watchdog.js';
-import { sanitizeAgentId, sanitizeQuestion } from '../utils/security.js';
+import { sanitizeAgentId, sanitizeConversationId, sanitizeFieldFilters, sanitizeQuestion } from '../utils/security.js';
 
 const router = express.Router();
 
-// Configuration for retrieval and filtering
-const RETRIEVAL_CONFIG = {
-  VECTOR_K: 20, // Increased from 8 to get more vector search results
-  KEYWORD_K: 8, // Increased from 3 to get more keyword search results
-  MIN_SIMILARITY_SCORE: 0.3, // Lowered from 0.75 to be more lenient
-  MAX_CONTEXT_LENGTH: 50000, // Increased from 4000 to take advantage of Gemini's 1M token capacity
-  CONFIDENCE_THRESHOLD: 0.2, // Lowered from 0.4 to be more lenient
-  MAX_CHUNKS: 10 // Increased from 5 to allow more chunks with larger context
-};
+// Default reply when no relevant knowledge is found and the agent has no fallbackMessage
+const DEFAULT_FALLBACK_MESSAGE = "I don't have information about that in my training data.";
 
-// Agent metadata interface
-interface AgentMetadata {
-  name?: string;
-  tone?: string;
-  role?: string;
-  do_not_answer_from_general_knowledge?: boolean;
-}
+// Agent metadata echoed back in responses
+const describeAgent = (agent: IAgent) => ({
+  name: agent.name,
+  role: agent.role,
+  tone: agent.tone,
+  do_not_answer_from_general_knowledge: agent.do_not_answer_from_general_knowledge,
+  language: agent.language
+});
 
-// Helper function to get agent metadata from the agents database
-const getAgentMetadata = async (agentId: string): Promise<AgentMetadata | null> => {
-  try {
-    // Connect to the agents database (same MongoDB cluster, different database)
-    const agentsDb = mongoose.connection.useDb('test');
-    const Agent = agentsDb.model('Agent', new mongoose.Schema({
-      agentId: String,
-      name: String,
-      tone: String,
-      role: String,
-      do_not_answer_from_general_knowledge: Boolean
-    }));
-
-    // Try to find agent by agentId field
-    const agent = await Agent.findOne({ agentId: agentId }).lean();
-    return agent as AgentMetadata | null;
-  } catch (error) {
-    // This is expected for test agents that don't have metadata
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    console.warn(`⚠️ No agent metadata found for ${agentId}:`, errorMessage);
-    return null;
-  }
+// Retrieval settings echoed back in meta.retrieval_config
+const describeRetrievalConfig = (config: RetrievalSettings) => ({
+  vector_k: config.vectorK,
+  keyword_k: config.keywordK,
+  similarity_threshold: config.minSimilarityScore,
+  confidence_threshold: config.confidenceThreshold,
+  max_chunks: config.maxChunks,
+  max_context_length: config.maxContextLength
+});
+
+// Heading path of a chunk ("Pricing > Enterprise"); only chunks chunked along headings have one
+const sectionOf = (chunk: any): string | undefined =>
+  chunk?.chunkMetadata?.sectionPath?.length ? chunk.chunkMetadata.section : undefined;
+
+// Page of a chunk from a paged document (PDF)
+const pageOf = (chunk: any): number | undefined =>
+  typeof chunk?.chunkMetadata?.pageNumber === 'number' ? chunk.chunkMetadata.pageNumber : undefined;
+
+// Label put above a chunk in the context so answers can cite it: "handbook.pdf p. 12", "prices.csv row 3" or a heading path
+const citationOf = (chunk: any): string | undefined => {
+  const page = pageOf(chunk);
+  const row = typeof chunk?.chunkMetadata?.rowNumber === 'number' ? chunk.chunkMetadata.rowNumber : undefined;
+  const position = page !== undefined ? `p. ${page}` : row !== undefined ? `row ${row}` : undefined;
+  const positionLabel = position ? [chunk.chunkMetadata.fileName, position].filter(Boolean).join(' ') : undefined;
+  return [positionLabel, sectionOf(chunk)].filter(Boolean).join(', ') || undefined;
 };
 
 // Helper function to extract keywords from question
@@ -82,14 +84,20 @@ const calculateCosineSimilarity = (vec1: number[], vec2: number[]): number => {
   return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
 };
 
+// Confidence added to chunks pinned through the chunk endpoints
+const PINNED_CONFIDENCE_BOOST = 0.15;
+
 // Helper function to filter and rank results
-const filterAndRankResults = (results: any[], question: string, questionVector: number[]): any[] => {
+const filterAndRankResults = (results: any[], question: string, questionVector: number[], embeddingModel: string, config: RetrievalSettings): any[] => {
   return results
     .map(result => {
+      // While a re-embedding job switches the agent over, a chunk's vector for the question's model may be the kept one
+      const embedding = result.reembedding?.embeddingModel === embeddingModel ? result.reembedding.embedding : result.embedding;
+
       // Calculate similarity score if embedding exists
       let similarity = 0;
-      if (result.embedding && Array.isArray(result.embedding)) {
-        similarity = calculateCosineSimilarity(questionVector, result.embedding);
+      if (embedding && Array.isArray(embedding)) {
+        similarity = calculateCosineSimilarity(questionVector, embedding);
       }
       
       // Calculate confidence based on similarity and other factors
@@ -102,6 +110,11 @@ const filterAndRankResults = (results: any[], question: string, questionVector:
       if (keywordMatches > 0) {
         confidence += (keywordMatches / keywords.length) * 0.2;
       }
+
+      // Pinned chunks win over unpinned ones of similar relevance
+      if (result.pinned) {
+        confidence += PINNED_CONFIDENCE_BOOST;
+      }
       
       return {
         ...result,
@@ -110,11 +123,11 @@ const filterAndRankResults = (results: any[], question: string, questionVector:
       };
     })
     .filter(result => 
-      result.confidence >= RETRIEVAL_CONFIG.CONFIDENCE_THRESHOLD &&
-      result.similarity >= RETRIEVAL_CONFIG.MIN_SIMILARITY_SCORE
+      result.confidence >= config.confidenceThreshold &&
+      result.similarity >= config.minSimilarityScore
     )
     .sort((a, b) => b.confidence - a.confidence)
-    .slice(0, RETRIEVAL_CONFIG.MAX_CHUNKS);
+    .slice(0, config.maxChunks);
 };
 
 // Input validation middleware with security
@@ -144,6 +157,45 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
     });
   }
 
+  // Validate optional conversationId for multi-turn conversations
+  if (req.body.conversationId !== undefined) {
+    const conversationIdValidation = sanitizeConversationId(req.body.conversationId);
+    if (!conversationIdValidation.isValid) {
+      console.log(`❌ Conversation ID validation failed: ${conversationIdValidation.error}`);
+      return res.status(400).json({
+        error: conversationIdValidation.error,
+        field: 'conversationId'
+      });
+    }
+    req.body.conversationId = conversationIdValidation.sanitized;
+  }
+
+  // Validate optional per-request retrieval overrides
+  if (req.body.retrieval !== undefined) {
+    const retrievalValidation = validateRetrievalSettings(req.body.retrieval);
+    if (!retrievalValidation.isValid) {
+      console.log(`❌ Retrieval override validation failed: ${retrievalValidation.error}`);
+      return res.status(400).json({
+        error: retrievalValidation.error,
+        field: 'retrieval'
+      });
+    }
+    req.body.retrieval = retrievalValidation.sanitized;
+  }
+
+  // Validate optional filters on table row metadata
+  if (req.body.filters !== undefined) {
+    const filtersValidation = sanitizeFieldFilters(req.body.filters);
+    if (!filtersValidation.isValid) {
+      console.log(`❌ Filters validation failed: ${filtersValidation.error}`);
+      return res.status(400).json({
+        error: filtersValidation.error,
+        field: 'filters'
+      });
+    }
+    req.body.filters = filtersValidation.sanitized;
+  }
+
   // Replace with sanitized values
   req.body.agentId = agentIdValidation.sanitized;
   req.body.question = questionValidation.sanitized;
@@ -155,12 +207,33 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
   next();
 };
 
+// Clients opt into streaming with the /stream route or an Accept: text/event-stream header
+const wantsEventStream = (req: Request): boolean => {
+  return (req.get('Accept') || '').includes('text/event-stream');
+};
+
+// Switch the response into Server-Sent Events mode
+const startEventStream = (res: Response): void => {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx, Render)
+  res.flushHeaders();
+};
+
+// Write a single SSE event; flush() pushes it through the compression middleware
+const sendEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  (res as Response & { flush?: () => void }).flush?.();
+};
+
 /**
  * @swagger
  * /api/ask:
  *   post:
  *     summary: Ask a question to an AI agent
- *     description: Send a question to a specific AI agent and get an intelligent response based on the agent's trained knowledge
+ *     description: Send a question to a specific AI agent and get an intelligent response based on the agent's trained knowledge. Send `Accept: text/event-stream` to receive the answer as Server-Sent Events (see /api/ask/stream).
  *     tags: [AI Agent]
  *     security:
  *       - bearerAuth: []
@@ -184,6 +257,19 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
  *                 description: The question to ask the agent
  *                 example: "What are the benefits of our premium plan?"
  *                 maxLength: 1000
+ *               conversationId:
+ *                 type: string
+ *                 description: Optional conversation ID for multi-turn chats (see POST /api/conversations). Previous turns are used to rewrite follow-up questions and are included in the prompt. Unknown IDs start a new conversation.
+ *                 example: "0b6f1c1e-4f7a-4c38-9d8e-1d2f4a6b7c8d"
+ *                 maxLength: 100
+ *               retrieval:
+ *                 type: object
+ *                 description: Retrieval settings for this request only, overriding the agent's stored settings (see the Agent schema for names and ranges)
+ *                 example: { "maxChunks": 5, "minSimilarityScore": 0.5 }
+ *               filters:
+ *                 type: object
+ *                 description: Only answer from CSV or spreadsheet rows whose metadata columns (metadataColumns at training) have one of the given values. Column names are the headers, matched case-insensitively; values are compared as text.
+ *                 example: { "Region": "EU", "Category": ["Shoes", "Boots"] }
  *     responses:
  *       200:
  *         description: Successful response from the AI agent
@@ -222,6 +308,9 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
  *                     model:
  *                       type: string
  *                       description: AI model used for generation
+ *                     embedding_model:
+ *                       type: string
+ *                       description: Embedding model ("provider:model") used for retrieval; only chunks embedded with it are searched
  *                     retrieval_strategy:
  *                       type: string
  *                       description: Strategy used for retrieving context
@@ -244,13 +333,37 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
  *                       type: number
  *                       format: float
  *                       description: Average similarity score of used chunks
+ *                     retrieval_config:
+ *                       type: object
+ *                       description: Retrieval settings actually used (request overrides, then agent settings, then defaults)
+ *                       properties:
+ *                         vector_k:
+ *                           type: integer
+ *                         keyword_k:
+ *                           type: integer
+ *                         similarity_threshold:
+ *                           type: number
+ *                         confidence_threshold:
+ *                           type: number
+ *                         max_chunks:
+ *                           type: integer
+ *                         max_context_length:
+ *                           type: integer
  *                 question_id:
  *                   type: string
  *                   description: Unique identifier for the question
+ *                 conversation_id:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Conversation the exchange was stored in
+ *                 standalone_question:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Follow-up question rewritten as a standalone question (null if unchanged)
  *                 agent_metadata:
  *                   type: object
  *                   nullable: true
- *                   description: Agent metadata from the agents database
+ *                   description: Agent metadata from the agent registry
  *                   properties:
  *                     name:
  *                       type: string
@@ -268,6 +381,10 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
  *                       type: boolean
  *                       description: Whether to use only trained knowledge
  *                       example: true
+ *                     language:
+ *                       type: string
+ *                       description: Language code replies are written in
+ *                       example: "en"
  *                 feedback_prompt:
  *                   type: string
  *                   description: Prompt for user feedback
@@ -289,6 +406,8 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
  *                   description: Field that caused the error
  *       401:
  *         description: Unauthorized - Invalid API token
+ *       409:
+ *         description: Conversation belongs to a different agent
  *       404:
  *         description: Agent not found
  *         content:
@@ -326,57 +445,83 @@ const validateAskRequest = (req: Request, res: Response, next: NextFunction) =>
  *                 method:
  *                   type: string
  */
-router.post('/', validateAskRequest, async (req: Request, res: Response) => {
+router.post('/', requireScope('ask'), requireAgentAccess(), validateAskRequest, (req: Request, res: Response) => answerQuestion(req, res, wantsEventStream(req)));
+
+/**
+ * @swagger
+ * /api/ask/stream:
+ *   post:
+ *     summary: Ask a question and stream the answer
+ *     description: |
+ *       Same request body as POST /api/ask, but the answer is returned as Server-Sent Events.
+ *       Sending POST /api/ask with `Accept: text/event-stream` behaves the same way.
+ *       Events, in order:
+ *       - `retrieval`: retrieval metadata (chunks used, sources, retrieval config, agent metadata)
+ *       - `token`: a piece of the reply as it is generated (`{ "text": "..." }`), repeated
+ *       - `done`: the final payload with the same shape as the POST /api/ask JSON response
+ *       - `error`: sent instead of `done` if processing fails after the stream has started
+ *       Errors that happen before retrieval completes (validation, unknown agent, no relevant context)
+ *       are returned as regular JSON responses with the same status codes as POST /api/ask.
+ *     tags: [AI Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - agentId
+ *               - question
+ *             properties:
+ *               agentId:
+ *                 type: string
+ *                 example: "sales-agent-001"
+ *               question:
+ *                 type: string
+ *                 example: "What are the benefits of our premium plan?"
+ *               conversationId:
+ *                 type: string
+ *                 example: "0b6f1c1e-4f7a-4c38-9d8e-1d2f4a6b7c8d"
+ *               retrieval:
+ *                 type: object
+ *                 example: { "maxChunks": 5 }
+ *               filters:
+ *                 type: object
+ *                 example: { "Region": "EU" }
+ *     responses:
+ *       200:
+ *         description: Event stream with the answer
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Invalid request parameters
+ *       404:
+ *         description: Agent not found or no relevant information
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/stream', requireScope('ask'), requireAgentAccess(), validateAskRequest, (req: Request, res: Response) => answerQuestion(req, res, true));
+
+// Shared handler for JSON and streaming answers
+async function answerQuestion(req: Request, res: Response, streaming: boolean): Promise<void> {
   const startTime = Date.now();
   
   try {
-    const { agentId, question } = req.body;
+    const { agentId, question, conversationId, retrieval: retrievalOverrides, filters } = req.body;
+    // Only chunks whose row metadata matches every filter are searched
+    const fieldFilter = filters ? matchFields(filters) : {};
     
     console.log(`🔍 Processing question for agent ${agentId}: "${question}"`);
 
-    // Get agent metadata for context-aware responses
-    let agentMetadata: AgentMetadata | null = null;
-    try {
-      agentMetadata = await getAgentMetadata(agentId);
-      if (agentMetadata) {
-        console.log(`👤 Agent metadata loaded: ${agentMetadata.name} (${agentMetadata.role}) - Tone: ${agentMetadata.tone}`);
-      } else {
-        console.log(`⚠️ No agent metadata found for ${agentId}`);
-      }
-    } catch (metadataError) {
-      console.warn('⚠️ Failed to load agent metadata:', metadataError);
-    }
-
-    // Generate embedding for the question
-    let questionVector: number[];
-    try {
-      questionVector = await embedText(question);
-      console.log(`📊 Generated embedding (${questionVector.length} dimensions)`);
-      console.log(`📊 Question embedding sample: [${questionVector.slice(0, 5).map(v => v.toFixed(4)).join(', ')}...]`);
-    } catch (embedError) {
-      console.error('❌ Embedding failed, using fallback:', embedError);
-      questionVector = new Array(768).fill(0);
-    }
-
-    // Check if agent exists in the database
-    console.log(`🔍 Checking if agent ${agentId} exists in Memory collection...`);
-    const agentExists = await Memory.exists({ agentId });
-    console.log(`🔍 Agent exists in Memory collection: ${agentExists}`);
+    // Look up the agent in the registry
+    const agent = await AgentService.getAgent(agentId);
     
-    if (!agentExists) {
-      console.log(`❌ Agent ${agentId} not found in Memory collection`);
-      console.log(`📊 Checking what agents exist in Memory collection...`);
-      
-      // Get all agents in Memory collection for debugging
-      const allAgents = await Memory.aggregate([
-        {
-          $group: {
-            _id: '$agentId',
-            count: { $sum: 1 }
-          }
-        }
-      ]);
-      console.log(`📊 Agents in Memory collection:`, allAgents);
+    if (!agent) {
+      console.log(`❌ Agent ${agentId} is not registered`);
       
       const processingTime = Date.now() - startTime;
       
@@ -392,16 +537,16 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
         req.session?.id
       );
 
-      return res.status(404).json({ 
+      res.status(404).json({ 
         agent_id: agentId,
         query: question,
-        reply: `Agent '${agentId}' does not exist. Please check the agent ID or train this agent first.`,
+        reply: `Agent '${agentId}' does not exist. Please check the agent ID or register it with POST /api/agents first.`,
         confidence: 0,
         fallback_used: true,
         meta: {
           tokens_used: Math.ceil(question.length / 4) + 50,
           retrieval_time_ms: processingTime,
-          model: "gemini-1.5",
+          model: getLLMProvider().model,
           retrieval_strategy: "none",
           chunks_used: 0,
           chunks_searched: 0,
@@ -410,18 +555,52 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
           sources_count: 0,
           average_similarity: 0,
           error: 'Agent not found',
-          retrieval_config: {
-            vector_k: RETRIEVAL_CONFIG.VECTOR_K,
-            keyword_k: RETRIEVAL_CONFIG.KEYWORD_K,
-            similarity_threshold: RETRIEVAL_CONFIG.MIN_SIMILARITY_SCORE,
-            confidence_threshold: RETRIEVAL_CONFIG.CONFIDENCE_THRESHOLD,
-            max_chunks: RETRIEVAL_CONFIG.MAX_CHUNKS
-          },
+          retrieval_config: describeRetrievalConfig(resolveRetrievalSettings(null, retrievalOverrides)),
           sources: []
         }
       });
+      return;
+    }
+    console.log(`👤 Agent loaded: ${agent.name || agentId} (${agent.role || 'no role'}) - Tone: ${agent.tone || 'default'}`);
+
+    // Request overrides win over the agent's stored settings, which win over the defaults
+    const retrievalConfig = resolveRetrievalSettings(agent.retrieval, retrievalOverrides);
+    console.log(`⚙️ Retrieval config: ${JSON.stringify(retrievalConfig)}`);
+
+    // Agents can pick their own providers; otherwise the deployment defaults apply
+    const llm = getLLMProvider(agent.llmProvider);
+    const embedder = getEmbeddingProvider(agent.embeddingProvider);
+    // Only chunks embedded with the same model as the question are comparable
+    const embeddingModel = getEmbeddingModelId(embedder);
+
+    // Load conversation history and turn follow-ups into standalone questions for retrieval
+    let history: IConversationTurn[] = [];
+    if (conversationId) {
+      const conversation = await ConversationService.getConversation(conversationId);
+      if (conversation && conversation.agentId !== agentId) {
+        res.status(409).json({
+          error: `Conversation '${conversationId}' belongs to a different agent`,
+          field: 'conversationId'
+        });
+        return;
+      }
+      history = ConversationService.getRecentTurns(conversation);
+      console.log(`💬 Conversation ${conversationId}: ${history.length} previous turns loaded`);
+    }
+    const standaloneQuestion = await ConversationService.rewriteQuestion(question, history, llm.name);
+
+    // Generate embedding for the question
+    let questionVector: number[];
+    try {
+      questionVector = await embedder.embedText(standaloneQuestion);
+      console.log(`📊 Generated embedding (${questionVector.length} dimensions)`);
+      console.log(`📊 Question embedding sample: [${questionVector.slice(0, 5).map(v => v.toFixed(4)).join(', ')}...]`);
+    } catch (embedError) {
+      console.error('❌ Embedding failed, using fallback:', embedError);
+      questionVector = new Array(embedder.dimensions).fill(0);
     }
 
+
     // Vector search with optimized k value
     let vectorResults = [];
     try {
@@ -432,15 +611,15 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
             knnBeta: {
               vector: questionVector,
               path: 'embedding',
-              k: RETRIEVAL_CONFIG.VECTOR_K
+              k: retrievalConfig.vectorK
             }
           }
         },
         {
-          $match: { agentId: agentId }
+          $match: { agentId: agentId, ...matchVectorModel(embeddingModel), ...RETRIEVABLE, ...fieldFilter }
         },
         {
-          $limit: RETRIEVAL_CONFIG.VECTOR_K
+          $limit: retrievalConfig.vectorK
         }
       ]);
       console.log(`🔍 Vector search returned ${vectorResults.length} results`);
@@ -451,13 +630,16 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
     // Keyword search with optimized k value
     let keywordResults: IMemory[] = [];
     try {
-      const keywords = extractKeywords(question);
+      const keywords = extractKeywords(standaloneQuestion);
       if (keywords.length > 0) {
         const regex = keywords.join('|');
         keywordResults = await Memory.find({
           agentId,
+          ...matchVectorModel(embeddingModel),
+          ...RETRIEVABLE,
+          ...fieldFilter,
           text: { $regex: regex, $options: 'i' }
-        }).limit(RETRIEVAL_CONFIG.KEYWORD_K);
+        }).limit(retrievalConfig.keywordK);
         console.log(`🔍 Keyword search returned ${keywordResults.length} results`);
       }
     } catch (keywordError) {
@@ -478,7 +660,7 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
       }
     }
     
-    const filteredResults = filterAndRankResults(allResults, question, questionVector);
+    const filteredResults = filterAndRankResults(allResults, standaloneQuestion, questionVector, embeddingModel, retrievalConfig);
     
     console.log(`📊 Filtered to ${filteredResults.length} high-confidence results`);
     
@@ -490,7 +672,7 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
         console.log(`  ${index + 1}. Confidence: ${result.confidence?.toFixed(3)}, Similarity: ${result.similarity?.toFixed(3)}, Text preview: "${textPreview}..."`);
       });
     } else {
-      console.log(`⚠️ No results passed confidence threshold (${RETRIEVAL_CONFIG.CONFIDENCE_THRESHOLD})`);
+      console.log(`⚠️ No results passed confidence threshold (${retrievalConfig.confidenceThreshold})`);
       console.log(`📊 All results confidence scores:`);
       allResults.forEach((result, index) => {
         const confidence = result.confidence || 0;
@@ -500,9 +682,12 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
       });
     }
 
-    // Deduplicate and build context
+    // Deduplicate and build context. Chunks are labelled with their page or heading path so answers can cite it
     const uniqueTexts = Array.from(new Set(filteredResults.map((r: any) => r.text)));
-    let context = uniqueTexts.join('\n\n');
+    let context = uniqueTexts.map(text => {
+      const citation = citationOf(filteredResults.find((r: any) => r.text === text));
+      return citation ? `[${citation}]\n${text}` : text;
+    }).join('\n\n');
 
     // Collect source information for the chunks used
     const sourcesUsed = filteredResults
@@ -512,16 +697,20 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
         sourceUrl: r.sourceUrl,
         sourceMetadata: r.sourceMetadata,
         chunkIndex: r.chunkIndex,
+        fileName: r.chunkMetadata?.fileName,
+        page: pageOf(r),
+        section: sectionOf(r),
         confidence: r.confidence,
         similarity: r.similarity
       }))
       .filter((source: any, index: number, self: any[]) => 
-        index === self.findIndex((s: any) => s.source === source.source && s.sourceUrl === source.sourceUrl)
+        index === self.findIndex((s: any) => s.source === source.source && s.sourceUrl === source.sourceUrl &&
+          s.fileName === source.fileName && s.page === source.page && s.section === source.section)
       );
 
     // Limit context size for better focus
-    if (context.length > RETRIEVAL_CONFIG.MAX_CONTEXT_LENGTH) {
-      context = context.slice(0, RETRIEVAL_CONFIG.MAX_CONTEXT_LENGTH);
+    if (context.length > retrievalConfig.maxContextLength) {
+      context = context.slice(0, retrievalConfig.maxContextLength);
       console.log(`📝 Context truncated to ${context.length} characters`);
     }
 
@@ -542,16 +731,23 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
         req.session?.id
       );
 
-      return res.status(404).json({ 
+      const noInfoReply = agent.fallbackMessage || DEFAULT_FALLBACK_MESSAGE;
+      if (conversationId) {
+        await ConversationService.appendExchange(conversationId, agentId, question, standaloneQuestion, noInfoReply, undefined, 0, req.session?.id);
+      }
+
+      res.status(404).json({ 
         agent_id: agentId,
         query: question,
-        reply: "I don't have information about that in my training data.",
+        reply: noInfoReply,
         confidence: 0,
         fallback_used: true,
+        ...(conversationId && { conversation_id: conversationId, standalone_question: standaloneQuestion }),
         meta: {
           tokens_used: Math.ceil(question.length / 4) + 50, // Rough estimate for error response
           retrieval_time_ms: processingTime,
-          model: "gemini-1.5",
+          model: llm.model,
+          embedding_model: embeddingModel,
           retrieval_strategy: "hybrid",
           chunks_used: 0,
           chunks_searched: allResults.length,
@@ -560,40 +756,33 @@ router.post('/', validateAskRequest, async (req: Request, res: Response) => {
           sources_count: 0,
           average_similarity: 0,
           error: 'No relevant information found for this agent',
-          retrieval_config: {
-            vector_k: RETRIEVAL_CONFIG.VECTOR_K,
-            keyword_k: RETRIEVAL_CONFIG.KEYWORD_K,
-            similarity_threshold: RETRIEVAL_CONFIG.MIN_SIMILARITY_SCORE,
-            confidence_threshold: RETRIEVAL_CONFIG.CONFIDENCE_THRESHOLD,
-            max_chunks: RETRIEVAL_CONFIG.MAX_CHUNKS
-          },
+          retrieval_config: describeRetrievalConfig(retrievalConfig),
           sources: []
         }
       });
+      return;
     }
 
     console.log(`📝 Sending ${uniqueTexts.length} chunks to Gemini (${context.length} chars)`);
     console.log(`📚 Sources used: ${sourcesUsed.map((s: any) => `${s.source} (sim: ${s.similarity?.toFixed(3)}, conf: ${s.confidence?.toFixed(3)})`).join(', ')}`);
     
     // Build agent context for the prompt
-    let agentContext = '';
-    if (agentMetadata) {
-      agentContext = `
+    const agentContext = `
 Agent Information:
-- Name: ${agentMetadata.name || 'Unknown'}
-- Role: ${agentMetadata.role || 'AI Assistant'}
-- Tone: ${agentMetadata.tone || 'professional'}
-- Use only trained knowledge: ${agentMetadata.do_not_answer_from_general_knowledge ? 'Yes' : 'No'}
+- Name: ${agent.name || 'Unknown'}
+- Role: ${agent.role || 'AI Assistant'}
+- Tone: ${agent.tone || 'professional'}
+- Use only trained knowledge: ${agent.do_not_answer_from_general_knowledge ? 'Yes' : 'No'}
 
 `;
-    }
     
     const prompt = `
-You are ${agentMetadata?.name || 'an expert assistant'} with the role of ${agentMetadata?.role || 'an AI assistant'}.
+You are ${agent.name || 'an expert assistant'} with the role of ${agent.role || 'an AI assistant'}.
 
-${agentContext}${agentMetadata?.do_not_answer_from_general_knowledge ? 'IMPORTANT: Use ONLY the context below to answer the question. Do NOT use any general knowledge outside of the provided context. However, be helpful and conversational in your response.' : 'Use the context below to answer the question. You may supplement with general knowledge if needed.'}
+${agentContext}${agent.systemPrompt ? `${agent.systemPrompt}\n\n` : ''}${agent.do_not_answer_from_general_knowledge ? 'IMPORTANT: Use ONLY the context below to answer the question. Do NOT use any general knowledge outside of the provided context. However, be helpful and conversational in your response.' : 'Use the context below to answer the question. You may supplement with general knowledge if needed.'}
 
-${agentMetadata?.tone ? `Respond in a ${agentMetadata.tone} tone.` : ''}
+${agent.tone ? `Respond in a ${agent.tone} tone.` : ''}
+${agent.language ? `Always respond in the language with code "${agent.language}", regardless of the language of the context.` : ''}
 
 Instructions:
 - Respond like a helpful customer service chatbot
@@ -602,22 +791,75 @@ Instructions:
 - Answer questions naturally as if you're talking to a customer
 - Use the information available in the context to provide helpful answers
 - Be confident when you have the information
-- If you don't have specific information, say so politely
+- If you don't have specific information, ${agent.fallbackMessage ? `reply with: "${agent.fallbackMessage}"` : 'say so politely'}
 - Focus on being helpful and solving the customer's question quickly
 
 Context:
 ${context}
-
+${history.length > 0 ? `
+Conversation so far:
+${ConversationService.formatHistory(history)}
+` : ''}
 Question: ${question}
-
+${standaloneQuestion !== question ? `(Interpreted as: ${standaloneQuestion})\n` : ''}
 Answer:`;
 
-    let reply: string;
-    try {
-      reply = await generateReply(prompt);
-    } catch (genError) {
-      console.error('❌ Generation failed, using fallback response:', genError);
-      reply = "I apologize, but I'm currently experiencing technical difficulties. Please try again later or contact support if the issue persists.";
+    let reply = '';
+    if (streaming) {
+      startEventStream(res);
+
+      // Stop forwarding tokens once the client goes away; tracking below still runs
+      let clientDisconnected = false;
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          clientDisconnected = true;
+          console.log(`⚠️ Client disconnected from stream for agent ${agentId}`);
+        }
+      });
+
+      sendEvent(res, 'retrieval', {
+        agent_id: agentId,
+        query: question,
+        conversation_id: conversationId || null,
+        standalone_question: standaloneQuestion !== question ? standaloneQuestion : null,
+        agent_metadata: describeAgent(agent),
+        chunks_used: uniqueTexts.length,
+        chunks_searched: allResults.length,
+        chunks_filtered: allResults.length - filteredResults.length,
+        context_length: context.length,
+        retrieval_config: describeRetrievalConfig(retrievalConfig),
+        sources: sourcesUsed.map((s: any) => ({
+          source: s.source,
+          source_url: s.sourceUrl,
+          chunk_index: s.chunkIndex,
+          ...(s.fileName && { file_name: s.fileName }),
+          ...(s.page !== undefined && { page: s.page }),
+          ...(s.section && { section: s.section }),
+          confidence: s.confidence,
+          similarity: s.similarity
+        }))
+      });
+
+      try {
+        for await (const token of llm.generateReplyStream(prompt)) {
+          reply += token;
+          if (clientDisconnected) break;
+          sendEvent(res, 'token', { text: token });
+        }
+      } catch (genError) {
+        console.error('❌ Streaming generation failed:', genError);
+        if (!reply) {
+          reply = "I apologize, but I'm currently experiencing technical difficulties. Please try again later or contact support if the issue persists.";
+          if (!clientDisconnected) sendEvent(res, 'token', { text: reply });
+        }
+      }
+    } else {
+      try {
+        reply = await llm.generateReply(prompt);
+      } catch (genError) {
+        console.error('❌ Generation failed, using fallback response:', genError);
+        reply = "I apologize, but I'm currently experiencing technical difficulties. Please try again later or contact support if the issue persists.";
+      }
     }
     
     const processingTime = Date.now() - startTime;
@@ -631,6 +873,7 @@ Answer:`;
     
     // Determine if fallback was used
     const fallbackUsed = reply.includes("I don't have information about that in my training data") || 
+                        (!!agent.fallbackMessage && reply.includes(agent.fallbackMessage)) ||
                         reply.includes("I apologize, but I'm currently experiencing technical difficulties");
     
     // Calculate average similarity
@@ -671,13 +914,28 @@ Answer:`;
         reply,
         overallConfidence,
         uniqueTexts.length,
-        sources
+        sources,
+        llm.name
       );
       console.log(`🔍 Response audited - Risk Level: ${auditResult.hallucinationRiskLevel}, Score: ${auditResult.hallucinationRiskScore.toFixed(3)}`);
     } catch (auditError) {
       console.error('❌ Response audit failed:', auditError);
     }
     
+    // Store the exchange so the next turn can refer back to it
+    if (conversationId) {
+      await ConversationService.appendExchange(
+        conversationId,
+        agentId,
+        question,
+        standaloneQuestion,
+        reply,
+        questionId,
+        parseFloat(overallConfidence.toFixed(3)),
+        req.session?.id
+      );
+    }
+    
     // Log the question and answer
     console.log(`\n💬 Q&A Summary:`);
     console.log(`❓ Question: "${question}"`);
@@ -688,19 +946,16 @@ Answer:`;
     console.log(`🔍 Sources: ${sourcesUsed.map((s: any) => s.source).join(', ')}`);
     console.log(`\n`);
     
-    res.json({ 
+    const responseBody = {
       agent_id: agentId,
       query: question,
       reply,
       confidence: parseFloat(overallConfidence.toFixed(3)),
       fallback_used: fallbackUsed,
       question_id: questionId,
-      agent_metadata: agentMetadata ? {
-        name: agentMetadata.name,
-        role: agentMetadata.role,
-        tone: agentMetadata.tone,
-        do_not_answer_from_general_knowledge: agentMetadata.do_not_answer_from_general_knowledge
-      } : null,
+      conversation_id: conversationId || null,
+      standalone_question: standaloneQuestion !== question ? standaloneQuestion : null,
+      agent_metadata: describeAgent(agent),
       feedback_prompt: overallConfidence < 0.6 ? 
         "Was this answer helpful? Reply with feedback to help us improve." : 
         "How was this answer? (optional feedback)",
@@ -718,7 +973,8 @@ Answer:`;
       meta: {
         tokens_used: tokensUsed,
         retrieval_time_ms: processingTime,
-        model: "gemini-1.5",
+        model: llm.model,
+        embedding_model: embeddingModel,
         retrieval_strategy: "hybrid",
         chunks_used: uniqueTexts.length,
         chunks_searched: allResults.length,
@@ -726,22 +982,28 @@ Answer:`;
         context_length: context.length,
         sources_count: sourcesUsed.length,
         average_similarity: parseFloat(averageSimilarity.toFixed(3)),
-        retrieval_config: {
-          vector_k: RETRIEVAL_CONFIG.VECTOR_K,
-          keyword_k: RETRIEVAL_CONFIG.KEYWORD_K,
-          similarity_threshold: RETRIEVAL_CONFIG.MIN_SIMILARITY_SCORE,
-          confidence_threshold: RETRIEVAL_CONFIG.CONFIDENCE_THRESHOLD,
-          max_chunks: RETRIEVAL_CONFIG.MAX_CHUNKS
-        },
+        retrieval_config: describeRetrievalConfig(retrievalConfig),
         sources: sourcesUsed.map((s: any) => ({
           source: s.source,
           source_url: s.sourceUrl,
           chunk_index: s.chunkIndex,
+          ...(s.fileName && { file_name: s.fileName }),
+          ...(s.page !== undefined && { page: s.page }),
+          ...(s.section && { section: s.section }),
           confidence: s.confidence,
           similarity: s.similarity
         }))
       }
-    });
+    };
+
+    if (streaming) {
+      if (!res.writableEnded && !res.destroyed) {
+        sendEvent(res, 'done', responseBody);
+        res.end();
+      }
+    } else {
+      res.json(responseBody);
+    }
     
   } catch (error) {
     console.error('Ask route error:', error);
@@ -763,62 +1025,192 @@ Answer:`;
       console.error('Failed to track analytics for error:', analyticsError);
     }
     
-    res.status(500).json({ 
+    const errorBody = {
       error: 'Failed to process question',
       processingTime,
       timestamp: new Date().toISOString()
+    };
+
+    // Once the event stream has started the status code can no longer change
+    if (res.headersSent) {
+      if (!res.writableEnded) {
+        sendEvent(res, 'error', errorBody);
+        res.end();
+      }
+    } else {
+      res.status(500).json(errorBody);
+    }
+  }
+}
+
+// Descriptions returned alongside retrieval settings
+const RETRIEVAL_SETTING_DESCRIPTIONS: Record<keyof RetrievalSettings, string> = {
+  vectorK: 'Number of top vector search results to retrieve',
+  keywordK: 'Number of top keyword search results to retrieve',
+  minSimilarityScore: 'Minimum cosine similarity threshold',
+  confidenceThreshold: 'Minimum confidence score for including chunks',
+  maxChunks: 'Maximum number of chunks to include in context',
+  maxContextLength: 'Maximum context length in characters'
+};
+
+/**
+ * @swagger
+ * /api/ask/config:
+ *   get:
+ *     summary: Get retrieval configuration
+ *     description: Returns the default retrieval settings, or the effective settings of an agent when agentId is given
+ *     tags: [AI Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: agentId
+ *         schema:
+ *           type: string
+ *         example: "sales-agent-001"
+ *     responses:
+ *       200:
+ *         description: Retrieval configuration
+ *       400:
+ *         description: Invalid agent ID
+ *       404:
+ *         description: Agent not found
+ */
+router.get('/config', requireScope('ask'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const response = {
+      defaults: DEFAULT_RETRIEVAL_SETTINGS,
+      limits: RETRIEVAL_SETTING_LIMITS,
+      description: RETRIEVAL_SETTING_DESCRIPTIONS
+    };
+
+    if (req.query.agentId === undefined) {
+      return res.json({ retrievalConfig: DEFAULT_RETRIEVAL_SETTINGS, ...response });
+    }
+
+    const agentIdValidation = sanitizeAgentId(req.query.agentId as string);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+
+    const agent = await AgentService.getAgent(agentIdValidation.sanitized!);
+    if (!agent) {
+      return res.status(404).json({ error: `Agent '${agentIdValidation.sanitized}' not found` });
+    }
+
+    res.json({
+      agentId: agent.agentId,
+      retrievalConfig: resolveRetrievalSettings(agent.retrieval),
+      agentSettings: agent.retrieval || {},
+      ...response
+    });
+  } catch (error) {
+    console.error('Get retrieval config error:', error);
+    res.status(500).json({
+      error: 'Failed to get retrieval configuration',
+      timestamp: new Date().toISOString()
     });
   }
 });
 
-// GET /api/ask/config - Get current retrieval configuration
-router.get('/config', (req: Request, res: Response) => {
-  res.json({
-    retrievalConfig: RETRIEVAL_CONFIG,
-    description: {
-      VECTOR_K: 'Number of top vector search results to retrieve',
-      KEYWORD_K: 'Number of top keyword search results to retrieve',
-      MIN_SIMILARITY_SCORE: 'Minimum cosine similarity threshold',
-      MAX_CONTEXT_LENGTH: 'Maximum context length in characters',
-      CONFIDENCE_THRESHOLD: 'Minimum confidence score for including chunks',
-      MAX_CHUNKS: 'Maximum number of chunks to include in context'
+/**
+ * @swagger
+ * /api/ask/config:
+ *   post:
+ *     summary: Update an agent's retrieval configuration
+ *     description: Persists retrieval settings on the agent. Settings that are omitted keep their current value; send null to reset a setting to its default. Use the `retrieval` field of POST /api/ask to override settings for a single request instead.
+ *     tags: [AI Agent]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - agentId
+ *             properties:
+ *               agentId:
+ *                 type: string
+ *                 example: "sales-agent-001"
+ *               vectorK:
+ *                 type: integer
+ *               keywordK:
+ *                 type: integer
+ *               similarityThreshold:
+ *                 type: number
+ *                 description: Alias of minSimilarityScore
+ *               minSimilarityScore:
+ *                 type: number
+ *               confidenceThreshold:
+ *                 type: number
+ *               maxChunks:
+ *                 type: integer
+ *               maxContextLength:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Configuration updated
+ *       400:
+ *         description: Invalid agent ID or setting
+ *       404:
+ *         description: Agent not found
+ */
+router.post('/config', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const { agentId, vectorK, keywordK, confidenceThreshold, similarityThreshold, minSimilarityScore, maxContextLength, maxChunks } = req.body;
+
+    const agentIdValidation = sanitizeAgentId(agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
     }
-  });
-});
 
-// POST /api/ask/config - Update retrieval configuration (for development/testing)
-router.post('/config', (req: Request, res: Response) => {
-  const { vectorK, keywordK, confidenceThreshold, similarityThreshold, maxContextLength, maxChunks } = req.body;
-  
-  // Validate and update configuration
-  if (vectorK !== undefined && Number.isInteger(vectorK) && vectorK > 0 && vectorK <= 50) {
-    RETRIEVAL_CONFIG.VECTOR_K = vectorK;
-  }
-  
-  if (keywordK !== undefined && Number.isInteger(keywordK) && keywordK > 0 && keywordK <= 20) {
-    RETRIEVAL_CONFIG.KEYWORD_K = keywordK;
-  }
-  
-  if (confidenceThreshold !== undefined && confidenceThreshold >= 0 && confidenceThreshold <= 1) {
-    RETRIEVAL_CONFIG.CONFIDENCE_THRESHOLD = confidenceThreshold;
-  }
-  
-  if (similarityThreshold !== undefined && similarityThreshold >= 0 && similarityThreshold <= 1) {
-    RETRIEVAL_CONFIG.MIN_SIMILARITY_SCORE = similarityThreshold;
-  }
-  
-  if (maxContextLength !== undefined && Number.isInteger(maxContextLength) && maxContextLength > 0) {
-    RETRIEVAL_CONFIG.MAX_CONTEXT_LENGTH = maxContextLength;
-  }
-  
-  if (maxChunks !== undefined && Number.isInteger(maxChunks) && maxChunks > 0 && maxChunks <= 20) {
-    RETRIEVAL_CONFIG.MAX_CHUNKS = maxChunks;
+    const retrievalValidation = validateRetrievalSettings({
+      vectorK,
+      keywordK,
+      minSimilarityScore: minSimilarityScore !== undefined ? minSimilarityScore : similarityThreshold,
+      confidenceThreshold,
+      maxChunks,
+      maxContextLength
+    });
+    if (!retrievalValidation.isValid) {
+      return res.status(400).json({
+        error: retrievalValidation.error,
+        field: 'retrieval'
+      });
+    }
+
+    if (!(await AgentService.agentExists(agentIdValidation.sanitized!))) {
+      return res.status(404).json({ error: `Agent '${agentIdValidation.sanitized}' not found` });
+    }
+
+    const agent = await AgentService.updateAgent(agentIdValidation.sanitized!, { retrieval: retrievalValidation.sanitized });
+    if (!agent) {
+      return res.status(404).json({ error: `Agent '${agentIdValidation.sanitized}' not found` });
+    }
+
+    console.log(`⚙️ Retrieval config updated for agent ${agent.agentId}`);
+
+    res.json({
+      message: 'Configuration updated successfully',
+      agentId: agent.agentId,
+      retrievalConfig: resolveRetrievalSettings(agent.retrieval),
+      agentSettings: agent.retrieval || {}
+    });
+  } catch (error) {
+    console.error('Update retrieval config error:', error);
+    res.status(500).json({
+      error: 'Failed to update retrieval configuration',
+      timestamp: new Date().toISOString()
+    });
   }
-  
-  res.json({
-    message: 'Configuration updated successfully',
-    retrievalConfig: RETRIEVAL_CONFIG
-  });
 });
 
 export default router; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import express, { Request, Response } from 'express';
+import { requireAgentAccess, requireScope } from '../middleware/authorize.js';
 import { CacheService } from '../services/cache.js';
 
 const router = express.Router();
@@ -71,7 +72,7 @@ const router = express.Router();
  *       500:
  *         description: Internal server error
  */
-router.get('/stats/:agentId', async (req: Request, res: Response) => {
+router.get('/stats/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req: Request, res: Response) => {
   try {
     const { agentId } = req.params;
     
@@ -140,7 +141,7 @@ router.get('/stats/:agentId', async (req: Request, res: Response) => {
  *       500:
  *         description: Internal server error
  */
-router.delete('/clear/:agentId', async (req: Request, res: Response) => {
+router.delete('/clear/:agentId', requireScope('train'), requireAgentAccess(), async (req: Request, res: Response) => {
   try {
     const { agentId } = req.params;
     
@@ -203,7 +204,7 @@ router.delete('/clear/:agentId', async (req: Request, res: Response) => {
  *                   type: string
  *                   format: date-time
  */
-router.get('/health', async (req: Request, res: Response) => {
+router.get('/health', requireScope('analytics:read'), async (req: Request, res: Response) => {
   try {
     const isHealthy = await CacheService.healthCheck();
     
@@ -257,7 +258,7 @@ router.get('/health', async (req: Request, res: Response) => {
  *       500:
  *         description: Internal server error
  */
-router.get('/stats', async (req: Request, res: Response) => {
+router.get('/stats', requireScope('admin'), async (req: Request, res: Response) => {
   try {
     // This would require additional implementation to get overall stats
     // For now, return basic health info
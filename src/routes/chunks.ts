@@ -0,0 +1,410 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { requireAgentAccess, requireScope } from '../middleware/authorize.js';
+import { IMemory } from '../models/Memory.js';
+import { AgentService } from '../services/agent.js';
+import { ChunkFilters, ChunkService } from '../services/chunk.js';
+import { SourceService } from '../services/source.js';
+import { sanitizeAgentId, sanitizeText } from '../utils/security.js';
+
+// Mounted at /api/agents/:agentId/chunks
+const router = express.Router({ mergeParams: true });
+
+const CHUNK_SOURCES = ['audio', 'video', 'document', 'website', 'youtube', 'manual'];
+
+// Longest text a hand-edited chunk (or Q&A answer) may have
+const CHUNK_TEXT_MAX_LENGTH = 8000;
+
+// Validate the agent ID in the path and make sure the agent exists
+const loadAgent = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.params.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+    const agent = await AgentService.getAgent(agentIdValidation.sanitized!);
+    if (!agent) {
+      return res.status(404).json({ error: `Agent '${agentIdValidation.sanitized}' not found` });
+    }
+    res.locals.agent = agent;
+    next();
+  } catch (error) {
+    console.error('Load agent error:', error);
+    res.status(500).json({
+      error: 'Failed to load agent',
+      timestamp: new Date().toISOString()
+    });
+  }
+};
+
+const validateChunkId = (req: Request, res: Response, next: NextFunction) => {
+  if (!ChunkService.isChunkId(req.params.chunkId)) {
+    return res.status(400).json({ error: 'Invalid chunk ID', field: 'chunkId' });
+  }
+  next();
+};
+
+// Parse "true"/"false" query flags; undefined when absent, null when invalid
+const parseFlag = (value: unknown): boolean | undefined | null => {
+  if (value === undefined || value === '') return undefined;
+  if (value === true || value === 'true') return true;
+  if (value === false || value === 'false') return false;
+  return null;
+};
+
+// Shape returned for chunks
+const toChunkResponse = (chunk: IMemory) => ({
+  chunkId: String(chunk._id),
+  agentId: chunk.agentId,
+  text: chunk.text,
+  source: chunk.source,
+  sourceUrl: chunk.sourceUrl ?? null,
+  sourceId: SourceService.toSourceId({ source: chunk.source, sourceUrl: chunk.sourceUrl, fileName: chunk.chunkMetadata?.fileName }),
+  chunkIndex: chunk.chunkIndex,
+  contentHash: chunk.contentHash,
+  contentVersion: chunk.contentVersion,
+  chunkMetadata: chunk.chunkMetadata,
+  sourceMetadata: chunk.sourceMetadata,
+  embeddingModel: chunk.embeddingModel ?? null,
+  embeddingStatus: chunk.embeddingStatus ?? 'ready',
+  embeddingError: chunk.embeddingError ?? null,
+  pinned: !!chunk.pinned,
+  disabled: !!chunk.disabled,
+  trainJobId: chunk.trainJobId ?? null,
+  editedAt: chunk.editedAt ?? null,
+  editedBy: chunk.editedBy ?? null
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/chunks:
+ *   get:
+ *     summary: Browse an agent's knowledge chunks
+ *     description: Chunks ordered by source and position, without their embedding vectors
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: source
+ *         schema:
+ *           type: string
+ *           enum: [audio, video, document, website, youtube, manual]
+ *       - in: query
+ *         name: sourceUrl
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: sourceId
+ *         description: Source ID from GET /api/agents/{agentId}/sources
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: q
+ *         description: Case-insensitive text search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: pinned
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: disabled
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: skip
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Page of chunks
+ *       400:
+ *         description: Invalid filter
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Add a hand-written Q&A chunk
+ *     description: Stored as a `manual` source and embedded right away
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - question
+ *               - answer
+ *             properties:
+ *               question:
+ *                 type: string
+ *               answer:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Chunk created
+ *       400:
+ *         description: Invalid question or answer
+ *       404:
+ *         description: Agent not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('train'), requireAgentAccess(), loadAgent, async (req: Request, res: Response) => {
+  try {
+    const { source, sourceUrl, sourceId, q } = req.query;
+    const filters: ChunkFilters = {};
+
+    if (source !== undefined) {
+      if (typeof source !== 'string' || !CHUNK_SOURCES.includes(source)) {
+        return res.status(400).json({ error: `source must be one of: ${CHUNK_SOURCES.join(', ')}`, field: 'source' });
+      }
+      filters.source = source as IMemory['source'];
+    }
+    if (sourceUrl !== undefined) {
+      if (typeof sourceUrl !== 'string') {
+        return res.status(400).json({ error: 'sourceUrl must be a string', field: 'sourceUrl' });
+      }
+      filters.sourceUrl = sourceUrl;
+    }
+    if (sourceId !== undefined) {
+      const sourceRef = typeof sourceId === 'string' ? SourceService.parseSourceId(sourceId) : null;
+      if (!sourceRef) {
+        return res.status(400).json({ error: 'Invalid source ID', field: 'sourceId' });
+      }
+      filters.sourceRef = sourceRef;
+    }
+    if (q !== undefined) {
+      if (typeof q !== 'string' || q.length > 200) {
+        return res.status(400).json({ error: 'q must be a string of at most 200 characters', field: 'q' });
+      }
+      filters.search = q.trim() || undefined;
+    }
+    for (const field of ['pinned', 'disabled'] as const) {
+      const flag = parseFlag(req.query[field]);
+      if (flag === null) {
+        return res.status(400).json({ error: `${field} must be true or false`, field });
+      }
+      filters[field] = flag;
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const skip = Math.max(parseInt(req.query.skip as string) || 0, 0);
+    const { chunks, total } = await ChunkService.listChunks(res.locals.agent.agentId, filters, limit, skip);
+
+    res.json({
+      success: true,
+      agentId: res.locals.agent.agentId,
+      chunks: chunks.map(toChunkResponse),
+      pagination: {
+        total,
+        limit,
+        skip,
+        hasMore: skip + chunks.length < total
+      }
+    });
+  } catch (error) {
+    console.error('List chunks error:', error);
+    res.status(500).json({
+      error: 'Failed to list chunks',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.post('/', requireScope('train'), requireAgentAccess(), loadAgent, async (req: Request, res: Response) => {
+  try {
+    const fields: Record<string, string> = {};
+    for (const field of ['question', 'answer']) {
+      const value = req.body[field];
+      if (!value || typeof value !== 'string') {
+        return res.status(400).json({ error: `${field} is required and must be a string`, field });
+      }
+      const validation = sanitizeText(value, CHUNK_TEXT_MAX_LENGTH);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: `${field}: ${validation.error}`, field });
+      }
+      fields[field] = validation.sanitized!;
+    }
+
+    const agent = res.locals.agent;
+    const chunk = await ChunkService.createQaChunk(agent.agentId, { question: fields.question, answer: fields.answer }, req.auth!.keyId, agent.embeddingProvider);
+    console.log(`✍️ Added Q&A chunk ${chunk._id} to agent ${agent.agentId}`);
+
+    res.status(201).json({
+      success: true,
+      message: 'Q&A chunk added',
+      chunk: toChunkResponse(chunk)
+    });
+  } catch (error) {
+    console.error('Create chunk error:', error);
+    res.status(500).json({
+      error: 'Failed to add chunk',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/agents/{agentId}/chunks/{chunkId}:
+ *   get:
+ *     summary: Get one knowledge chunk with its metadata
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: chunkId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Chunk
+ *       400:
+ *         description: Invalid agent ID or chunk ID
+ *       404:
+ *         description: Chunk not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Edit, pin or disable a knowledge chunk
+ *     description: |
+ *       New text is re-embedded with the agent's current embedding model and bumps contentVersion.
+ *       Pinned chunks rank above unpinned ones of similar relevance; disabled chunks are never used to answer.
+ *     tags: [Agents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: chunkId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               text:
+ *                 type: string
+ *               pinned:
+ *                 type: boolean
+ *               disabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Chunk updated
+ *       400:
+ *         description: Invalid field
+ *       404:
+ *         description: Chunk not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:chunkId', requireScope('train'), requireAgentAccess(), validateChunkId, loadAgent, async (req: Request, res: Response) => {
+  try {
+    const chunk = await ChunkService.getChunk(res.locals.agent.agentId, req.params.chunkId);
+    if (!chunk) {
+      return res.status(404).json({ error: 'Chunk not found' });
+    }
+
+    res.json({
+      success: true,
+      chunk: toChunkResponse(chunk)
+    });
+  } catch (error) {
+    console.error('Get chunk error:', error);
+    res.status(500).json({
+      error: 'Failed to get chunk',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+router.patch('/:chunkId', requireScope('train'), requireAgentAccess(), validateChunkId, loadAgent, async (req: Request, res: Response) => {
+  try {
+    const { text } = req.body;
+    const update: { text?: string; pinned?: boolean; disabled?: boolean } = {};
+
+    if (text !== undefined) {
+      if (typeof text !== 'string' || text.trim().length === 0) {
+        return res.status(400).json({ error: 'text must be a non-empty string', field: 'text' });
+      }
+      const validation = sanitizeText(text, CHUNK_TEXT_MAX_LENGTH);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: `text: ${validation.error}`, field: 'text' });
+      }
+      update.text = validation.sanitized!;
+    }
+    for (const field of ['pinned', 'disabled'] as const) {
+      if (req.body[field] === undefined) continue;
+      if (typeof req.body[field] !== 'boolean') {
+        return res.status(400).json({ error: `${field} must be a boolean`, field });
+      }
+      update[field] = req.body[field];
+    }
+    if (Object.keys(update).length === 0) {
+      return res.status(400).json({ error: 'Provide at least one of: text, pinned, disabled', field: 'text|pinned|disabled' });
+    }
+
+    const agent = res.locals.agent;
+    const chunk = await ChunkService.updateChunk(agent.agentId, req.params.chunkId, update, req.auth!.keyId, agent.embeddingProvider);
+    if (!chunk) {
+      return res.status(404).json({ error: 'Chunk not found' });
+    }
+    console.log(`✏️ Updated chunk ${req.params.chunkId} of agent ${agent.agentId} (${Object.keys(update).join(', ')})`);
+
+    res.json({
+      success: true,
+      message: 'Chunk updated',
+      chunk: toChunkResponse(chunk)
+    });
+  } catch (error) {
+    console.error('Update chunk error:', error);
+    res.status(500).json({
+      error: 'Failed to update chunk',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,280 @@
+import express, { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { denyAgentAccess, hasAgentAccess, requireAgentAccess, requireScope } from '../middleware/authorize.js';
+import { ConversationService } from '../services/conversation.js';
+import { sanitizeAgentId, sanitizeConversationId } from '../utils/security.js';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   post:
+ *     summary: Start a new conversation
+ *     description: Create an empty conversation for an agent. Pass the returned conversationId to POST /api/ask to ask follow-up questions with server-side history.
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - agentId
+ *             properties:
+ *               agentId:
+ *                 type: string
+ *                 example: "sales-agent-001"
+ *     responses:
+ *       201:
+ *         description: Conversation created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 conversationId:
+ *                   type: string
+ *                   example: "0b6f1c1e-4f7a-4c38-9d8e-1d2f4a6b7c8d"
+ *                 agentId:
+ *                   type: string
+ *       400:
+ *         description: Invalid agent ID
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/', requireScope('ask'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.body.agentId);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+
+    const conversation = await ConversationService.createConversation(uuidv4(), agentIdValidation.sanitized!, req.session?.id);
+
+    res.status(201).json({
+      success: true,
+      conversationId: conversation.conversationId,
+      agentId: conversation.agentId,
+      createdAt: conversation.createdAt
+    });
+  } catch (error) {
+    console.error('Create conversation error:', error);
+    res.status(500).json({
+      error: 'Failed to create conversation',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/conversations:
+ *   get:
+ *     summary: List conversations for an agent
+ *     description: List an agent's conversations, most recently active first
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: agentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "sales-agent-001"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 20
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *     responses:
+ *       200:
+ *         description: Conversations retrieved successfully
+ *       400:
+ *         description: Invalid parameters
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('ask'), requireAgentAccess(), async (req: Request, res: Response) => {
+  try {
+    const agentIdValidation = sanitizeAgentId(req.query.agentId as string);
+    if (!agentIdValidation.isValid) {
+      return res.status(400).json({
+        error: agentIdValidation.error,
+        field: 'agentId'
+      });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    if (limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'Limit must be between 1 and 100' });
+    }
+    if (page < 1) {
+      return res.status(400).json({ error: 'Page must be 1 or greater' });
+    }
+
+    const { conversations, total } = await ConversationService.listConversations(
+      agentIdValidation.sanitized!,
+      limit,
+      (page - 1) * limit
+    );
+
+    res.json({
+      success: true,
+      conversations,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('List conversations error:', error);
+    res.status(500).json({
+      error: 'Failed to list conversations',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}:
+ *   get:
+ *     summary: Get a conversation
+ *     description: Retrieve a conversation with all stored turns
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conversation retrieved successfully
+ *       400:
+ *         description: Invalid conversation ID
+ *       404:
+ *         description: Conversation not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:conversationId', requireScope('ask'), async (req: Request, res: Response) => {
+  try {
+    const conversationIdValidation = sanitizeConversationId(req.params.conversationId);
+    if (!conversationIdValidation.isValid) {
+      return res.status(400).json({
+        error: conversationIdValidation.error,
+        field: 'conversationId'
+      });
+    }
+
+    const conversation = await ConversationService.getConversation(conversationIdValidation.sanitized!);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (!hasAgentAccess(req, conversation.agentId)) {
+      return denyAgentAccess(res, conversation.agentId);
+    }
+
+    res.json({
+      success: true,
+      conversation: {
+        conversationId: conversation.conversationId,
+        agentId: conversation.agentId,
+        turns: conversation.turns,
+        createdAt: conversation.createdAt,
+        updatedAt: conversation.updatedAt
+      }
+    });
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    res.status(500).json({
+      error: 'Failed to get conversation',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/conversations/{conversationId}:
+ *   delete:
+ *     summary: Delete a conversation
+ *     description: Permanently delete a conversation and its history
+ *     tags: [Conversations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: conversationId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Conversation deleted
+ *       400:
+ *         description: Invalid conversation ID
+ *       404:
+ *         description: Conversation not found
+ *       500:
+ *         description: Internal server error
+ */
+router.delete('/:conversationId', requireScope('ask'), async (req: Request, res: Response) => {
+  try {
+    const conversationIdValidation = sanitizeConversationId(req.params.conversationId);
+    if (!conversationIdValidation.isValid) {
+      return res.status(400).json({
+        error: conversationIdValidation.error,
+        field: 'conversationId'
+      });
+    }
+
+    const conversation = await ConversationService.getConversation(conversationIdValidation.sanitized!);
+    if (conversation && !hasAgentAccess(req, conversation.agentId)) {
+      return denyAgentAccess(res, conversation.agentId);
+    }
+
+    const deleted = await ConversationService.deleteConversation(conversationIdValidation.sanitized!);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    res.json({
+      success: true,
+      message: 'Conversation deleted',
+      conversationId: conversationIdValidation.sanitized
+    });
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    res.status(500).json({
+      error: 'Failed to delete conversation',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export default router;
@@ -1,4 +1,5 @@
 import express, { NextFunction, Request, Response } from 'express';
+import { denyAgentAccess, hasAgentAccess, requireAgentAccess, requireScope } from '../middleware/authorize.js';
 import { FeedbackService } from '../services/feedback.js';
 import { sanitizeAgentId, sanitizeQuestion } from '../utils/security.js';
 
@@ -168,7 +169,7 @@ const validateFeedbackRequest = (req: Request, res: Response, next: NextFunction
  *       500:
  *         description: Internal server error
  */
-router.post('/', validateFeedbackRequest, async (req: Request, res: Response) => {
+router.post('/', requireScope('ask'), requireAgentAccess(), validateFeedbackRequest, async (req: Request, res: Response) => {
   try {
     const { 
       agentId, 
@@ -327,7 +328,7 @@ router.post('/', validateFeedbackRequest, async (req: Request, res: Response) =>
  *       500:
  *         description: Internal server error
  */
-router.get('/suggestions/:agentId', async (req: Request, res: Response) => {
+router.get('/suggestions/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req: Request, res: Response) => {
   try {
     const { agentId } = req.params;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -461,7 +462,7 @@ router.get('/suggestions/:agentId', async (req: Request, res: Response) => {
  *       500:
  *         description: Internal server error
  */
-router.get('/summary/:agentId', async (req: Request, res: Response) => {
+router.get('/summary/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req: Request, res: Response) => {
   try {
     const { agentId } = req.params;
     const days = parseInt(req.query.days as string) || 30;
@@ -566,7 +567,7 @@ router.get('/summary/:agentId', async (req: Request, res: Response) => {
  *         description: Internal server error
  */
 // POST /api/feedback/suggestions/:id/implement - Mark suggestion as implemented
-router.post('/suggestions/:id/implement', async (req: Request, res: Response) => {
+router.post('/suggestions/:id/implement', requireScope('train'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { implementationNotes } = req.body;
@@ -581,6 +582,9 @@ router.post('/suggestions/:id/implement', async (req: Request, res: Response) =>
         error: 'Retraining suggestion not found'
       });
     }
+    if (!hasAgentAccess(req, targetSuggestion.agentId)) {
+      return denyAgentAccess(res, targetSuggestion.agentId);
+    }
 
     targetSuggestion.status = 'implemented';
     targetSuggestion.implementedAt = new Date();
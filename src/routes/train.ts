@@ -1,27 +1,61 @@
 import express, { NextFunction, Request, Response } from 'express';
 import multer from 'multer';
 import { v4 as uuidv4 } from 'uuid';
-import Memory, { IMemory } from '../models/Memory.js';
+import { denyAgentAccess, hasAgentAccess, requireAgentAccess, requireScope } from '../middleware/authorize.js';
+import Memory from '../models/Memory.js';
 import TrainJob from '../models/TrainJob.js';
-import { embedText } from '../services/gemini.js';
-import { GeminiAudioTranscriber } from '../utils/audioTranscribe.js';
-import { chunkText, generateContentHash, getContentVersion } from '../utils/chunkText.js';
-import { parseFile } from '../utils/parseFile.js';
-import { scrapeAllRoutes } from '../utils/scrapeWebsite.js';
+import { AgentService } from '../services/agent.js';
+import { SourceService } from '../services/source.js';
+import { createStagingEngine, removeStagedFiles, StagedUpload } from '../services/staging.js';
+import { TrainingQueueService, TrainingRetryError } from '../services/trainingQueue.js';
+import { CRAWL_LIMITS, CrawlOptions } from '../utils/crawlWebsite.js';
+import { TABLE_LIMITS, TableOptions } from '../utils/parsers/table.js';
 import { sanitizeRequest, SECURITY_CONFIG, validateFileUpload } from '../utils/security.js';
-import { VideoProcessor } from '../utils/videoProcess.js';
-import { cleanTranscript, fetchYouTubeTranscript, summarizeYouTubeVideoWithGemini } from '../utils/youtubeTranscript.js';
+import { assertUrlAllowed, BlockedUrlError } from '../utils/urlGuard.js';
 
 const router = express.Router();
 
+// Job id is assigned before the upload so files are streamed straight into the job's staging prefix.
+// If the request ends without queueing a job (validation error, unknown agent, aborted upload), they are removed.
+const assignTrainJobId = (req: Request, res: Response, next: NextFunction) => {
+  const jobId = uuidv4();
+  res.locals.jobId = jobId;
+  res.on('close', () => {
+    if (!res.locals.jobQueued) {
+      removeStagedFiles(jobId);
+    }
+  });
+  next();
+};
+
+// A file arrived for an agent the API key cannot access, or before the agentId field (agentId unset)
+class UploadAgentAccessError extends Error {
+  constructor(public agentId?: string) {
+    super(agentId ? `API key cannot access agent '${agentId}'` : 'agentId must come before the files');
+    this.name = 'UploadAgentAccessError';
+  }
+}
+
 // Enhanced multer configuration with security
 const upload = multer({
-  storage: multer.memoryStorage(),
+  storage: createStagingEngine((req) => (req.res as Response).locals.jobId),
   limits: { 
     fileSize: SECURITY_CONFIG.MAX_FILE_SIZE,
     files: SECURITY_CONFIG.MAX_FILES_PER_REQUEST
   },
       fileFilter: (req: any, file: any, cb: any) => {
+    // Keys limited to some agents are checked before anything is staged, so the agentId field has to
+    // come before the files (or be in the query string)
+    if (req.auth?.agentIds.length) {
+      const agentId = req.query.agentId ?? req.body?.agentId;
+      if (typeof agentId !== 'string' || !agentId) {
+        return cb(new UploadAgentAccessError());
+      }
+      if (!hasAgentAccess(req, agentId)) {
+        return cb(new UploadAgentAccessError(agentId));
+      }
+    }
+
     // Use our security validation
     const validation = validateFileUpload(file);
     if (validation.isValid) {
@@ -32,6 +66,94 @@ const upload = multer({
   }
 });
 
+const uploadFiles = (req: Request, res: Response, next: NextFunction) => {
+  upload.array('files', SECURITY_CONFIG.MAX_FILES_PER_REQUEST)(req, res, (error?: unknown) => {
+    if (error instanceof UploadAgentAccessError) {
+      return error.agentId
+        ? denyAgentAccess(res, error.agentId)
+        : res.status(400).json({
+          error: 'This API key is limited to particular agents: send the agentId field before the files, or pass ?agentId=',
+          field: 'agentId'
+        });
+    }
+    next(error);
+  });
+};
+
+const isTrue = (value: unknown) => value === true || value === 'true';
+
+// Path patterns arrive as an array (JSON) or a comma-separated string (form data)
+function parsePathPatterns(value: unknown): string[] | null {
+  if (value === undefined || value === '') return [];
+  const patterns = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!patterns || patterns.some(pattern => typeof pattern !== 'string')) return null;
+  const trimmed = patterns.map((pattern: string) => pattern.trim()).filter(Boolean);
+  if (trimmed.length > CRAWL_LIMITS.maxPathPatterns || trimmed.some(pattern => !pattern.startsWith('/') || pattern.length > 200)) return null;
+  return trimmed;
+}
+
+/**
+ * Crawl options of a website training request, or the field that is invalid
+ */
+function parseCrawlOptions(body: any): { options: CrawlOptions } | { error: string; field: string } {
+  const maxPages = body.maxPages === undefined || body.maxPages === '' ? CRAWL_LIMITS.defaultMaxPages : Number(body.maxPages);
+  if (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > CRAWL_LIMITS.maxPages) {
+    return { error: `maxPages must be an integer between 1 and ${CRAWL_LIMITS.maxPages}`, field: 'maxPages' };
+  }
+  const maxDepth = body.maxDepth === undefined || body.maxDepth === '' ? CRAWL_LIMITS.defaultMaxDepth : Number(body.maxDepth);
+  if (!Number.isInteger(maxDepth) || maxDepth < 0 || maxDepth > CRAWL_LIMITS.maxDepth) {
+    return { error: `maxDepth must be an integer between 0 and ${CRAWL_LIMITS.maxDepth}`, field: 'maxDepth' };
+  }
+  const includePaths = parsePathPatterns(body.includePaths);
+  if (!includePaths) {
+    return { error: `includePaths must be up to ${CRAWL_LIMITS.maxPathPatterns} path patterns starting with /`, field: 'includePaths' };
+  }
+  const excludePaths = parsePathPatterns(body.excludePaths);
+  if (!excludePaths) {
+    return { error: `excludePaths must be up to ${CRAWL_LIMITS.maxPathPatterns} path patterns starting with /`, field: 'excludePaths' };
+  }
+  return {
+    options: {
+      maxPages,
+      maxDepth,
+      ...(includePaths.length > 0 && { includePaths }),
+      ...(excludePaths.length > 0 && { excludePaths }),
+      // Sitemaps are used unless turned off
+      useSitemap: body.useSitemap === undefined || body.useSitemap === '' || isTrue(body.useSitemap)
+    }
+  };
+}
+
+// Column names arrive as an array (JSON) or a comma-separated string (form data)
+function parseColumnNames(value: unknown): string[] | null {
+  if (value === undefined || value === '') return [];
+  const names = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!names || names.some(name => typeof name !== 'string')) return null;
+  const trimmed = names.map((name: string) => name.trim()).filter(Boolean);
+  if (trimmed.length > TABLE_LIMITS.maxColumns || trimmed.some(name => name.length > TABLE_LIMITS.maxColumnNameLength)) return null;
+  return trimmed;
+}
+
+/**
+ * Column choices for CSV and spreadsheet files, or the field that is invalid
+ */
+function parseTableOptions(body: any): { options: TableOptions } | { error: string; field: string } {
+  const textColumns = parseColumnNames(body.textColumns);
+  if (!textColumns) {
+    return { error: `textColumns must be up to ${TABLE_LIMITS.maxColumns} column names`, field: 'textColumns' };
+  }
+  const metadataColumns = parseColumnNames(body.metadataColumns);
+  if (!metadataColumns) {
+    return { error: `metadataColumns must be up to ${TABLE_LIMITS.maxColumns} column names`, field: 'metadataColumns' };
+  }
+  return {
+    options: {
+      ...(textColumns.length > 0 && { textColumns }),
+      ...(metadataColumns.length > 0 && { metadataColumns })
+    }
+  };
+}
+
 // Enhanced input validation middleware with security
 const validateTrainRequest = (req: Request, res: Response, next: NextFunction) => {
   // Use comprehensive security sanitization
@@ -46,7 +168,7 @@ const validateTrainRequest = (req: Request, res: Response, next: NextFunction) =
   // Replace request body with sanitized data
   req.body = { ...req.body, ...sanitization.sanitized };
   
-  const { agentId, text, source, sourceUrl, sourceMetadata, fileType } = req.body;
+  const { agentId, text, source, sourceUrl, sourceMetadata, fileType, crawl } = req.body;
   const files = (req as any).files && Array.isArray((req as any).files) ? (req as any).files : [];
 
   // agentId is always required
@@ -65,6 +187,22 @@ const validateTrainRequest = (req: Request, res: Response, next: NextFunction) =
     });
   }
 
+  if (isTrue(crawl) && source !== 'website') {
+    return res.status(400).json({
+      error: 'crawl is only supported for website training',
+      field: 'crawl'
+    });
+  }
+
+  // A replacement stands for one source. With several files, one could fail while the others
+  // succeed, and the job would have no single version to swap in.
+  if (req.body.replaceSourceId && files.length > 1) {
+    return res.status(400).json({
+      error: 'replaceSourceId takes a single file; upload the other files in their own request',
+      field: 'replaceSourceId'
+    });
+  }
+
   // For audio/video, require files
   if ((source === 'audio' || source === 'video')) {
     if (!files || files.length === 0) {
@@ -91,6 +229,19 @@ const validateTrainRequest = (req: Request, res: Response, next: NextFunction) =
         field: 'sourceUrl'
       });
     }
+    if (isTrue(crawl)) {
+      if (req.body.replaceSourceId) {
+        return res.status(400).json({
+          error: 'crawl cannot be combined with replaceSourceId; every crawled page is its own source',
+          field: 'crawl'
+        });
+      }
+      const parsed = parseCrawlOptions(req.body);
+      if ('error' in parsed) {
+        return res.status(400).json(parsed);
+      }
+      res.locals.crawl = parsed.options;
+    }
     return next();
   }
 
@@ -108,315 +259,16 @@ const validateTrainRequest = (req: Request, res: Response, next: NextFunction) =
       field: 'fileType'
     });
   }
+  const table = parseTableOptions(req.body);
+  if ('error' in table) {
+    return res.status(400).json(table);
+  }
+  if (Object.keys(table.options).length > 0) {
+    res.locals.table = table.options;
+  }
   next();
 };
 
-// Async training job processor (DB version)
-async function processTrainingJob(jobId: string, jobData: any) {
-  try {
-    console.log(`[DEBUG] Starting training job ${jobId} for agent ${jobData.agentId}`);
-    await TrainJob.findOneAndUpdate({ jobId }, { status: 'processing', progress: 0, error: null });
-    const { agentId, text, source, sourceUrl, sourceMetadata, fileType, files } = jobData;
-    let trainingText = '';
-    let usedFiles = false;
-    let fileNames: string[] = [];
-
-    console.log(`[DEBUG] Processing source: ${source}, sourceUrl: ${sourceUrl}, files count: ${files?.length || 0}`);
-
-    // Website scraping support
-    if (source === 'website' && sourceUrl) {
-      console.log(`[DEBUG] Starting website scraping for: ${sourceUrl}`);
-      const websiteResult = await scrapeAllRoutes(sourceUrl, { firstRouteOnly: true } );
-      console.log('[DEBUG] Website result:', websiteResult);
-      if (typeof websiteResult === 'string') {
-        trainingText = websiteResult;
-        console.log(`Successfully scraped website for training: ${sourceUrl}`);
-      } else {
-        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: websiteResult.error, source: 'website', url: sourceUrl } });
-        return;
-      }
-    }
-    // YouTube transcript support
-    else if (source === 'youtube' && sourceUrl) {
-      console.log(`[DEBUG] Starting YouTube processing for: ${sourceUrl}`);
-      try {
-        const rawTranscript = await fetchYouTubeTranscript(sourceUrl);
-        trainingText = cleanTranscript(rawTranscript);
-        console.log('[DEBUG] YouTube transcript:', trainingText);
-        console.log(`Successfully fetched and cleaned transcript for URL: ${sourceUrl}`);
-      } catch (ytError: any) {
-        if (ytError.message?.includes('Transcript is disabled') || ytError.message?.includes('unavailable or empty')) {
-          console.log(`[INFO] Transcript not available ('${ytError.message}'). Falling back to Gemini summary for ${sourceUrl}.`);
-          try {
-            const summary = await summarizeYouTubeVideoWithGemini(sourceUrl);
-            console.log('[DEBUG] YouTube video summary:', summary);
-            trainingText = summary;
-            console.log(`Used Gemini to summarize YouTube video for training: ${sourceUrl}`);
-          } catch (geminiError: any) {
-            await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: geminiError.message, source: 'youtube-gemini', url: sourceUrl } });
-            console.log(`Failed to summarize YouTube video with Gemini: ${geminiError.message}`);
-            return;
-          }
-        } else {
-          await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: ytError.message, source: 'youtube', url: sourceUrl } });
-          return;
-        }
-      }
-    }
-    // Video processing support (multiple files)
-    else if (source === 'video' && files && Array.isArray(files) && files.length > 0) {
-      usedFiles = true;
-      fileNames = files.map((f: any) => f.originalname);
-      const processor = new VideoProcessor();
-      let allText = '';
-      let videoErrors: any[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const fileBuffer = files[i].buffer;
-        const fileName = files[i].originalname;
-        const mimeType = files[i].mimetype;
-        try {
-          const transcript = await processor.processVideo(fileBuffer, fileName, mimeType);
-          console.log('[DEBUG] Video transcript:', transcript);
-          allText += transcript + '\n';
-        } catch (err: any) {
-          videoErrors.push({ file: fileName, error: err.message });
-        }
-      }
-      if (videoErrors.length === files.length) {
-        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to process all video files', details: videoErrors } });
-        return;
-      }
-      if (videoErrors.length > 0) {
-        await TrainJob.findOneAndUpdate({ jobId }, { error: { warning: 'Some video files failed to process', details: videoErrors } });
-      }
-      trainingText = allText;
-    }
-    // Audio transcription support (multiple files)
-    else if (source === 'audio' && files && Array.isArray(files) && files.length > 0) {
-      usedFiles = true;
-      fileNames = files.map((f: any) => f.originalname);
-      const transcriber = new GeminiAudioTranscriber();
-      let allText = '';
-      let audioErrors: any[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const fileBuffer = files[i].buffer;
-        const fileName = files[i].originalname;
-        try {
-          const transcript = await transcriber.transcribeAudio(fileBuffer, fileName);
-          allText += transcript + '\n';
-        } catch (err: any) {
-          audioErrors.push({ file: fileName, error: err.message });
-        }
-      }
-      if (audioErrors.length === files.length) {
-        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to transcribe all audio files', details: audioErrors } });
-        return;
-      }
-      if (audioErrors.length > 0) {
-        await TrainJob.findOneAndUpdate({ jobId }, { error: { warning: 'Some audio files failed to transcribe', details: audioErrors } });
-      }
-      trainingText = allText;
-      console.log('[DEBUG] Text after audio transcription:', trainingText.substring(0, 500) + '...');
-    }
-    // Document parsing support
-    else if (source === 'document' && files && Array.isArray(files) && files.length > 0) {
-      usedFiles = true;
-      let fileTypes: string[] = [];
-      if (Array.isArray(fileType)) {
-        fileTypes = fileType;
-      } else if (typeof fileType === 'string') {
-        fileTypes = fileType.includes(',') ? fileType.split(',').map(f => f.trim()) : [fileType];
-      }
-      if (fileTypes.length !== files.length) {
-        fileTypes = files.map((f: any, i: number) => fileTypes[i] || f.originalname.split('.').pop() || 'txt');
-      }
-      let allText = '';
-      for (let i = 0; i < files.length; i++) {
-        const fileBuffer = files[i].buffer;
-        const type = fileTypes[i] || files[i].originalname.split('.').pop() || 'txt';
-        fileNames.push(files[i].originalname);
-        const parsed = await parseFile(fileBuffer, type);
-        if (typeof parsed === 'string') {
-          allText += parsed + '\n';
-        } else {
-          await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: parsed.error, source: parsed.source, file: files[i].originalname } });
-          return;
-        }
-      }
-      trainingText = allText;
-    }
-    // Fallback to raw text if provided
-    else if (text) {
-      trainingText = text;
-    }
-
-    if (!trainingText || trainingText.trim().length === 0) {
-      console.log(`[DEBUG] No training text found for job ${jobId}`);
-      await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'No valid training text found in input or files.' } });
-      return;
-    }
-
-    console.log(`[DEBUG] Text ready for chunking. Length: ${trainingText.length}`);
-    
-    // Check if text is too large and truncate if necessary
-    const MAX_TRAINING_TEXT_LENGTH = 50 * 1024 * 1024; // 50MB limit for training data
-    if (trainingText.length > MAX_TRAINING_TEXT_LENGTH) {
-      console.log(`[WARNING] Training text too large (${trainingText.length} chars), truncating to ${MAX_TRAINING_TEXT_LENGTH} chars`);
-      trainingText = trainingText.substring(0, MAX_TRAINING_TEXT_LENGTH);
-    }
-    
-    const chunksWithMetadata = chunkText(trainingText);
-    console.log(`[DEBUG] Text chunked. Number of chunks: ${chunksWithMetadata.length}`);
-
-    if (chunksWithMetadata.length === 0) {
-      console.log(`[DEBUG] No chunks created for job ${jobId}`);
-      await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to create chunks from training text.' } });
-      return;
-    }
-
-    const existingCount = await Memory.countDocuments({ agentId });
-    await TrainJob.findOneAndUpdate({ jobId }, {
-      totalChunks: chunksWithMetadata.length,
-      fileNames,
-      usedFiles,
-      chunksProcessed: 0,
-      successCount: 0,
-      errorCount: 0,
-      status: 'processing',
-    });
-
-    const entries: Partial<IMemory>[] = [];
-    let successCount = 0;
-    let errorCount = 0;
-    let skippedCount = 0;
-    
-    for (let i = 0; i < chunksWithMetadata.length; i++) {
-      try {
-        const chunkWithMetadata = chunksWithMetadata[i];
-        const chunkText = chunkWithMetadata.text;
-        const chunkMetadata = chunkWithMetadata.metadata;
-        
-        console.log(`[DEBUG] Processing chunk ${i + 1}/${chunksWithMetadata.length} (${chunkText.length} chars)`);
-        
-        // Generate content hash for deduplication
-        const contentHash = generateContentHash(chunkText);
-        
-        // Check if content already exists
-        const existingContent = await Memory.findOne({ 
-          agentId, 
-          contentHash,
-          ...(sourceUrl && { sourceUrl })
-        });
-        
-        if (existingContent) {
-          console.log(`[DEBUG] Skipping duplicate chunk ${i + 1}/${chunksWithMetadata.length} (hash: ${contentHash.substring(0, 8)}...)`);
-          skippedCount++;
-          continue;
-        }
-        
-        // Get content version
-        const contentVersion = await getContentVersion(agentId, contentHash, sourceUrl);
-        
-        let vector: number[];
-        try {
-          console.log(`[DEBUG] Generating embedding for chunk ${i + 1}`);
-          vector = await embedText(chunkText);
-          console.log(`[DEBUG] Embedding generated successfully for chunk ${i + 1}`);
-        } catch (embedError) {
-          console.log(`[WARNING] Embedding failed for chunk ${i + 1}, using fallback: ${embedError}`);
-          vector = new Array(768).fill(0);
-        }
-        
-        // Add file-specific metadata for file-based sources
-        const enhancedChunkMetadata = {
-          ...chunkMetadata,
-          fileName: usedFiles && fileNames.length > 0 ? fileNames[0] : undefined
-        };
-        
-        entries.push({ 
-          agentId, 
-          text: chunkText, 
-          embedding: vector, 
-          source, 
-          sourceUrl, 
-          sourceMetadata,
-          chunkIndex: chunkMetadata.chunkIndex,
-          contentHash,
-          contentVersion,
-          chunkMetadata: enhancedChunkMetadata
-        } as Partial<IMemory>);
-        successCount++;
-        console.log(`[DEBUG] Successfully processed chunk ${i + 1}`);
-      } catch (chunkError) {
-        console.log(`[ERROR] Failed to process chunk ${i + 1}: ${chunkError}`);
-        errorCount++;
-      }
-      
-      // Update progress more frequently for better feedback
-      await TrainJob.findOneAndUpdate({ jobId }, {
-        chunksProcessed: i + 1,
-        progress: Math.round(((i + 1) / chunksWithMetadata.length) * 100),
-        successCount,
-        errorCount,
-        skippedCount
-      });
-    }
-
-    if (entries.length === 0) {
-      // Check if all chunks were skipped due to duplicates
-      if (skippedCount > 0 && skippedCount === chunksWithMetadata.length) {
-        console.log(`[DEBUG] All chunks were duplicates for job ${jobId}`);
-        await TrainJob.findOneAndUpdate({ jobId }, {
-          status: 'completed',
-          result: {
-            agentId,
-            chunksStored: 0,
-            totalChunks: chunksWithMetadata.length,
-            successCount: 0,
-            errorCount: 0,
-            skippedCount,
-            fileNames,
-            usedFiles,
-            source,
-            sourceUrl,
-            sourceMetadata,
-            message: 'All content was already trained (duplicates skipped)'
-          }
-        });
-      } else {
-        console.log(`[DEBUG] No chunks processed successfully for job ${jobId}`);
-        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to process any chunks' } });
-      }
-      return;
-    }
-
-    console.log(`[DEBUG] Storing ${entries.length} chunks to database for job ${jobId}`);
-    await Memory.insertMany(entries);
-    console.log(`[DEBUG] Successfully stored ${entries.length} chunks for job ${jobId}`);
-    
-    await TrainJob.findOneAndUpdate({ jobId }, {
-      status: 'completed',
-      result: {
-        agentId,
-        chunksStored: entries.length,
-        totalChunks: chunksWithMetadata.length,
-        successCount,
-        errorCount,
-        skippedCount,
-        fileNames,
-        usedFiles,
-        source,
-        sourceUrl,
-        sourceMetadata
-      }
-    });
-    console.log(`[DEBUG] Training job ${jobId} completed successfully`);
-  } catch (error: unknown) {
-    console.error(`[ERROR] Training job ${jobId} failed:`, error);
-    await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: error instanceof Error ? error.message : String(error) } });
-  }
-}
-
 /**
  * @swagger
  * /api/train:
@@ -463,6 +315,41 @@ async function processTrainingJob(jobId: string, jobData: any) {
  *                 type: string
  *                 description: Type of file being uploaded (required when files are present)
  *                 example: "pdf"
+ *               replaceSourceId:
+ *                 type: string
+ *                 description: sourceId from GET /api/agents/{agentId}/sources. The source's current chunks are removed once this job's chunks are all embedded. At most one file.
+ *               crawl:
+ *                 type: boolean
+ *                 description: Website only. Follow links from sourceUrl across the site; every page is stored as its own source. Honours robots.txt.
+ *                 default: false
+ *               maxPages:
+ *                 type: integer
+ *                 description: Crawl only. Maximum pages to store (server limit CRAWL_MAX_PAGES)
+ *                 default: 20
+ *               maxDepth:
+ *                 type: integer
+ *                 description: Crawl only. Maximum link hops from sourceUrl (0-5)
+ *                 default: 2
+ *               includePaths:
+ *                 type: string
+ *                 description: Crawl only. Comma-separated path patterns to follow (robots.txt syntax, e.g. "/docs/*"). Replaces the default content filter.
+ *                 example: "/docs/,/blog/*"
+ *               excludePaths:
+ *                 type: string
+ *                 description: Crawl only. Comma-separated path patterns never to follow
+ *                 example: "/docs/archive/"
+ *               useSitemap:
+ *                 type: boolean
+ *                 description: Crawl only. Seed the crawl with the site's sitemap.xml
+ *                 default: true
+ *               textColumns:
+ *                 type: string
+ *                 description: CSV and spreadsheet files only. Comma-separated column headers written into each row's chunk text. Defaults to every column not in metadataColumns.
+ *                 example: "Plan,Price,Seats"
+ *               metadataColumns:
+ *                 type: string
+ *                 description: CSV and spreadsheet files only. Comma-separated column headers stored as filterable metadata (chunkMetadata.fields), usable in the ask endpoint's filters
+ *                 example: "Region,Category"
  *               files:
  *                 type: array
  *                 items:
@@ -483,7 +370,7 @@ async function processTrainingJob(jobId: string, jobData: any) {
  *                   example: "train-job-12345"
  *                 status:
  *                   type: string
- *                   enum: [pending, processing, completed, failed]
+ *                   enum: [queued, processing, completed, completed_with_errors, failed, cancelled]
  *                   description: Current status of the training job
  *                 message:
  *                   type: string
@@ -521,6 +408,8 @@ async function processTrainingJob(jobId: string, jobData: any) {
  *                   description: Field that caused the error
  *       401:
  *         description: Unauthorized - Invalid API token
+ *       404:
+ *         description: Agent is not registered (see POST /api/agents), or replaceSourceId is not one of its sources
  *       413:
  *         description: Request too large
  *         content:
@@ -552,24 +441,65 @@ async function processTrainingJob(jobId: string, jobData: any) {
  *                 method:
  *                   type: string
  */
-router.post('/', upload.array('files', SECURITY_CONFIG.MAX_FILES_PER_REQUEST), validateTrainRequest, async (req: Request, res: Response) => {
+router.post('/', requireScope('train'), requireAgentAccess(), assignTrainJobId, uploadFiles, validateTrainRequest, requireAgentAccess(), async (req: Request, res: Response) => {
   try {
-    const { agentId, text, source = 'document', sourceUrl, sourceMetadata = {}, fileType } = req.body;
+    const { agentId, text, source = 'document', sourceUrl, sourceMetadata = {}, fileType, replaceSourceId } = req.body;
     const files = (req as any).files && Array.isArray((req as any).files) ? (req as any).files : [];
-    const jobId = uuidv4();
-    await TrainJob.create({
-      jobId,
-      status: 'queued',
-      progress: 0,
-      error: null,
-      result: null,
-      agentId,
-      fileNames: files.map((f: any) => f.originalname),
-      usedFiles: files.length > 0,
-      createdAt: new Date(),
-      updatedAt: new Date()
+
+    const agent = await AgentService.getAgent(agentId);
+    if (!agent) {
+      return res.status(404).json({
+        error: `Agent '${agentId}' not found. Register it with POST /api/agents before training.`,
+        field: 'agentId'
+      });
+    }
+
+    // Hostnames are resolved here so private and metadata addresses are rejected before a job is queued
+    if (source === 'website') {
+      try {
+        await assertUrlAllowed(sourceUrl);
+      } catch (error) {
+        if (!(error instanceof BlockedUrlError)) throw error;
+        return res.status(400).json({
+          error: error.message,
+          field: 'sourceUrl'
+        });
+      }
+    }
+
+    // Replacing keeps the old version answerable until the new one is fully embedded
+    let replaceSource;
+    if (replaceSourceId !== undefined && replaceSourceId !== '') {
+      replaceSource = typeof replaceSourceId === 'string' ? SourceService.parseSourceId(replaceSourceId) : null;
+      if (!replaceSource) {
+        return res.status(400).json({
+          error: 'replaceSourceId must be a sourceId from GET /api/agents/:agentId/sources',
+          field: 'replaceSourceId'
+        });
+      }
+      if (!(await SourceService.getSource(agentId, replaceSource))) {
+        return res.status(404).json({
+          error: `Agent '${agentId}' has no source '${replaceSourceId}'`,
+          field: 'replaceSourceId'
+        });
+      }
+    }
+
+    const jobId: string = res.locals.jobId;
+    // The job only references the staged files, so it survives restarts and can run on a separate worker
+    await TrainingQueueService.enqueue(jobId, agentId, {
+      text,
+      source,
+      sourceUrl,
+      sourceMetadata,
+      fileType,
+      files: files.map((f: StagedUpload) => ({ originalname: f.originalname, mimetype: f.mimetype, size: f.size, key: f.key })),
+      embeddingProvider: agent.embeddingProvider,
+      ...(replaceSource && { replaceSource }),
+      ...(res.locals.crawl && { crawl: res.locals.crawl }),
+      ...(res.locals.table && { table: res.locals.table })
     });
-    setImmediate(() => processTrainingJob(jobId, { agentId, text, source, sourceUrl, sourceMetadata, fileType, files }));
+    res.locals.jobQueued = true;
     res.json({ jobId, status: 'queued', message: 'Training started. Poll /api/train/status/:jobId for progress.' });
   } catch (error: unknown) {
     res.status(500).json({ error: 'Failed to start training job', details: error instanceof Error ? error.message : String(error) });
@@ -577,13 +507,20 @@ router.post('/', upload.array('files', SECURITY_CONFIG.MAX_FILES_PER_REQUEST), v
 });
 
 // GET /api/train/status/:jobId (DB version)
-router.get('/status/:jobId', async (req: Request, res: Response) => {
+router.get('/status/:jobId', requireScope('train'), async (req: Request, res: Response) => {
   try {
   const { jobId } = req.params;
   const job = await TrainJob.findOne({ jobId });
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
   }
+  if (!hasAgentAccess(req, job.agentId)) {
+    return denyAgentAccess(res, job.agentId);
+  }
+  // Live count: the embedding sweeper clears these as it retries them
+  const pendingEmbeddingCount = job.pendingEmbeddingCount
+    ? await Memory.countDocuments({ trainJobId: jobId, embeddingStatus: 'pending_embedding' })
+    : 0;
   res.json({
     jobId: job.jobId,
     status: job.status,
@@ -597,7 +534,14 @@ router.get('/status/:jobId', async (req: Request, res: Response) => {
     totalChunks: job.totalChunks,
     successCount: job.successCount,
     errorCount: job.errorCount,
-    skippedCount: job.skippedCount
+    skippedCount: job.skippedCount,
+    pendingEmbeddingCount,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    cancelRequested: job.cancelRequested,
+    retryableUntil: job.retryableUntil ?? null,
+    retriedBy: job.retriedBy ?? null,
+    retryOf: job.payload?.retryOf ?? null
   });
   } catch (error: unknown) {
     console.error('Error fetching training job status:', error);
@@ -608,4 +552,155 @@ router.get('/status/:jobId', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/train/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a training job
+ *     description: Queued jobs are cancelled immediately. Running jobs stop at their next progress checkpoint and store no chunks.
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job cancelled, or cancellation requested for a running job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 jobId:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   enum: [cancelled, processing]
+ *                 cancelRequested:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job already finished
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:jobId/cancel', requireScope('train'), async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const existingJob = await TrainJob.findOne({ jobId }).select('agentId');
+    if (!existingJob) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (!hasAgentAccess(req, existingJob.agentId)) {
+      return denyAgentAccess(res, existingJob.agentId);
+    }
+
+    const job = await TrainingQueueService.cancel(jobId);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    // Cancelling an already cancelled job is a no-op that reports success
+    if (job.status === 'completed' || job.status === 'completed_with_errors' || job.status === 'failed') {
+      return res.status(409).json({ error: `Job already ${job.status}`, status: job.status });
+    }
+
+    console.log(`🛑 Cancellation requested for training job ${jobId} (${job.status})`);
+    res.json({
+      jobId: job.jobId,
+      status: job.status,
+      cancelRequested: true,
+      message: job.status === 'cancelled'
+        ? 'Training job cancelled.'
+        : 'Cancellation requested. The job stops at its next checkpoint.'
+    });
+  } catch (error: unknown) {
+    console.error('Error cancelling training job:', error);
+    res.status(500).json({
+      error: 'Failed to cancel training job',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/train/{jobId}/retry:
+ *   post:
+ *     summary: Retry the failed files of a training job
+ *     description: |
+ *       Queues a new job that reprocesses only the files a `completed_with_errors` job failed on. Failed files
+ *       are kept for TRAIN_RETRY_RETENTION_HOURS (default 72) and can be retried once. Poll /api/train/status/{jobId}
+ *       with the returned jobId.
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Retry job queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 jobId:
+ *                   type: string
+ *                   description: ID of the new job
+ *                 retryOf:
+ *                   type: string
+ *                 status:
+ *                   type: string
+ *                   enum: [queued]
+ *                 fileNames:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                 message:
+ *                   type: string
+ *       404:
+ *         description: Job not found
+ *       409:
+ *         description: Job did not complete with errors, was already retried, or its failed files have expired
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:jobId/retry', requireScope('train'), async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const existingJob = await TrainJob.findOne({ jobId }).select('agentId');
+    if (!existingJob) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (!hasAgentAccess(req, existingJob.agentId)) {
+      return denyAgentAccess(res, existingJob.agentId);
+    }
+
+    const retryJob = await TrainingQueueService.retryFailedFiles(jobId);
+    res.status(202).json({
+      jobId: retryJob.jobId,
+      retryOf: jobId,
+      status: retryJob.status,
+      fileNames: retryJob.fileNames,
+      message: `Retrying ${retryJob.fileNames.length} failed files. Poll /api/train/status/${retryJob.jobId} for progress.`
+    });
+  } catch (error: unknown) {
+    if (error instanceof TrainingRetryError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Error retrying training job:', error);
+    res.status(500).json({
+      error: 'Failed to retry training job',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import express, { NextFunction, Request, Response } from 'express';
+import { denyAgentAccess, hasAgentAccess, requireAgentAccess, requireScope } from '../middleware/authorize.js';
 import { ResponseAudit } from '../models/Analytics.js';
 import { WatchdogService } from '../services/watchdog.js';
 import { sanitizeAgentId } from '../utils/security.js';
@@ -167,7 +168,7 @@ const validateAuditRequest = (req: Request, res: Response, next: NextFunction) =
  *       500:
  *         description: Internal server error
  */
-router.post('/audit', validateAuditRequest, async (req: Request, res: Response) => {
+router.post('/audit', requireScope('analytics:read'), requireAgentAccess(), validateAuditRequest, async (req: Request, res: Response) => {
   try {
     const { 
       agentId, 
@@ -294,7 +295,7 @@ router.post('/audit', validateAuditRequest, async (req: Request, res: Response)
  *       500:
  *         description: Internal server error
  */
-router.get('/stats/:agentId', async (req: Request, res: Response) => {
+router.get('/stats/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req: Request, res: Response) => {
   try {
     const { agentId } = req.params;
     const days = parseInt(req.query.days as string) || 30;
@@ -433,7 +434,7 @@ router.get('/stats/:agentId', async (req: Request, res: Response) => {
  *       500:
  *         description: Internal server error
  */
-router.get('/high-risk/:agentId', async (req: Request, res: Response) => {
+router.get('/high-risk/:agentId', requireScope('analytics:read'), requireAgentAccess(), async (req: Request, res: Response) => {
   try {
     const { agentId } = req.params;
     const limit = parseInt(req.query.limit as string) || 10;
@@ -567,7 +568,7 @@ router.get('/high-risk/:agentId', async (req: Request, res: Response) => {
  *         description: Internal server error
  */
 // POST /api/watchdog/review/:id - Mark audit as reviewed
-router.post('/review/:id', async (req: Request, res: Response) => {
+router.post('/review/:id', requireScope('admin'), async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { reviewedBy, reviewNotes, action } = req.body;
@@ -585,6 +586,9 @@ router.post('/review/:id', async (req: Request, res: Response) => {
         error: 'Audit record not found'
       });
     }
+    if (!hasAgentAccess(req, audit.agentId)) {
+      return denyAgentAccess(res, audit.agentId);
+    }
 
     audit.reviewedBy = reviewedBy;
     audit.reviewNotes = reviewNotes;
@@ -675,7 +679,7 @@ router.post('/review/:id', async (req: Request, res: Response) => {
  *         description: Internal server error
  */
 // GET /api/watchdog/config - Get watchdog configuration
-router.get('/config', (req: Request, res: Response) => {
+router.get('/config', requireScope('analytics:read'), (req: Request, res: Response) => {
   const config = WatchdogService.getConfig();
   res.json({
     success: true,
@@ -768,7 +772,7 @@ router.get('/config', (req: Request, res: Response) => {
  *         description: Internal server error
  */
 // POST /api/watchdog/config - Update watchdog configuration
-router.post('/config', (req: Request, res: Response) => {
+router.post('/config', requireScope('admin'), (req: Request, res: Response) => {
   try {
     const { enableAuditing, auditThreshold, criticalThreshold, auditModel, auditVersion } = req.body;
 
@@ -3,6 +3,14 @@ import dotenv from 'dotenv';
 
 import app from './app.js';
 import { closeDB, connectDB } from './config/database.js';
+import { EmbeddingSweeperService } from './services/embeddingSweeper.js';
+import { MemoryPurgeService } from './services/memoryPurge.js';
+import { SourceSyncService } from './services/sourceSync.js';
+import { ReembedService } from './services/reembed.js';
+import { runTrainingJob } from './services/training.js';
+import { TrainingQueueService } from './services/trainingQueue.js';
+import { BrowserPool } from './utils/browserPool.js';
+import { OcrEngine } from './utils/ocr.js';
 
 // Load environment variables
 dotenv.config();
@@ -14,6 +22,23 @@ const startServer = async (): Promise<void> => {
   try {
     await connectDB();
 
+    if (!process.env.AGENT_API_TOKEN) {
+      console.warn('⚠️ AGENT_API_TOKEN is not set: only API keys issued with POST /api/keys are accepted');
+    }
+
+    // Continue re-embedding jobs interrupted by the last shutdown
+    ReembedService.resumeJobs();
+    // Retry embeddings that failed during training
+    EmbeddingSweeperService.start();
+    // Permanently delete purged knowledge once its restore period has ended
+    MemoryPurgeService.start();
+    // Re-sync website sources that have a daily or weekly schedule
+    SourceSyncService.start();
+    // Training jobs run here unless a separate worker process (npm run worker) handles them
+    if (process.env.RUN_TRAINING_WORKER !== 'false') {
+      await TrainingQueueService.startWorker(runTrainingJob);
+    }
+
     app.listen(PORT, () => {
       console.log(`🚀 Server running in ${process.env.NODE_ENV} mode on port ${PORT}`);
       console.log(`📍 Server URL: http://localhost:${PORT}`);
@@ -33,12 +58,18 @@ const startServer = async (): Promise<void> => {
 // Graceful shutdown handling
 process.on('SIGTERM', async () => {
   console.log('SIGTERM received, shutting down gracefully');
+  TrainingQueueService.stopWorker();
+  await BrowserPool.close();
+  await OcrEngine.close();
   await closeDB();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   console.log('SIGINT received, shutting down gracefully');
+  TrainingQueueService.stopWorker();
+  await BrowserPool.close();
+  await OcrEngine.close();
   await closeDB();
   process.exit(0);
 });
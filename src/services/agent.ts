@@ -0,0 +1,137 @@
+import mongoose from 'mongoose';
+import Agent, { IAgent, IAgentRetrievalSettings } from '../models/Agent.js';
+import Conversation from '../models/Conversation.js';
+import Memory from '../models/Memory.js';
+import MemoryPurge from '../models/MemoryPurge.js';
+import SourceSync from '../models/SourceSync.js';
+
+// Fields clients may set through the agents API
+export const AGENT_EDITABLE_FIELDS = [
+  'name',
+  'role',
+  'tone',
+  'do_not_answer_from_general_knowledge',
+  'systemPrompt',
+  'fallbackMessage',
+  'language',
+  'llmProvider',
+  'embeddingProvider',
+  'retrieval'
+] as const;
+
+// A null retrieval setting resets it to the default
+export type AgentInput = Partial<Pick<IAgent, Exclude<typeof AGENT_EDITABLE_FIELDS[number], 'retrieval'>>> & {
+  retrieval?: { [K in keyof IAgentRetrievalSettings]?: number | null };
+};
+
+export class AgentService {
+  /**
+   * Look up an agent in the registry.
+   * Agents trained before the registry existed only have Memory chunks (and possibly metadata in the
+   * legacy `test` database); those are registered on first use so existing deployments keep working.
+   */
+  static async getAgent(agentId: string): Promise<IAgent | null> {
+    const agent = await Agent.findOne({ agentId });
+    if (agent) return agent;
+
+    const hasKnowledge = await Memory.exists({ agentId });
+    if (!hasKnowledge) return null;
+    // Chunks of a deleted agent are still there while its memory purge moves them
+    const purging = await MemoryPurge.exists({ status: 'deleting', $or: [{ scope: 'all' }, { agentId }] });
+    if (purging) return null;
+
+    console.log(`📇 Registering legacy agent ${agentId} found in Memory collection`);
+    const legacy = await this.getLegacyMetadata(agentId);
+    try {
+      return await Agent.create({
+        agentId,
+        name: legacy?.name,
+        role: legacy?.role,
+        tone: legacy?.tone,
+        do_not_answer_from_general_knowledge: legacy?.do_not_answer_from_general_knowledge ?? false
+      });
+    } catch (error: any) {
+      // Another request registered it first
+      if (error?.code === 11000) return Agent.findOne({ agentId });
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether an agent is registered (registering legacy agents as a side effect)
+   */
+  static async agentExists(agentId: string): Promise<boolean> {
+    return (await this.getAgent(agentId)) !== null;
+  }
+
+  static async createAgent(agentId: string, input: AgentInput): Promise<IAgent> {
+    const { retrieval, ...fields } = input;
+    const retrievalSettings: IAgentRetrievalSettings = {};
+    for (const [key, value] of Object.entries(retrieval || {})) {
+      if (value !== null && value !== undefined) {
+        retrievalSettings[key as keyof IAgentRetrievalSettings] = value;
+      }
+    }
+    return Agent.create({ agentId, ...fields, retrieval: retrievalSettings });
+  }
+
+  /**
+   * Update an agent. Retrieval settings are merged key by key so a partial update
+   * doesn't reset the settings it leaves out.
+   */
+  static async updateAgent(agentId: string, input: AgentInput): Promise<IAgent | null> {
+    const { retrieval, ...fields } = input;
+    const $set: Record<string, unknown> = { ...fields };
+    const $unset: Record<string, ''> = {};
+    for (const [key, value] of Object.entries(retrieval || {})) {
+      if (value === null) {
+        $unset[`retrieval.${key}`] = '';
+      } else if (value !== undefined) {
+        $set[`retrieval.${key}`] = value;
+      }
+    }
+
+    return Agent.findOneAndUpdate(
+      { agentId },
+      { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+      { new: true, runValidators: true }
+    );
+  }
+
+  /**
+   * Delete an agent together with its conversations and re-sync schedules. Its knowledge is left to a
+   * memory purge (MemoryPurgeService), so it is recorded and can be restored.
+   */
+  static async deleteAgent(agentId: string): Promise<{ deleted: boolean; conversationsDeleted: number }> {
+    const result = await Agent.deleteOne({ agentId });
+    const conversationResult = await Conversation.deleteMany({ agentId });
+    await SourceSync.deleteMany({ agentId });
+    return {
+      deleted: result.deletedCount > 0,
+      conversationsDeleted: conversationResult.deletedCount
+    };
+  }
+
+  static async listAgents(limit: number = 20, skip: number = 0, agentIds?: string[]): Promise<{ agents: IAgent[]; total: number }> {
+    // agentIds limits the listing to agents an API key may access
+    const filter = agentIds && agentIds.length > 0 ? { agentId: { $in: agentIds } } : {};
+    const [agents, total] = await Promise.all([
+      Agent.find(filter).sort({ updatedAt: -1 }).skip(skip).limit(limit),
+      Agent.countDocuments(filter)
+    ]);
+    return { agents, total };
+  }
+
+  /**
+   * Metadata from the agents collection of the legacy `test` database, if any
+   */
+  private static async getLegacyMetadata(agentId: string): Promise<any | null> {
+    try {
+      return await mongoose.connection.useDb('test').collection('agents').findOne({ agentId });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ No legacy agent metadata found for ${agentId}:`, errorMessage);
+      return null;
+    }
+  }
+}
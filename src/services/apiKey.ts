@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import ApiKey, { ApiKeyScope, IApiKey } from '../models/ApiKey.js';
+
+// What a request is allowed to do, resolved from its API key
+export interface ApiAuthContext {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  agentIds: string[]; // Empty means all agents
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  agentIds?: string[];
+  expiresAt?: Date;
+}
+
+// Key id reported for requests made with AGENT_API_TOKEN
+export const BOOTSTRAP_KEY_ID = 'bootstrap';
+
+export class ApiKeyService {
+  private static config = {
+    keyPrefix: 'ak_',
+    lastUsedWriteIntervalMs: 60 * 1000 // lastUsedAt is only written this often per key
+  };
+
+  static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  static hasScope(auth: ApiAuthContext, scope: ApiKeyScope): boolean {
+    return auth.scopes.includes('admin') || auth.scopes.includes(scope);
+  }
+
+  static canAccessAgent(auth: ApiAuthContext, agentId: string): boolean {
+    return auth.agentIds.length === 0 || auth.agentIds.includes(agentId);
+  }
+
+  /**
+   * Issue a new key. The returned secret is not stored and cannot be retrieved again.
+   */
+  static async createKey(input: ApiKeyInput, createdBy?: string): Promise<{ apiKey: IApiKey; key: string }> {
+    const key = `${this.config.keyPrefix}${crypto.randomBytes(32).toString('base64url')}`;
+    const apiKey = await ApiKey.create({
+      keyId: uuidv4(),
+      name: input.name,
+      keyHash: this.hashKey(key),
+      prefix: key.slice(0, this.config.keyPrefix.length + 6),
+      scopes: Array.from(new Set(input.scopes)),
+      agentIds: Array.from(new Set(input.agentIds || [])),
+      expiresAt: input.expiresAt,
+      createdBy
+    });
+    return { apiKey, key };
+  }
+
+  static async listKeys(includeRevoked: boolean = false): Promise<IApiKey[]> {
+    return ApiKey.find(includeRevoked ? {} : { revokedAt: null }).sort({ createdAt: -1 });
+  }
+
+  static async getKey(keyId: string): Promise<IApiKey | null> {
+    return ApiKey.findOne({ keyId });
+  }
+
+  /**
+   * Revoke a key. Returns null if it does not exist; revoking twice keeps the first revocation time.
+   */
+  static async revokeKey(keyId: string): Promise<IApiKey | null> {
+    const revoked = await ApiKey.findOneAndUpdate(
+      { keyId, revokedAt: null },
+      { $set: { revokedAt: new Date() } },
+      { new: true }
+    );
+    return revoked || ApiKey.findOne({ keyId });
+  }
+
+  /**
+   * Resolve a presented key to its permissions, or null if it is unknown, revoked or expired.
+   * AGENT_API_TOKEN, when set, is accepted as an admin key so the first real keys can be issued.
+   */
+  static async authenticate(key: string): Promise<ApiAuthContext | null> {
+    const bootstrapToken = process.env.AGENT_API_TOKEN;
+    if (bootstrapToken && this.safeEqual(key, bootstrapToken)) {
+      return { keyId: BOOTSTRAP_KEY_ID, name: 'AGENT_API_TOKEN', scopes: ['admin'], agentIds: [] };
+    }
+
+    const apiKey = await ApiKey.findOne({ keyHash: this.hashKey(key) }).lean();
+    if (!apiKey || apiKey.revokedAt) return null;
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) return null;
+
+    const now = Date.now();
+    if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() > this.config.lastUsedWriteIntervalMs) {
+      ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date(now) } })
+        .catch(error => console.error('⚠️ Failed to record API key usage:', error));
+    }
+
+    return {
+      keyId: apiKey.keyId,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      agentIds: apiKey.agentIds
+    };
+  }
+
+  // Compare hashes so the comparison time doesn't depend on where the strings differ
+  private static safeEqual(a: string, b: string): boolean {
+    return crypto.timingSafeEqual(Buffer.from(this.hashKey(a), 'hex'), Buffer.from(this.hashKey(b), 'hex'));
+  }
+}
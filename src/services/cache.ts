@@ -1,5 +1,5 @@
 import Redis from 'ioredis';
-import { embedText } from './gemini.js';
+import { embedText } from './llm.js';
 
 // Redis client configuration
 const redis = new Redis({
@@ -199,7 +199,7 @@ export class CacheService {
   /**
    * Get or generate embedding with caching
    */
-  static async getOrGenerateEmbedding(text: string, agentId: string): Promise<number[]> {
+  static async getOrGenerateEmbedding(text: string, agentId: string, embeddingProvider?: string): Promise<number[]> {
     // Try cache first
     const cached = await this.getCachedEmbedding(text, agentId);
     if (cached) {
@@ -208,7 +208,7 @@ export class CacheService {
 
     // Generate new embedding
     console.log(`🔄 Generating new embedding for: "${text.substring(0, 50)}..."`);
-    const embedding = await embedText(text);
+    const embedding = await embedText(text, embeddingProvider);
     
     // Cache it
     await this.cacheEmbedding(text, embedding, agentId);
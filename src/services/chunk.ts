@@ -0,0 +1,159 @@
+import mongoose from 'mongoose';
+import Memory, { IMemory, IMemorySource } from '../models/Memory.js';
+import { generateContentHash } from '../utils/chunkText.js';
+import { getEmbeddingModelId, getEmbeddingProvider, isUsableEmbedding } from './llm.js';
+import { SourceService } from './source.js';
+
+export interface ChunkFilters {
+  source?: IMemory['source'];
+  sourceUrl?: string;
+  sourceRef?: IMemorySource; // From a sourceId
+  search?: string; // Case-insensitive text search
+  pinned?: boolean;
+  disabled?: boolean;
+}
+
+export interface ChunkUpdate {
+  text?: string;
+  pinned?: boolean;
+  disabled?: boolean;
+}
+
+export interface QaChunkInput {
+  question: string;
+  answer: string;
+}
+
+// Everything except the vectors, which are large and of no use to a reader
+const CHUNK_PROJECTION = '-embedding -reembedding';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Browsing and manual editing of an agent's knowledge chunks
+ */
+export class ChunkService {
+  static isChunkId(chunkId: string): boolean {
+    return mongoose.isValidObjectId(chunkId);
+  }
+
+  /**
+   * Page through an agent's chunks, ordered by source and position within the source
+   */
+  static async listChunks(agentId: string, filters: ChunkFilters, limit: number = 20, skip: number = 0): Promise<{ chunks: IMemory[]; total: number }> {
+    const query: Record<string, unknown> = {
+      agentId,
+      ...(filters.sourceRef && SourceService.toFilter(agentId, filters.sourceRef)),
+      ...(filters.source && { source: filters.source }),
+      ...(filters.sourceUrl && { sourceUrl: filters.sourceUrl }),
+      ...(filters.search && { text: { $regex: escapeRegex(filters.search), $options: 'i' } }),
+      ...(filters.pinned !== undefined && { pinned: filters.pinned ? true : { $ne: true } }),
+      ...(filters.disabled !== undefined && { disabled: filters.disabled ? true : { $ne: true } })
+    };
+
+    const [chunks, total] = await Promise.all([
+      Memory.find(query)
+        .select(CHUNK_PROJECTION)
+        .sort({ source: 1, sourceUrl: 1, chunkIndex: 1, _id: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean<IMemory[]>(),
+      Memory.countDocuments(query)
+    ]);
+    return { chunks, total };
+  }
+
+  static async getChunk(agentId: string, chunkId: string): Promise<IMemory | null> {
+    return Memory.findOne({ _id: chunkId, agentId }).select(CHUNK_PROJECTION).lean<IMemory>();
+  }
+
+  /**
+   * Edit a chunk. New text is re-embedded with the agent's current embedding model and
+   * stored as a new content version. Returns null if the chunk does not exist.
+   */
+  static async updateChunk(agentId: string, chunkId: string, update: ChunkUpdate, editedBy: string, embeddingProvider?: string): Promise<IMemory | null> {
+    const chunk = await Memory.findOne({ _id: chunkId, agentId }).select('text contentVersion chunkMetadata').lean<IMemory>();
+    if (!chunk) return null;
+
+    const $set: Record<string, unknown> = { editedAt: new Date(), editedBy };
+    const $unset: Record<string, ''> = {};
+    if (update.pinned !== undefined) $set.pinned = update.pinned;
+    if (update.disabled !== undefined) $set.disabled = update.disabled;
+
+    if (update.text !== undefined && update.text !== chunk.text) {
+      Object.assign($set, await this.embedForStorage(update.text, embeddingProvider), {
+        text: update.text,
+        contentHash: generateContentHash(update.text),
+        contentVersion: (chunk.contentVersion || 1) + 1,
+        'chunkMetadata.chunkSize': update.text.length
+      });
+      if ($set.embeddingStatus === 'ready') {
+        Object.assign($unset, { embeddingAttempts: '', embeddingError: '', nextEmbeddingAttemptAt: '' });
+      }
+      // A vector staged by a running re-embedding job is for the old text; the job stages it again
+      $unset.reembedding = '';
+    }
+
+    return Memory.findOneAndUpdate(
+      { _id: chunkId, agentId },
+      { $set, ...(Object.keys($unset).length > 0 && { $unset }) },
+      { new: true }
+    ).select(CHUNK_PROJECTION).lean<IMemory>();
+  }
+
+  /**
+   * Add a hand-written question and answer to an agent's knowledge
+   */
+  static async createQaChunk(agentId: string, input: QaChunkInput, editedBy: string, embeddingProvider?: string): Promise<IMemory> {
+    const text = `Q: ${input.question}\nA: ${input.answer}`;
+    const chunk = await Memory.create({
+      agentId,
+      text,
+      ...(await this.embedForStorage(text, embeddingProvider)),
+      source: 'manual',
+      chunkIndex: 0,
+      contentHash: generateContentHash(text),
+      contentVersion: 1,
+      chunkMetadata: {
+        totalChunks: 1,
+        chunkSize: text.length,
+        section: 'qa',
+        question: input.question,
+        answer: input.answer
+      },
+      sourceMetadata: { title: input.question },
+      editedAt: new Date(),
+      editedBy
+    });
+
+    const { embedding, ...rest } = chunk.toObject();
+    return rest as IMemory;
+  }
+
+  /**
+   * Embedding fields for text. If the provider fails the chunk is stored as pending_embedding
+   * and the embedding sweeper retries it, as in training.
+   */
+  private static async embedForStorage(text: string, embeddingProvider?: string): Promise<Partial<IMemory>> {
+    const embedder = getEmbeddingProvider(embeddingProvider);
+    const embeddingModel = getEmbeddingModelId(embedder);
+    try {
+      const embedding = await embedder.embedText(text);
+      if (!isUsableEmbedding(embedding)) {
+        throw new Error('Embedding provider returned an empty vector');
+      }
+      return { embedding, embeddingModel, embeddingDimensions: embedding.length, embeddingStatus: 'ready' };
+    } catch (error) {
+      console.log(`[WARNING] Embedding failed, storing chunk as pending_embedding: ${error}`);
+      return {
+        embedding: [],
+        embeddingModel,
+        embeddingDimensions: embedder.dimensions,
+        embeddingStatus: 'pending_embedding',
+        embeddingAttempts: 1,
+        embeddingError: error instanceof Error ? error.message : String(error),
+        nextEmbeddingAttemptAt: new Date()
+      };
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import Conversation, { IConversation, IConversationTurn } from '../models/Conversation.js';
+import { generateReply } from './llm.js';
+
+export interface ConversationConfig {
+  historyTurns: number; // Turns included in the prompt and used for rewriting
+  maxStoredTurns: number; // Older turns are dropped once a conversation grows past this
+  maxTurnLength: number; // Long replies are truncated when replayed into prompts
+}
+
+export class ConversationService {
+  private static config: ConversationConfig = {
+    historyTurns: 6,
+    maxStoredTurns: 200,
+    maxTurnLength: 1000
+  };
+
+  /**
+   * Find a conversation by ID (returns null if it does not exist yet)
+   */
+  static async getConversation(conversationId: string): Promise<IConversation | null> {
+    return Conversation.findOne({ conversationId });
+  }
+
+  /**
+   * Create an empty conversation for an agent
+   */
+  static async createConversation(conversationId: string, agentId: string, sessionId?: string): Promise<IConversation> {
+    return Conversation.create({ conversationId, agentId, sessionId, turns: [] });
+  }
+
+  /**
+   * Most recent turns of a conversation, oldest first
+   */
+  static getRecentTurns(conversation: IConversation | null): IConversationTurn[] {
+    if (!conversation || !conversation.turns) return [];
+    return conversation.turns.slice(-this.config.historyTurns);
+  }
+
+  /**
+   * Render turns as plain text for use inside prompts
+   */
+  static formatHistory(turns: IConversationTurn[]): string {
+    return turns
+      .map(turn => {
+        const speaker = turn.role === 'user' ? 'User' : 'Assistant';
+        const content = turn.content.length > this.config.maxTurnLength
+          ? `${turn.content.substring(0, this.config.maxTurnLength)}...`
+          : turn.content;
+        return `${speaker}: ${content}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Rewrite a follow-up question into a standalone question using the conversation history.
+   * Falls back to the original question if rewriting fails or produces something unusable.
+   */
+  static async rewriteQuestion(question: string, history: IConversationTurn[], llmProvider?: string): Promise<string> {
+    if (history.length === 0) return question;
+
+    const prompt = `
+You rewrite follow-up questions for a search system.
+
+Given the conversation below and a follow-up question, rewrite the follow-up question so that it can be understood without the conversation.
+- Resolve pronouns and references ("it", "that", "they", "the first one") using the conversation
+- Keep the original language and meaning
+- If the question is already standalone, return it unchanged
+- Return ONLY the rewritten question, with no explanation or quotes
+
+Conversation:
+${this.formatHistory(history)}
+
+Follow-up question: ${question}
+
+Standalone question:`;
+
+    try {
+      const rewritten = (await generateReply(prompt, llmProvider)).trim().replace(/^["']|["']$/g, '');
+      if (
+        !rewritten ||
+        rewritten.length > Math.max(question.length * 4, 500) ||
+        rewritten.includes("I'm currently experiencing technical difficulties")
+      ) {
+        return question;
+      }
+      console.log(`🔁 Rewrote follow-up question: "${question}" → "${rewritten}"`);
+      return rewritten;
+    } catch (error) {
+      console.error('❌ Question rewriting failed, using original question:', error);
+      return question;
+    }
+  }
+
+  /**
+   * Append a question/answer exchange, creating the conversation if needed
+   */
+  static async appendExchange(
+    conversationId: string,
+    agentId: string,
+    question: string,
+    standaloneQuestion: string,
+    reply: string,
+    questionId?: string,
+    confidence?: number,
+    sessionId?: string
+  ): Promise<void> {
+    try {
+      const now = new Date();
+      const turns: IConversationTurn[] = [
+        {
+          role: 'user',
+          content: question,
+          standaloneQuestion: standaloneQuestion !== question ? standaloneQuestion : undefined,
+          timestamp: now
+        },
+        { role: 'assistant', content: reply, questionId, confidence, timestamp: now }
+      ];
+
+      await Conversation.updateOne(
+        { conversationId, agentId },
+        {
+          $push: { turns: { $each: turns, $slice: -this.config.maxStoredTurns } },
+          $setOnInsert: { sessionId }
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      console.error('❌ Failed to store conversation turns:', error);
+    }
+  }
+
+  /**
+   * List conversations for an agent, most recently active first
+   */
+  static async listConversations(agentId: string, limit: number = 20, skip: number = 0) {
+    const [conversations, total] = await Promise.all([
+      Conversation.aggregate([
+        { $match: { agentId } },
+        { $sort: { updatedAt: -1 } },
+        { $skip: skip },
+        { $limit: limit },
+        {
+          $project: {
+            _id: 0,
+            conversationId: 1,
+            agentId: 1,
+            createdAt: 1,
+            updatedAt: 1,
+            turnCount: { $size: '$turns' },
+            lastTurn: { $arrayElemAt: ['$turns', -1] }
+          }
+        }
+      ]),
+      Conversation.countDocuments({ agentId })
+    ]);
+    return { conversations, total };
+  }
+
+  /**
+   * Delete a conversation and all of its turns
+   */
+  static async deleteConversation(conversationId: string): Promise<boolean> {
+    const result = await Conversation.deleteOne({ conversationId });
+    return result.deletedCount > 0;
+  }
+}
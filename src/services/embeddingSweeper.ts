@@ -0,0 +1,131 @@
+import Memory, { LEGACY_EMBEDDING_MODEL } from '../models/Memory.js';
+import { SourceService } from './source.js';
+import { getEmbeddingModelId, getEmbeddingProvider, isProviderName, isUsableEmbedding } from './llm.js';
+
+export interface EmbeddingSweeperConfig {
+  intervalMs: number; // How often pending chunks are checked
+  batchSize: number; // Chunks retried per sweep
+  baseRetryDelayMs: number; // Delay after the first failure, doubled on each further failure
+  maxRetryDelayMs: number;
+  claimMs: number; // How long a chunk is reserved while being retried, so instances don't retry it twice
+}
+
+/**
+ * Retries embeddings for chunks stored as pending_embedding (training keeps the chunk when the
+ * embedding provider fails, instead of storing an unsearchable zero vector).
+ */
+export class EmbeddingSweeperService {
+  private static config: EmbeddingSweeperConfig = {
+    intervalMs: parseInt(process.env.EMBEDDING_SWEEP_INTERVAL_MS || '60000'),
+    batchSize: 25,
+    baseRetryDelayMs: 60 * 1000,
+    maxRetryDelayMs: 60 * 60 * 1000,
+    claimMs: 5 * 60 * 1000
+  };
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static sweeping = false;
+
+  static start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), this.config.intervalMs);
+    this.timer.unref();
+    console.log(`🧹 Embedding sweeper started (every ${Math.round(this.config.intervalMs / 1000)}s)`);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Retry one batch of pending chunks whose retry time has come
+   */
+  static async sweep(): Promise<{ attempted: number; fixed: number; failed: number }> {
+    const summary = { attempted: 0, fixed: 0, failed: 0 };
+    if (this.sweeping) return summary;
+    this.sweeping = true;
+
+    try {
+      const now = new Date();
+      const fixedJobIds = new Set<string>();
+      const due = await Memory.find({
+        embeddingStatus: 'pending_embedding',
+        $or: [{ nextEmbeddingAttemptAt: { $lte: now } }, { nextEmbeddingAttemptAt: null }]
+      })
+        .sort({ nextEmbeddingAttemptAt: 1 })
+        .limit(this.config.batchSize)
+        .select('_id text embeddingModel embeddingAttempts nextEmbeddingAttemptAt trainJobId')
+        .lean();
+
+      for (const chunk of due) {
+        // Claim the chunk; another instance may have picked it up since the query above
+        const claimed = await Memory.findOneAndUpdate(
+          { _id: chunk._id, embeddingStatus: 'pending_embedding', nextEmbeddingAttemptAt: chunk.nextEmbeddingAttemptAt ?? null },
+          { $set: { nextEmbeddingAttemptAt: new Date(Date.now() + this.config.claimMs) } }
+        );
+        if (!claimed) continue;
+
+        summary.attempted++;
+        const embeddingModel = chunk.embeddingModel || LEGACY_EMBEDDING_MODEL;
+        try {
+          // The vector must come from the same model as the rest of the agent's chunks
+          const providerName = embeddingModel.split(':')[0];
+          if (!isProviderName(providerName)) {
+            throw new Error(`Unknown embedding provider in '${embeddingModel}'`);
+          }
+          const provider = getEmbeddingProvider(providerName);
+          if (getEmbeddingModelId(provider) !== embeddingModel) {
+            throw new Error(`Embedding model '${embeddingModel}' is no longer configured; re-embed the agent to move it to ${getEmbeddingModelId(provider)}`);
+          }
+
+          const embedding = await provider.embedText(chunk.text);
+          if (!isUsableEmbedding(embedding)) {
+            throw new Error('Embedding provider returned an empty vector');
+          }
+
+          await Memory.updateOne(
+            { _id: chunk._id, embeddingStatus: 'pending_embedding' },
+            {
+              $set: { embedding, embeddingDimensions: embedding.length, embeddingStatus: 'ready' },
+              $unset: { embeddingAttempts: '', embeddingError: '', nextEmbeddingAttemptAt: '' }
+            }
+          );
+          summary.fixed++;
+          if (chunk.trainJobId) fixedJobIds.add(chunk.trainJobId);
+        } catch (error) {
+          const attempts = (chunk.embeddingAttempts || 0) + 1;
+          const delay = Math.min(this.config.baseRetryDelayMs * Math.pow(2, attempts - 1), this.config.maxRetryDelayMs);
+          await Memory.updateOne(
+            { _id: chunk._id },
+            {
+              $set: {
+                embeddingAttempts: attempts,
+                embeddingError: error instanceof Error ? error.message : String(error),
+                nextEmbeddingAttemptAt: new Date(Date.now() + delay)
+              }
+            }
+          );
+          summary.failed++;
+        }
+      }
+
+      // Source replacements wait for all of their chunks to be embedded
+      for (const jobId of fixedJobIds) {
+        await SourceService.completeReplacement(jobId);
+      }
+
+      if (summary.attempted > 0) {
+        console.log(`🧹 Embedding sweep: ${summary.fixed} fixed, ${summary.failed} still pending`);
+      }
+    } catch (error) {
+      console.error('❌ Embedding sweep failed:', error);
+    } finally {
+      this.sweeping = false;
+    }
+
+    return summary;
+  }
+}
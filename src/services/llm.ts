@@ -0,0 +1,103 @@
+import dotenv from 'dotenv';
+import { GeminiProvider } from './providers/gemini.js';
+import { OpenAICompatibleProvider } from './providers/openai.js';
+import { StubProvider } from './providers/stub.js';
+import { EmbeddingProvider, LLMProvider, PROVIDER_NAMES, ProviderName } from './providers/types.js';
+
+dotenv.config();
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+function readProviderEnv(variable: string, fallback: ProviderName): ProviderName {
+  const value = process.env[variable];
+  if (!value) return fallback;
+  if (!isProviderName(value)) {
+    console.warn(`⚠️ Unknown provider '${value}' in ${variable}, using '${fallback}'. Allowed: ${PROVIDER_NAMES.join(', ')}`);
+    return fallback;
+  }
+  return value;
+}
+
+// Deployment-wide defaults; agents can override both with llmProvider / embeddingProvider
+export const DEFAULT_LLM_PROVIDER = readProviderEnv('LLM_PROVIDER', 'gemini');
+export const DEFAULT_EMBEDDING_PROVIDER = readProviderEnv('EMBEDDING_PROVIDER', DEFAULT_LLM_PROVIDER);
+
+// Providers are created on first use so a deployment only needs credentials for the ones it uses
+const providers: Partial<Record<ProviderName, LLMProvider & EmbeddingProvider>> = {};
+
+function getProvider(name: ProviderName): LLMProvider & EmbeddingProvider {
+  if (!providers[name]) {
+    switch (name) {
+      case 'gemini':
+        providers[name] = new GeminiProvider();
+        break;
+      case 'openai':
+        providers[name] = new OpenAICompatibleProvider();
+        break;
+      case 'stub':
+        providers[name] = new StubProvider();
+        break;
+    }
+  }
+  return providers[name]!;
+}
+
+/**
+ * Provider used for text generation (the agent's choice, or the deployment default)
+ */
+export function getLLMProvider(name?: string | null): LLMProvider {
+  return getProvider(isProviderName(name) ? name : DEFAULT_LLM_PROVIDER);
+}
+
+/**
+ * Provider used for embeddings (the agent's choice, or the deployment default)
+ */
+export function getEmbeddingProvider(name?: string | null): EmbeddingProvider {
+  return getProvider(isProviderName(name) ? name : DEFAULT_EMBEDDING_PROVIDER);
+}
+
+/**
+ * Identifier stored on Memory chunks; vectors are only comparable when it matches
+ */
+export function getEmbeddingModelId(provider: EmbeddingProvider): string {
+  return `${provider.name}:${provider.embeddingModel}`;
+}
+
+/**
+ * Whether a vector can be stored and searched (empty and all-zero vectors never match anything)
+ */
+export function isUsableEmbedding(embedding: number[] | null | undefined): embedding is number[] {
+  return Array.isArray(embedding) && embedding.length > 0 && embedding.some(value => value !== 0);
+}
+
+export async function embedText(text: string, providerName?: string | null): Promise<number[]> {
+  return getEmbeddingProvider(providerName).embedText(text);
+}
+
+export async function generateReply(promptText: string, providerName?: string | null): Promise<string> {
+  return getLLMProvider(providerName).generateReply(promptText);
+}
+
+export function generateReplyStream(promptText: string, providerName?: string | null): AsyncGenerator<string> {
+  return getLLMProvider(providerName).generateReplyStream(promptText);
+}
+
+// Provider status for the health endpoint
+export function getProviderStatus() {
+  return {
+    defaultLLMProvider: DEFAULT_LLM_PROVIDER,
+    defaultEmbeddingProvider: DEFAULT_EMBEDDING_PROVIDER,
+    initialized: Object.fromEntries(
+      Object.entries(providers).map(([name, provider]) => [
+        name,
+        {
+          model: provider!.model,
+          embeddingModel: provider!.embeddingModel,
+          ...provider!.getStatus?.()
+        }
+      ])
+    )
+  };
+}
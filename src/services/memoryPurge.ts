@@ -0,0 +1,251 @@
+import mongoose, { Model } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Memory from '../models/Memory.js';
+import MemoryPurge, { DeletedMemory, IMemoryPurge, IMemoryPurgeSummary } from '../models/MemoryPurge.js';
+import { SourceSyncService } from './sourceSync.js';
+
+export interface MemoryPurgeConfig {
+  retentionDays: number; // How long purged chunks can be restored
+  batchSize: number; // Chunks moved per batch
+  sweepIntervalMs: number; // How often expired purges are deleted for good
+}
+
+export type MemoryPurgeScope = { scope: 'all' } | { scope: 'agent'; agentId: string };
+
+// Error for purge state problems (e.g. restoring an expired purge); the route turns it into a 409
+export class MemoryPurgeStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MemoryPurgeStateError';
+  }
+}
+
+/**
+ * Purges agent knowledge in two steps: chunks are first moved to the memories_deleted collection,
+ * where they can be restored, and deleted for good once the retention period has passed.
+ * Every purge leaves a MemoryPurge audit record.
+ */
+export class MemoryPurgeService {
+  private static config: MemoryPurgeConfig = {
+    retentionDays: parseInt(process.env.MEMORY_SOFT_DELETE_DAYS || '7'),
+    batchSize: 500,
+    sweepIntervalMs: 60 * 60 * 1000
+  };
+
+  private static timer: NodeJS.Timeout | null = null;
+
+  // Purges moving chunks in this process, so a resume never runs the same purge twice
+  private static running = new Set<string>();
+
+  private static toFilter(target: MemoryPurgeScope): Record<string, unknown> {
+    return target.scope === 'agent' ? { agentId: target.agentId } : {};
+  }
+
+  /**
+   * Chunks a purge would remove, by agent and source
+   */
+  static async summarize(target: MemoryPurgeScope): Promise<IMemoryPurgeSummary> {
+    const groups = await Memory.aggregate([
+      { $match: this.toFilter(target) },
+      { $group: { _id: { agentId: '$agentId', source: '$source' }, chunks: { $sum: 1 } } }
+    ]);
+
+    const byAgent = new Map<string, { agentId: string; chunks: number; bySource: Record<string, number> }>();
+    for (const group of groups) {
+      const agentId: string = group._id.agentId;
+      const entry = byAgent.get(agentId) || { agentId, chunks: 0, bySource: {} as Record<string, number> };
+      entry.chunks += group.chunks;
+      entry.bySource[group._id.source || 'unknown'] = group.chunks;
+      byAgent.set(agentId, entry);
+    }
+
+    const agents = Array.from(byAgent.values()).sort((a, b) => b.chunks - a.chunks);
+    return {
+      totalChunks: agents.reduce((sum, agent) => sum + agent.chunks, 0),
+      byAgent: agents
+    };
+  }
+
+  /**
+   * Record the purge and move its chunks to the restorable trash in the background. The purge is
+   * 'deleting' until every chunk has moved; poll it with getPurge.
+   */
+  static async startSoftDelete(target: MemoryPurgeScope, requestedBy: string): Promise<IMemoryPurge> {
+    const summary = await this.summarize(target);
+    const purge = await MemoryPurge.create({
+      purgeId: uuidv4(),
+      scope: target.scope,
+      agentId: target.scope === 'agent' ? target.agentId : undefined,
+      status: 'deleting',
+      summary,
+      requestedBy
+    });
+    console.log(`🗑️ Purge ${purge.purgeId}: soft-deleting ${summary.totalChunks} chunks (${target.scope === 'agent' ? `agent ${target.agentId}` : 'all agents'}) requested by ${requestedBy}`);
+
+    // Scheduled re-syncs would scrape the purged pages back in; they resume if the purge is restored
+    const pausedSyncs = await SourceSyncService.pauseForPurge(purge.purgeId, target.scope === 'agent' ? target.agentId : undefined);
+    if (pausedSyncs > 0) {
+      console.log(`⏸️ Purge ${purge.purgeId}: paused ${pausedSyncs} scheduled re-syncs`);
+    }
+
+    setImmediate(() => this.runSoftDelete(purge.purgeId));
+    return purge;
+  }
+
+  /**
+   * Pick up purges interrupted by a restart; chunks already moved are skipped
+   */
+  static async resumePurges(): Promise<void> {
+    try {
+      const purges = await MemoryPurge.find({ status: 'deleting' }).select('purgeId');
+      for (const purge of purges) {
+        console.log(`🔁 Resuming purge ${purge.purgeId}`);
+        setImmediate(() => this.runSoftDelete(purge.purgeId));
+      }
+    } catch (error) {
+      console.error('❌ Failed to resume memory purges:', error);
+    }
+  }
+
+  private static async runSoftDelete(purgeId: string): Promise<void> {
+    if (this.running.has(purgeId)) return;
+    this.running.add(purgeId);
+
+    const purge = await MemoryPurge.findOne({ purgeId }).catch(() => null);
+    if (!purge || purge.status !== 'deleting') {
+      this.running.delete(purgeId);
+      return;
+    }
+    const target: MemoryPurgeScope = purge.scope === 'agent' ? { scope: 'agent', agentId: purge.agentId! } : { scope: 'all' };
+
+    try {
+      const deletedAt = new Date();
+      // A resumed purge counts the chunks it moved before the restart too
+      let deletedCount = await DeletedMemory.countDocuments({ purgeId });
+      // Chunks trained while the purge runs are picked up by later batches
+      while (true) {
+        const batch = await Memory.find(this.toFilter(target)).limit(this.config.batchSize).lean();
+        if (batch.length === 0) break;
+
+        await this.insertIgnoringDuplicates(DeletedMemory, batch.map(chunk => ({ ...chunk, purgeId, deletedAt })));
+        const result = await Memory.deleteMany({ _id: { $in: batch.map(chunk => chunk._id) } });
+        deletedCount += result.deletedCount;
+      }
+
+      purge.status = 'soft_deleted';
+      purge.deletedCount = deletedCount;
+      purge.restoreUntil = new Date(Date.now() + this.config.retentionDays * 24 * 60 * 60 * 1000);
+      await purge.save();
+      console.log(`🗑️ Purge ${purgeId}: ${deletedCount} chunks restorable until ${purge.restoreUntil.toISOString()}`);
+    } catch (error) {
+      // Chunks moved so far stay in the trash under this purgeId and can still be restored
+      console.error(`❌ Purge ${purgeId} failed:`, error);
+      purge.status = 'failed';
+      purge.error = { error: error instanceof Error ? error.message : String(error) };
+      purge.restoreUntil = new Date(Date.now() + this.config.retentionDays * 24 * 60 * 60 * 1000);
+      await purge.save().catch(() => undefined);
+    } finally {
+      this.running.delete(purgeId);
+    }
+  }
+
+  /**
+   * Move a purge's chunks back into Memory
+   */
+  static async restore(purgeId: string, restoredBy: string): Promise<IMemoryPurge | null> {
+    const purge = await MemoryPurge.findOne({ purgeId });
+    if (!purge) return null;
+    if (purge.status !== 'soft_deleted' && purge.status !== 'failed') {
+      throw new MemoryPurgeStateError(`Purge is ${purge.status} and cannot be restored`);
+    }
+    if (!purge.restoreUntil || purge.restoreUntil.getTime() <= Date.now()) {
+      throw new MemoryPurgeStateError('The restore period for this purge has ended');
+    }
+
+    let restoredCount = 0;
+    while (true) {
+      const batch = await DeletedMemory.find({ purgeId }).limit(this.config.batchSize).lean();
+      if (batch.length === 0) break;
+
+      await this.insertIgnoringDuplicates(Memory, batch.map(({ purgeId: _purgeId, deletedAt: _deletedAt, ...chunk }) => chunk));
+      const result = await DeletedMemory.deleteMany({ _id: { $in: batch.map(chunk => chunk._id) } });
+      restoredCount += result.deletedCount;
+    }
+
+    purge.status = 'restored';
+    purge.restoredAt = new Date();
+    purge.restoredBy = restoredBy;
+    purge.restoredCount = restoredCount;
+    await purge.save();
+    console.log(`♻️ Purge ${purgeId}: restored ${restoredCount} chunks (requested by ${restoredBy})`);
+
+    const resumedSyncs = await SourceSyncService.resumeAfterPurge(purgeId);
+    if (resumedSyncs > 0) {
+      console.log(`▶️ Purge ${purgeId}: resumed ${resumedSyncs} scheduled re-syncs`);
+    }
+    return purge;
+  }
+
+  static async getPurge(purgeId: string): Promise<IMemoryPurge | null> {
+    return MemoryPurge.findOne({ purgeId });
+  }
+
+  /**
+   * Most recent purges; agentIds limits the list to purges of those agents
+   */
+  static async listPurges(limit: number = 20, agentIds?: string[]): Promise<IMemoryPurge[]> {
+    const filter = agentIds && agentIds.length > 0 ? { scope: 'agent', agentId: { $in: agentIds } } : {};
+    return MemoryPurge.find(filter).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  /**
+   * Permanently delete chunks of purges whose restore period has ended
+   */
+  static async purgeExpired(): Promise<number> {
+    let purged = 0;
+    try {
+      const expired = await MemoryPurge.find({
+        status: { $in: ['soft_deleted', 'failed'] },
+        restoreUntil: { $lte: new Date() }
+      });
+      for (const purge of expired) {
+        const result = await DeletedMemory.deleteMany({ purgeId: purge.purgeId });
+        await MemoryPurge.updateOne({ purgeId: purge.purgeId }, { $set: { status: 'purged', purgedAt: new Date() } });
+        console.log(`🔥 Purge ${purge.purgeId}: permanently deleted ${result.deletedCount} chunks`);
+        purged++;
+      }
+    } catch (error) {
+      console.error('❌ Failed to delete expired purges:', error);
+    }
+    return purged;
+  }
+
+  static start(): void {
+    if (this.timer) return;
+    this.resumePurges();
+    this.purgeExpired();
+    this.timer = setInterval(() => this.purgeExpired(), this.config.sweepIntervalMs);
+    this.timer.unref();
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Makes moves resumable: documents copied by an interrupted attempt are skipped
+  private static async insertIgnoringDuplicates<T>(model: Model<T>, docs: Record<string, unknown>[]): Promise<void> {
+    try {
+      await model.insertMany(docs, { ordered: false });
+    } catch (error) {
+      if (!(error instanceof mongoose.mongo.MongoBulkWriteError)) throw error;
+      const writeErrors = Array.isArray(error.writeErrors) ? error.writeErrors : [error.writeErrors];
+      // Mongoose copies each WriteError into a plain object, which drops its `code` getter
+      if (writeErrors.length === 0 || writeErrors.some(writeError => (writeError.code ?? writeError.err?.code) !== 11000)) {
+        throw error;
+      }
+    }
+  }
+}
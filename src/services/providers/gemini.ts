@@ -0,0 +1,210 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import dotenv from 'dotenv';
+import { EmbeddingProvider, LLMProvider, PROVIDER_FALLBACK_REPLY } from './types.js';
+
+dotenv.config();
+
+// Gather all Gemini API keys from env (shared with the audio, video and YouTube processors)
+export function getGeminiApiKeys(): string[] {
+  const keys: string[] = [];
+  if (process.env.GEMINI_API_KEY) keys.push(process.env.GEMINI_API_KEY);
+  for (let i = 1; i <= 10; i++) {
+    const key = process.env[`GEMINI_API_KEY_${i}`];
+    if (key && !keys.includes(key)) keys.push(key);
+  }
+  return keys;
+}
+
+export class GeminiProvider implements LLMProvider, EmbeddingProvider {
+  readonly name = 'gemini' as const;
+  readonly model = process.env.GEMINI_CHAT_MODEL || 'gemini-2.5-flash';
+  readonly embeddingModel = process.env.GEMINI_EMBEDDING_MODEL || 'models/text-embedding-004';
+  readonly dimensions = 768;
+  readonly maxBatchSize = 100;
+
+  private apiKeys: string[];
+  private currentApiKeyIndex: number = 0;
+  private clients: GoogleGenAI[] = [];
+
+  constructor() {
+    // Initialize API keys from environment variables
+    this.apiKeys = getGeminiApiKeys();
+
+    if (this.apiKeys.length === 0) {
+      throw new Error('No Gemini API keys found in environment variables');
+    }
+
+    // Initialize clients for each API key
+    this.clients = this.apiKeys.map(key => new GoogleGenAI({ apiKey: key }));
+    
+    console.log(`🔑 Initialized Gemini service with ${this.apiKeys.length} API keys`);
+  }
+
+  private switchApiKey(): void {
+    this.currentApiKeyIndex = (this.currentApiKeyIndex + 1) % this.apiKeys.length;
+    console.log(`🔄 Switched to API key ${this.currentApiKeyIndex + 1}/${this.apiKeys.length}`);
+  }
+
+  private getCurrentClient(): GoogleGenAI {
+    return this.clients[this.currentApiKeyIndex];
+  }
+
+  async embedText(text: string, retryCount: number = 0, maxRetries: number = 3): Promise<number[]> {
+    try {
+      const ai = this.getCurrentClient();
+      const res = await ai.models.embedContent({
+        model: this.embeddingModel, // 768 dimensions
+        contents: text
+      });
+      
+      return res.embeddings?.[0]?.values ?? [];
+    } catch (error: any) {
+      if (retryCount < maxRetries) {
+        if (error.message?.includes("429") || error.message?.includes("Too Many Requests")) {
+          console.error(`🚨 API key ${this.currentApiKeyIndex + 1} limit exhausted, switching...`);
+          this.switchApiKey();
+          await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds
+          return this.embedText(text, retryCount + 1, maxRetries);
+        } else if (error.message?.includes("503") || error.message?.includes("Service Unavailable")) {
+          console.error("⏳ Service is unavailable. Retrying in 3 seconds...");
+          await new Promise((resolve) => setTimeout(resolve, 3000));
+          return this.embedText(text, retryCount + 1, maxRetries);
+        } else if (error.message?.includes("500") || error.message?.includes("Internal Server Error")) {
+          console.error("⚠️ Internal server error. Retrying in 2 seconds...");
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+          return this.embedText(text, retryCount + 1, maxRetries);
+        } else {
+          console.error("⚠️ Error embedding text:", error.message);
+          throw error;
+        }
+      } else {
+        // A zero vector can never be retrieved, so callers decide how to handle the failure
+        console.error("❌ Maximum retry attempts reached for embedding.");
+        throw new Error(`Embedding failed after ${maxRetries} retries: ${error.message}`);
+      }
+    }
+  }
+
+  async embedBatch(texts: string[], retryCount: number = 0, maxRetries: number = 3): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    try {
+      const ai = this.getCurrentClient();
+      const res = await ai.models.embedContent({
+        model: this.embeddingModel,
+        contents: texts
+      });
+
+      const vectors = (res.embeddings ?? []).map(embedding => embedding.values ?? []);
+      if (vectors.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}`);
+      }
+      return vectors;
+    } catch (error: any) {
+      if (retryCount < maxRetries) {
+        if (error.message?.includes("429") || error.message?.includes("Too Many Requests")) {
+          console.error(`🚨 API key ${this.currentApiKeyIndex + 1} limit exhausted, switching...`);
+          this.switchApiKey();
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+          return this.embedBatch(texts, retryCount + 1, maxRetries);
+        } else if (error.message?.includes("503") || error.message?.includes("500")) {
+          console.error("⏳ Batch embedding failed on the server side. Retrying in 3 seconds...");
+          await new Promise((resolve) => setTimeout(resolve, 3000));
+          return this.embedBatch(texts, retryCount + 1, maxRetries);
+        }
+        console.error("⚠️ Error embedding batch:", error.message);
+        throw error;
+      }
+      console.error("❌ Maximum retry attempts reached for batch embedding.");
+      throw new Error(`Batch embedding failed after ${maxRetries} retries: ${error.message}`);
+    }
+  }
+
+  async generateReply(promptText: string, retryCount: number = 0, maxRetries: number = 3): Promise<string> {
+    try {
+      const ai = this.getCurrentClient();
+      const response = await ai.models.generateContent({
+        model: this.model,
+        contents: promptText
+      });
+      
+      return response.text || "No response generated";
+    } catch (error: any) {
+      if (retryCount < maxRetries) {
+        if (error.message?.includes("429") || error.message?.includes("Too Many Requests")) {
+          console.error(`🚨 API key ${this.currentApiKeyIndex + 1} limit exhausted, switching...`);
+          this.switchApiKey();
+          await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds
+          return this.generateReply(promptText, retryCount + 1, maxRetries);
+        } else if (error.message?.includes("503") || error.message?.includes("Service Unavailable")) {
+          console.error("⏳ Service is unavailable. Retrying in 3 seconds...");
+          await new Promise((resolve) => setTimeout(resolve, 3000));
+          return this.generateReply(promptText, retryCount + 1, maxRetries);
+        } else if (error.message?.includes("500") || error.message?.includes("Internal Server Error")) {
+          console.error("⚠️ Internal server error. Retrying in 2 seconds...");
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+          return this.generateReply(promptText, retryCount + 1, maxRetries);
+        } else {
+          console.error("⚠️ Error generating reply:", error.message);
+          throw error;
+        }
+      } else {
+        console.error("❌ Maximum retry attempts reached for generation. Using fallback response.");
+        // Return a fallback response instead of crashing
+        return PROVIDER_FALLBACK_REPLY;
+      }
+    }
+  }
+
+  async *generateReplyStream(promptText: string, retryCount: number = 0, maxRetries: number = 3): AsyncGenerator<string> {
+    let stream: AsyncGenerator<GenerateContentResponse>;
+    try {
+      const ai = this.getCurrentClient();
+      stream = await ai.models.generateContentStream({
+        model: this.model,
+        contents: promptText
+      });
+    } catch (error: any) {
+      // Retries are only possible before the first token has been sent to the caller
+      if (retryCount < maxRetries) {
+        if (error.message?.includes("429") || error.message?.includes("Too Many Requests")) {
+          console.error(`🚨 API key ${this.currentApiKeyIndex + 1} limit exhausted, switching...`);
+          this.switchApiKey();
+          await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds
+          yield* this.generateReplyStream(promptText, retryCount + 1, maxRetries);
+          return;
+        } else if (error.message?.includes("503") || error.message?.includes("Service Unavailable")) {
+          console.error("⏳ Service is unavailable. Retrying in 3 seconds...");
+          await new Promise((resolve) => setTimeout(resolve, 3000));
+          yield* this.generateReplyStream(promptText, retryCount + 1, maxRetries);
+          return;
+        } else if (error.message?.includes("500") || error.message?.includes("Internal Server Error")) {
+          console.error("⚠️ Internal server error. Retrying in 2 seconds...");
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+          yield* this.generateReplyStream(promptText, retryCount + 1, maxRetries);
+          return;
+        } else {
+          console.error("⚠️ Error starting reply stream:", error.message);
+          throw error;
+        }
+      } else {
+        console.error("❌ Maximum retry attempts reached for streaming generation. Using fallback response.");
+        yield PROVIDER_FALLBACK_REPLY;
+        return;
+      }
+    }
+
+    for await (const chunk of stream) {
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  }
+
+  // Get service status
+  getStatus(): { apiKeysCount: number; currentKeyIndex: number } {
+    return {
+      apiKeysCount: this.apiKeys.length,
+      currentKeyIndex: this.currentApiKeyIndex
+    };
+  }
+}
@@ -0,0 +1,183 @@
+import axios, { AxiosInstance } from 'axios';
+import dotenv from 'dotenv';
+import { StringDecoder } from 'string_decoder';
+import { EmbeddingProvider, LLMProvider, PROVIDER_FALLBACK_REPLY } from './types.js';
+
+dotenv.config();
+
+/**
+ * Provider for any server speaking the OpenAI chat completions and embeddings API
+ * (OpenAI itself, Ollama, vLLM, LM Studio, ...). Configured with OPENAI_BASE_URL.
+ */
+export class OpenAICompatibleProvider implements LLMProvider, EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model = process.env.OPENAI_CHAT_MODEL || 'gpt-4o-mini';
+  readonly embeddingModel = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+  readonly dimensions = parseInt(process.env.OPENAI_EMBEDDING_DIMENSIONS || '1536');
+  readonly maxBatchSize = parseInt(process.env.OPENAI_EMBEDDING_BATCH_SIZE || '256');
+
+  private client: AxiosInstance;
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+    // Local servers such as Ollama don't need a key
+    const apiKey = process.env.OPENAI_API_KEY;
+    this.client = axios.create({
+      baseURL: this.baseUrl,
+      timeout: parseInt(process.env.OPENAI_TIMEOUT_MS || '120000'),
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` })
+      }
+    });
+
+    console.log(`🔑 Initialized OpenAI-compatible provider at ${this.baseUrl} (chat: ${this.model}, embeddings: ${this.embeddingModel})`);
+  }
+
+  // Rate limits and server errors are worth retrying; anything else is a caller problem
+  private isRetryable(error: any): boolean {
+    const status = error.response?.status;
+    return status === 429 || (status >= 500 && status < 600) || error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT';
+  }
+
+  async embedText(text: string, retryCount: number = 0, maxRetries: number = 3): Promise<number[]> {
+    try {
+      const response = await this.client.post('/embeddings', {
+        model: this.embeddingModel,
+        input: text
+      });
+      return response.data?.data?.[0]?.embedding ?? [];
+    } catch (error: any) {
+      if (retryCount < maxRetries && this.isRetryable(error)) {
+        console.error(`⏳ Embedding request failed (${error.response?.status || error.code}). Retrying in 2 seconds...`);
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        return this.embedText(text, retryCount + 1, maxRetries);
+      }
+      if (retryCount >= maxRetries) {
+        // A zero vector can never be retrieved, so callers decide how to handle the failure
+        console.error("❌ Maximum retry attempts reached for embedding.");
+        throw new Error(`Embedding failed after ${maxRetries} retries: ${error.message}`);
+      }
+      console.error("⚠️ Error embedding text:", error.message);
+      throw error;
+    }
+  }
+
+  async embedBatch(texts: string[], retryCount: number = 0, maxRetries: number = 3): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    try {
+      const response = await this.client.post('/embeddings', {
+        model: this.embeddingModel,
+        input: texts
+      });
+      // Results carry the index of their input; don't rely on response order
+      const data: { index: number; embedding: number[] }[] = response.data?.data ?? [];
+      if (data.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, got ${data.length}`);
+      }
+      return [...data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+    } catch (error: any) {
+      if (retryCount < maxRetries && this.isRetryable(error)) {
+        console.error(`⏳ Batch embedding request failed (${error.response?.status || error.code}). Retrying in 2 seconds...`);
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        return this.embedBatch(texts, retryCount + 1, maxRetries);
+      }
+      if (retryCount >= maxRetries) {
+        console.error("❌ Maximum retry attempts reached for batch embedding.");
+        throw new Error(`Batch embedding failed after ${maxRetries} retries: ${error.message}`);
+      }
+      console.error("⚠️ Error embedding batch:", error.message);
+      throw error;
+    }
+  }
+
+  async generateReply(promptText: string, retryCount: number = 0, maxRetries: number = 3): Promise<string> {
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: this.model,
+        messages: [{ role: 'user', content: promptText }]
+      });
+      return response.data?.choices?.[0]?.message?.content || "No response generated";
+    } catch (error: any) {
+      if (retryCount < maxRetries && this.isRetryable(error)) {
+        console.error(`⏳ Chat request failed (${error.response?.status || error.code}). Retrying in 2 seconds...`);
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        return this.generateReply(promptText, retryCount + 1, maxRetries);
+      }
+      if (retryCount >= maxRetries) {
+        console.error("❌ Maximum retry attempts reached for generation. Using fallback response.");
+        return PROVIDER_FALLBACK_REPLY;
+      }
+      console.error("⚠️ Error generating reply:", error.message);
+      throw error;
+    }
+  }
+
+  async *generateReplyStream(promptText: string, retryCount: number = 0, maxRetries: number = 3): AsyncGenerator<string> {
+    let stream: NodeJS.ReadableStream;
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: this.model,
+        messages: [{ role: 'user', content: promptText }],
+        stream: true
+      }, { responseType: 'stream' });
+      stream = response.data;
+    } catch (error: any) {
+      // Retries are only possible before the first token has been sent to the caller
+      if (retryCount < maxRetries && this.isRetryable(error)) {
+        console.error(`⏳ Chat stream failed to start (${error.response?.status || error.code}). Retrying in 2 seconds...`);
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+        yield* this.generateReplyStream(promptText, retryCount + 1, maxRetries);
+        return;
+      }
+      if (retryCount >= maxRetries) {
+        console.error("❌ Maximum retry attempts reached for streaming generation. Using fallback response.");
+        yield PROVIDER_FALLBACK_REPLY;
+        return;
+      }
+      console.error("⚠️ Error starting reply stream:", error.message);
+      throw error;
+    }
+
+    // The body is a Server-Sent Events stream of "data: {json}" lines ending with "data: [DONE]".
+    // Network chunks can end inside a multi-byte character, so the decoder holds partial characters back.
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+    for await (const chunk of stream) {
+      buffer += decoder.write(chunk);
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const { text, done } = this.parseStreamLine(line);
+        if (done) return;
+        if (text) yield text;
+      }
+    }
+    const { text } = this.parseStreamLine(buffer + decoder.end());
+    if (text) yield text;
+  }
+
+  // Text carried by one line of the stream; done marks the end of the stream
+  private parseStreamLine(line: string): { text?: string; done?: boolean } {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) return {};
+    const data = trimmed.slice(5).trim();
+    if (data === '[DONE]') return { done: true };
+    try {
+      return { text: JSON.parse(data).choices?.[0]?.delta?.content };
+    } catch {
+      console.warn('⚠️ Skipping malformed stream chunk');
+      return {};
+    }
+  }
+
+  getStatus(): { baseUrl: string; model: string; embeddingModel: string } {
+    return {
+      baseUrl: this.baseUrl,
+      model: this.model,
+      embeddingModel: this.embeddingModel
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { EmbeddingProvider, LLMProvider } from './types.js';
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * Embeddings are hashed bags of words, so texts sharing words have a positive cosine similarity,
+ * and replies are derived from the prompt so the same prompt always gets the same answer.
+ */
+export class StubProvider implements LLMProvider, EmbeddingProvider {
+  readonly name = 'stub' as const;
+  readonly model = 'stub-llm';
+  readonly embeddingModel = 'stub-embedding';
+  readonly dimensions = 768;
+  readonly maxBatchSize = 1000;
+
+  constructor() {
+    console.log('🧪 Initialized stub provider (deterministic, offline)');
+  }
+
+  async embedText(text: string): Promise<number[]> {
+    const vector = new Array(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    for (const word of words) {
+      const hash = crypto.createHash('md5').update(word).digest();
+      const index = hash.readUInt32BE(0) % this.dimensions;
+      vector[index] += hash[4] & 1 ? 1 : -1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map(text => this.embedText(text)));
+  }
+
+  async generateReply(promptText: string): Promise<string> {
+    // Question rewriting prompts: the follow-up is returned unchanged
+    const followUp = promptText.match(/Follow-up question: (.*)\n/);
+    if (followUp && promptText.trimEnd().endsWith('Standalone question:')) {
+      return followUp[1].trim();
+    }
+
+    const hash = crypto.createHash('sha256').update(promptText).digest('hex').slice(0, 8);
+    const question = promptText.match(/Question: (.*)/)?.[1]?.trim();
+    const context = promptText.match(/Context:\n([\s\S]*?)\n\n/)?.[1]?.trim();
+    const firstSentence = context?.split(/(?<=[.!?])\s/)[0];
+
+    if (firstSentence) {
+      return `[stub ${hash}] ${firstSentence}`;
+    }
+    return `[stub ${hash}] ${question ? `No answer available for "${question}".` : 'Stub response.'}`;
+  }
+
+  async *generateReplyStream(promptText: string): AsyncGenerator<string> {
+    const reply = await this.generateReply(promptText);
+    for (const piece of reply.match(/\S+\s*/g) || []) {
+      yield piece;
+    }
+  }
+}
@@ -0,0 +1,27 @@
+export const PROVIDER_NAMES = ['gemini', 'openai', 'stub'] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  generateReply(promptText: string): Promise<string>;
+  // Yields the reply in pieces as they are generated
+  generateReplyStream(promptText: string): AsyncGenerator<string>;
+  // Provider-specific details for the health endpoint
+  getStatus?(): object;
+}
+
+export interface EmbeddingProvider {
+  readonly name: ProviderName;
+  readonly embeddingModel: string;
+  readonly dimensions: number;
+  // Largest number of texts accepted by one embedBatch request
+  readonly maxBatchSize: number;
+  embedText(text: string): Promise<number[]>;
+  // One vector per text, in the same order; throws if the batch fails as a whole
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+// Reply returned by providers once retries are exhausted
+export const PROVIDER_FALLBACK_REPLY = "I apologize, but I'm currently experiencing technical difficulties. Please try again later or contact support if the issue persists.";
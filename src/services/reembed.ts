@@ -0,0 +1,243 @@
+import { Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Agent from '../models/Agent.js';
+import Memory, { IMemory, LEGACY_EMBEDDING_MODEL } from '../models/Memory.js';
+import ReembedJob, { IReembedJob } from '../models/ReembedJob.js';
+import { getEmbeddingModelId, getEmbeddingProvider } from './llm.js';
+import { EmbeddingProvider, ProviderName } from './providers/types.js';
+import { embedChunks } from './training.js';
+
+export interface ReembedConfig {
+  batchSize: number; // Chunks read and staged per checkpoint, and most texts per embedding request
+}
+
+/**
+ * Re-embeds an agent's knowledge into a new embedding model.
+ *
+ * New vectors are staged next to the existing ones (`reembedding` on each chunk), so questions keep being
+ * answered from the old model while the job runs. Once every chunk has a staged vector, the staged and old
+ * vectors trade places, the agent's embeddingProvider is switched, and the old vectors are dropped. Retrieval
+ * matches chunks by either vector (matchVectorModel), so no chunk drops out while the models change. Progress
+ * is checkpointed by _id, and staged chunks are skipped, so an interrupted job can be resumed or simply
+ * started again.
+ */
+export class ReembedService {
+  private static config: ReembedConfig = {
+    batchSize: 50
+  };
+
+  // Jobs running in this process, so a resume never runs the same job twice
+  private static running = new Set<string>();
+
+  /**
+   * Queue a re-embedding job. Returns the existing job if one is already active for the agent.
+   */
+  static async startJob(agentId: string, targetProvider: ProviderName): Promise<{ job: IReembedJob; created: boolean }> {
+    const activeJob = await ReembedJob.findOne({ agentId, status: { $in: ['queued', 'processing'] } });
+    if (activeJob) {
+      return { job: activeJob, created: false };
+    }
+
+    const job = await ReembedJob.create({
+      jobId: uuidv4(),
+      agentId,
+      status: 'queued',
+      targetProvider,
+      targetModel: getEmbeddingModelId(getEmbeddingProvider(targetProvider))
+    });
+
+    setImmediate(() => this.runJob(job.jobId));
+    return { job, created: true };
+  }
+
+  static async getJob(jobId: string): Promise<IReembedJob | null> {
+    return ReembedJob.findOne({ jobId });
+  }
+
+  static async listJobs(agentId: string, limit: number = 10): Promise<IReembedJob[]> {
+    return ReembedJob.find({ agentId }).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  /**
+   * Number of chunks per embedding model for an agent
+   */
+  static async getEmbeddingStats(agentId: string): Promise<{ embeddingModel: string; dimensions: number | null; chunks: number; pendingEmbedding: number }[]> {
+    const groups = await Memory.aggregate([
+      { $match: { agentId } },
+      {
+        $group: {
+          _id: { $ifNull: ['$embeddingModel', LEGACY_EMBEDDING_MODEL] },
+          dimensions: { $max: { $ifNull: ['$embeddingDimensions', { $size: '$embedding' }] } },
+          chunks: { $sum: 1 },
+          pendingEmbedding: { $sum: { $cond: [{ $eq: ['$embeddingStatus', 'pending_embedding'] }, 1, 0] } }
+        }
+      },
+      { $sort: { chunks: -1 } }
+    ]);
+    return groups.map(group => ({
+      embeddingModel: group._id,
+      dimensions: group.dimensions ?? null,
+      chunks: group.chunks,
+      pendingEmbedding: group.pendingEmbedding
+    }));
+  }
+
+  /**
+   * Pick up jobs interrupted by a restart
+   */
+  static async resumeJobs(): Promise<void> {
+    try {
+      const jobs = await ReembedJob.find({ status: { $in: ['queued', 'processing'] } });
+      for (const job of jobs) {
+        console.log(`🔁 Resuming re-embedding job ${job.jobId} for agent ${job.agentId}`);
+        setImmediate(() => this.runJob(job.jobId));
+      }
+    } catch (error) {
+      console.error('❌ Failed to resume re-embedding jobs:', error);
+    }
+  }
+
+  /**
+   * Stage new vectors for a batch of chunks. Texts are embedded in batch requests; a chunk edited
+   * while it was being embedded is left for the next pass. Returns the number of failed chunks.
+   */
+  private static async stageBatch(batch: IMemory[], embedder: EmbeddingProvider, targetModel: string): Promise<number> {
+    const requestSize = Math.max(1, Math.min(this.config.batchSize, embedder.maxBatchSize));
+    let errorCount = 0;
+    for (let i = 0; i < batch.length; i += requestSize) {
+      const chunks = batch.slice(i, i + requestSize);
+      const embeddings = await embedChunks(embedder, chunks.map(chunk => chunk.text));
+      const updates = chunks.flatMap((chunk, index) => {
+        const { vector, error } = embeddings[index];
+        if (error) {
+          errorCount++;
+          console.error(`❌ Failed to re-embed chunk ${chunk._id}: ${error}`);
+          return [];
+        }
+        return [{
+          updateOne: {
+            filter: { _id: chunk._id, contentHash: chunk.contentHash },
+            update: { $set: { reembedding: { embedding: vector, embeddingModel: targetModel, embeddingDimensions: vector.length } } }
+          }
+        }];
+      });
+      if (updates.length > 0) {
+        await Memory.bulkWrite(updates);
+      }
+    }
+    return errorCount;
+  }
+
+  private static async runJob(jobId: string): Promise<void> {
+    if (this.running.has(jobId)) return;
+    this.running.add(jobId);
+
+    try {
+      const job = await ReembedJob.findOne({ jobId });
+      if (!job || job.status === 'completed' || job.status === 'failed') return;
+
+      const { agentId, targetModel } = job;
+      const embedder = getEmbeddingProvider(job.targetProvider);
+      // $ne also matches legacy chunks without an embeddingModel field
+      const pendingFilter = { agentId, embeddingModel: { $ne: targetModel } };
+      const unstagedFilter = { ...pendingFilter, 'reembedding.embeddingModel': { $ne: targetModel } };
+
+      const totalChunks = await Memory.countDocuments(pendingFilter);
+      await ReembedJob.updateOne({ jobId }, { status: 'processing', totalChunks, error: null });
+      console.log(`🧬 Re-embedding ${totalChunks} chunks for agent ${agentId} into ${targetModel}`);
+
+      let lastProcessedId: Types.ObjectId | undefined = job.lastProcessedId;
+      let processedChunks = job.processedChunks;
+      let errorCount = job.errorCount;
+
+      // New chunks trained while the job runs have higher _ids, so they are picked up by later batches
+      while (true) {
+        const batch = await Memory.find({
+          ...unstagedFilter,
+          ...(lastProcessedId && { _id: { $gt: lastProcessedId } })
+        })
+          .sort({ _id: 1 })
+          .limit(this.config.batchSize)
+          .lean<IMemory[]>();
+        if (batch.length === 0) break;
+
+        errorCount += await this.stageBatch(batch, embedder, targetModel);
+
+        lastProcessedId = batch[batch.length - 1]._id as Types.ObjectId;
+        processedChunks += batch.length;
+        await ReembedJob.updateOne({ jobId }, {
+          lastProcessedId,
+          processedChunks,
+          errorCount,
+          progress: Math.min(99, Math.round((processedChunks / Math.max(totalChunks, 1)) * 100))
+        });
+      }
+
+      // Chunks whose text was edited after they were staged lost their staged vector; stage them again
+      while (errorCount === 0) {
+        const edited = await Memory.find(unstagedFilter).sort({ _id: 1 }).limit(this.config.batchSize).lean<IMemory[]>();
+        if (edited.length === 0) break;
+        errorCount += await this.stageBatch(edited, embedder, targetModel);
+      }
+
+      // Keep answering from the old model until every chunk made it across
+      if (errorCount > 0) {
+        await ReembedJob.updateOne({ jobId }, {
+          status: 'failed',
+          errorCount,
+          error: { error: `${errorCount} chunks could not be re-embedded. Start the job again to retry them.` }
+        });
+        console.error(`❌ Re-embedding job ${jobId} finished with ${errorCount} errors; agent ${agentId} was not switched`);
+        return;
+      }
+
+      // Staged vectors replace the old ones in the same chunks, so chunk ids, edits, pins and disables are kept.
+      // The old vector is kept in their place, so questions still embedded with the old model match and are
+      // ranked against it until the agent is switched below.
+      const swapResult = await Memory.updateMany({ agentId, 'reembedding.embeddingModel': targetModel }, [
+        {
+          $set: {
+            embedding: '$reembedding.embedding',
+            embeddingModel: '$reembedding.embeddingModel',
+            embeddingDimensions: '$reembedding.embeddingDimensions',
+            embeddingStatus: 'ready',
+            reembedding: {
+              embedding: '$embedding',
+              embeddingModel: { $ifNull: ['$embeddingModel', LEGACY_EMBEDDING_MODEL] },
+              embeddingDimensions: { $ifNull: ['$embeddingDimensions', { $size: { $ifNull: ['$embedding', []] } }] }
+            }
+          }
+        },
+        { $unset: ['embeddingAttempts', 'embeddingError', 'nextEmbeddingAttemptAt'] }
+      ]);
+
+      // Questions are embedded with the new model from here on, and find every chunk under its new vector
+      await Agent.updateOne({ agentId }, { $set: { embeddingProvider: job.targetProvider } });
+      console.log(`🔀 Agent ${agentId} switched to ${targetModel}`);
+      await Memory.updateMany({ agentId, 'reembedding.embeddingModel': { $exists: true, $ne: targetModel } }, { $unset: { reembedding: '' } });
+
+      // Chunks from training jobs that started before the switch; another job run picks them up
+      const remainingChunks = await Memory.countDocuments(pendingFilter);
+
+      await ReembedJob.updateOne({ jobId }, {
+        status: 'completed',
+        progress: 100,
+        result: {
+          agentId,
+          embeddingModel: targetModel,
+          chunksReembedded: swapResult.modifiedCount,
+          remainingChunks
+        }
+      });
+      console.log(`✅ Re-embedding job ${jobId} completed (${swapResult.modifiedCount} chunks switched, ${remainingChunks} remaining)`);
+    } catch (error) {
+      console.error(`❌ Re-embedding job ${jobId} failed:`, error);
+      await ReembedJob.updateOne({ jobId }, {
+        status: 'failed',
+        error: { error: error instanceof Error ? error.message : String(error) }
+      });
+    } finally {
+      this.running.delete(jobId);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import Memory, { IMemory, IMemorySource } from '../models/Memory.js';
+import SourceSync from '../models/SourceSync.js';
+import TrainJob from '../models/TrainJob.js';
+
+const SOURCE_TYPES: IMemory['source'][] = ['audio', 'video', 'document', 'website', 'youtube', 'manual'];
+
+export interface SourceSummary extends IMemorySource {
+  sourceId: string;
+  title?: string;
+  chunkCount: number;
+  pendingEmbeddingCount: number;
+  contentVersion: number; // Highest content version stored for the source
+  embeddingModels: string[];
+  trainJobIds: string[];
+  trainedAt: Date; // When the newest chunk was stored
+}
+
+// Replacement progress recorded in the result of the replacing training job
+export interface SourceReplacement {
+  sourceId: string;
+  status: 'completed' | 'waiting_for_embeddings';
+  removedChunks: number;
+}
+
+/**
+ * Knowledge grouped by the source it was trained from. Sources have no collection of their own;
+ * they are derived from the source, sourceUrl and chunkMetadata.fileName of each Memory chunk.
+ */
+export class SourceService {
+  /**
+   * Opaque, URL-safe id for a source
+   */
+  static toSourceId(ref: IMemorySource): string {
+    return Buffer.from(JSON.stringify([ref.source, ref.sourceUrl ?? null, ref.fileName ?? null])).toString('base64url');
+  }
+
+  /**
+   * Source identified by a sourceId, or null if the id is malformed
+   */
+  static parseSourceId(sourceId: string): IMemorySource | null {
+    try {
+      const parsed = JSON.parse(Buffer.from(sourceId, 'base64url').toString('utf8'));
+      if (!Array.isArray(parsed) || parsed.length !== 3) return null;
+      const [source, sourceUrl, fileName] = parsed;
+      if (!SOURCE_TYPES.includes(source)) return null;
+      if ((sourceUrl !== null && typeof sourceUrl !== 'string') || (fileName !== null && typeof fileName !== 'string')) return null;
+      return {
+        source,
+        ...(sourceUrl !== null && { sourceUrl }),
+        ...(fileName !== null && { fileName })
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Query matching every chunk of a source. Null matches chunks without the field.
+   */
+  static toFilter(agentId: string, ref: IMemorySource): Record<string, unknown> {
+    return {
+      agentId,
+      source: ref.source,
+      sourceUrl: ref.sourceUrl ?? null,
+      'chunkMetadata.fileName': ref.fileName ?? null
+    };
+  }
+
+  /**
+   * Sources an agent was trained on, most recently trained first
+   */
+  static async listSources(agentId: string): Promise<SourceSummary[]> {
+    return this.summarize({ agentId });
+  }
+
+  static async getSource(agentId: string, ref: IMemorySource): Promise<SourceSummary | null> {
+    const [summary] = await this.summarize(this.toFilter(agentId, ref));
+    return summary || null;
+  }
+
+  /**
+   * Delete every chunk of a source, and stop re-syncing it
+   */
+  static async deleteSource(agentId: string, ref: IMemorySource): Promise<number> {
+    const { deletedCount } = await Memory.deleteMany(this.toFilter(agentId, ref));
+    if (ref.source === 'website' && ref.sourceUrl) {
+      await SourceSync.deleteOne({ agentId, sourceUrl: ref.sourceUrl });
+    }
+    return deletedCount;
+  }
+
+  /**
+   * Remove the chunks a replacing training job superseded. Nothing is removed while any of the
+   * job's own chunks are still waiting for an embedding, so the source never goes unanswerable;
+   * the embedding sweeper calls this again once they are done. A re-sync only removes chunks
+   * whose content is no longer on the page.
+   */
+  static async completeReplacement(jobId: string): Promise<SourceReplacement | null> {
+    const job = await TrainJob.findOne({ jobId }).select('agentId status payload result').lean();
+    const ref = job?.payload?.replaceSource;
+    if (!job || !ref || job.status !== 'completed' || job.result?.replacement?.status === 'completed') {
+      return null;
+    }
+
+    const sourceId = this.toSourceId(ref);
+    const pendingEmbeddings = await Memory.countDocuments({ trainJobId: jobId, embeddingStatus: 'pending_embedding' });
+    if (pendingEmbeddings > 0) {
+      const replacement: SourceReplacement = { sourceId, status: 'waiting_for_embeddings', removedChunks: 0 };
+      await TrainJob.updateOne({ jobId }, { $set: { 'result.replacement': replacement } });
+      return replacement;
+    }
+
+    const keepHashes: string[] | undefined = job.payload?.resync ? job.result?.contentHashes || [] : undefined;
+    const { deletedCount } = await Memory.deleteMany({
+      ...this.toFilter(job.agentId, ref),
+      trainJobId: { $ne: jobId },
+      ...(keepHashes && { contentHash: { $nin: keepHashes } })
+    });
+    const replacement: SourceReplacement = { sourceId, status: 'completed', removedChunks: deletedCount };
+    await TrainJob.updateOne({ jobId }, { $set: { 'result.replacement': replacement } });
+    console.log(`🔁 Training job ${jobId} replaced source ${ref.sourceUrl || ref.fileName || ref.source} (${deletedCount} old chunks removed)`);
+    return replacement;
+  }
+
+  private static async summarize(match: Record<string, unknown>): Promise<SourceSummary[]> {
+    const groups = await Memory.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: {
+            source: '$source',
+            sourceUrl: { $ifNull: ['$sourceUrl', null] },
+            fileName: { $ifNull: ['$chunkMetadata.fileName', null] }
+          },
+          title: { $first: '$sourceMetadata.title' },
+          chunkCount: { $sum: 1 },
+          pendingEmbeddingCount: { $sum: { $cond: [{ $eq: ['$embeddingStatus', 'pending_embedding'] }, 1, 0] } },
+          contentVersion: { $max: '$contentVersion' },
+          embeddingModels: { $addToSet: '$embeddingModel' },
+          trainJobIds: { $addToSet: '$trainJobId' },
+          // Chunks have no timestamps; the ObjectId records when each was inserted
+          trainedAt: { $max: { $toDate: '$_id' } }
+        }
+      },
+      { $sort: { trainedAt: -1 } }
+    ]);
+
+    return groups.map(group => {
+      const ref: IMemorySource = {
+        source: group._id.source,
+        ...(group._id.sourceUrl !== null && { sourceUrl: group._id.sourceUrl }),
+        ...(group._id.fileName !== null && { fileName: group._id.fileName })
+      };
+      return {
+        sourceId: this.toSourceId(ref),
+        ...ref,
+        ...(group.title && { title: group.title }),
+        chunkCount: group.chunkCount,
+        pendingEmbeddingCount: group.pendingEmbeddingCount,
+        contentVersion: group.contentVersion,
+        embeddingModels: group.embeddingModels.filter(Boolean),
+        trainJobIds: group.trainJobIds.filter(Boolean),
+        trainedAt: group.trainedAt
+      };
+    });
+  }
+}
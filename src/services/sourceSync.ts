@@ -0,0 +1,230 @@
+import { v4 as uuidv4 } from 'uuid';
+import Memory from '../models/Memory.js';
+import SourceSync, { ISourceSync, SyncFrequency } from '../models/SourceSync.js';
+import TrainJob from '../models/TrainJob.js';
+import { AgentService } from './agent.js';
+import { TrainingQueueService } from './trainingQueue.js';
+
+export interface SourceSyncConfig {
+  intervalMs: number; // How often the scheduler looks for due pages and finished re-syncs
+  maxPerTick: number; // Re-syncs queued per tick, so a backlog doesn't flood the training queue
+}
+
+const FREQUENCY_MS: Record<Exclude<SyncFrequency, 'manual'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// Error for re-sync state problems (e.g. a re-sync already running); the route turns it into a 409
+export class SourceSyncStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceSyncStateError';
+  }
+}
+
+/**
+ * Re-syncs website pages on a schedule. A re-sync is a training job that re-scrapes the page,
+ * embeds only chunks whose content changed and removes chunks that disappeared from the page.
+ * The scheduler runs inside the API process; pages are claimed atomically, so several
+ * instances can run it side by side.
+ */
+export class SourceSyncService {
+  private static config: SourceSyncConfig = {
+    intervalMs: parseInt(process.env.SOURCE_SYNC_INTERVAL_MS || String(5 * 60 * 1000)),
+    maxPerTick: 20
+  };
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static ticking = false;
+
+  static start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.config.intervalMs);
+    this.timer.unref();
+    console.log(`🔄 Source sync scheduler started (every ${Math.round(this.config.intervalMs / 1000)}s)`);
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  static async getSync(agentId: string, sourceUrl: string): Promise<ISourceSync | null> {
+    return SourceSync.findOne({ agentId, sourceUrl });
+  }
+
+  /**
+   * Set how often a page is re-synced. The first scheduled run is one period from now.
+   */
+  static async setSchedule(agentId: string, sourceUrl: string, frequency: SyncFrequency): Promise<ISourceSync> {
+    const nextRunAt = frequency === 'manual' ? null : new Date(Date.now() + FREQUENCY_MS[frequency]);
+    // Setting a schedule again also ends a pause from a memory purge
+    const sync = await SourceSync.findOneAndUpdate(
+      { agentId, sourceUrl },
+      { $set: { frequency, nextRunAt }, $unset: { pausedByPurgeId: '' } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    return sync!;
+  }
+
+  /**
+   * Queue a re-sync of a page now. Throws SourceSyncStateError while one is already running.
+   */
+  static async resyncNow(agentId: string, sourceUrl: string): Promise<ISourceSync> {
+    const existing = await SourceSync.findOneAndUpdate(
+      { agentId, sourceUrl },
+      { $setOnInsert: { frequency: 'manual' } },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    if (existing?.pausedByPurgeId) {
+      throw new SourceSyncStateError(`This page's knowledge was removed by memory purge ${existing.pausedByPurgeId}; restore the purge or set the schedule again first`);
+    }
+    // The previous re-sync may have finished since the last scheduler tick
+    if (existing?.activeJobId) await this.settle(existing);
+
+    const jobId = uuidv4();
+    const claimed = await SourceSync.findOneAndUpdate(
+      { agentId, sourceUrl, activeJobId: null },
+      { $set: { activeJobId: jobId, lastRunAt: new Date() } },
+      { new: true }
+    );
+    if (!claimed) {
+      throw new SourceSyncStateError('A re-sync of this page is already running');
+    }
+    await this.enqueueResync(claimed, jobId);
+    return claimed;
+  }
+
+  /**
+   * Stop scheduled re-syncs of the pages a memory purge removes, so the scheduler doesn't write the
+   * purged knowledge back. agentId limits the pause to one agent's pages.
+   */
+  static async pauseForPurge(purgeId: string, agentId?: string): Promise<number> {
+    const result = await SourceSync.updateMany(
+      { ...(agentId && { agentId }), frequency: { $ne: 'manual' }, pausedByPurgeId: null },
+      { $set: { pausedByPurgeId: purgeId } }
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Resume the schedules a memory purge paused. Pages that fell due meanwhile are re-synced at the next tick.
+   */
+  static async resumeAfterPurge(purgeId: string): Promise<number> {
+    const result = await SourceSync.updateMany({ pausedByPurgeId: purgeId }, { $unset: { pausedByPurgeId: '' } });
+    return result.modifiedCount;
+  }
+
+  /**
+   * Record finished re-syncs, then queue the pages that are due
+   */
+  static async tick(): Promise<{ settled: number; queued: number }> {
+    const summary = { settled: 0, queued: 0 };
+    if (this.ticking) return summary;
+    this.ticking = true;
+
+    try {
+      const active = await SourceSync.find({ activeJobId: { $ne: null } });
+      for (const sync of active) {
+        if (await this.settle(sync)) summary.settled++;
+      }
+
+      while (summary.queued < this.config.maxPerTick) {
+        const now = new Date();
+        const jobId = uuidv4();
+        const due = await SourceSync.findOneAndUpdate(
+          { frequency: { $ne: 'manual' }, nextRunAt: { $lte: now }, activeJobId: null, pausedByPurgeId: null },
+          { $set: { activeJobId: jobId, lastRunAt: now } },
+          { sort: { nextRunAt: 1 }, new: true }
+        );
+        if (!due) break;
+
+        const period = FREQUENCY_MS[due.frequency as Exclude<SyncFrequency, 'manual'>];
+        await SourceSync.updateOne({ _id: due._id }, { $set: { nextRunAt: new Date(now.getTime() + period) } });
+        try {
+          await this.enqueueResync(due, jobId);
+          summary.queued++;
+        } catch (error) {
+          // Recorded on the page; it is tried again at its next run
+          console.error(`❌ Failed to queue re-sync of ${due.sourceUrl} for agent ${due.agentId}:`, error);
+        }
+      }
+
+      if (summary.settled > 0 || summary.queued > 0) {
+        console.log(`🔄 Source sync: ${summary.settled} re-syncs finished, ${summary.queued} queued`);
+      }
+    } catch (error) {
+      console.error('❌ Source sync tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+
+    return summary;
+  }
+
+  private static async enqueueResync(sync: ISourceSync, jobId: string): Promise<void> {
+    try {
+      const agent = await AgentService.getAgent(sync.agentId);
+      if (!agent) {
+        throw new Error(`Agent '${sync.agentId}' no longer exists`);
+      }
+      await TrainingQueueService.enqueue(jobId, sync.agentId, {
+        source: 'website',
+        sourceUrl: sync.sourceUrl,
+        sourceMetadata: {},
+        files: [],
+        embeddingProvider: agent.embeddingProvider,
+        replaceSource: { source: 'website', sourceUrl: sync.sourceUrl },
+        resync: true
+      });
+      console.log(`🔄 Queued re-sync ${jobId} of ${sync.sourceUrl} for agent ${sync.agentId}`);
+    } catch (error) {
+      await SourceSync.updateOne({ _id: sync._id, activeJobId: jobId }, {
+        $set: { activeJobId: null, lastStatus: 'failed', lastSyncedAt: new Date(), lastError: { error: error instanceof Error ? error.message : String(error) } }
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Copy the outcome of a finished re-sync job onto the page's sync record.
+   * Returns false while the job is still queued or running.
+   */
+  private static async settle(sync: ISourceSync): Promise<boolean> {
+    const job = await TrainJob.findOne({ jobId: sync.activeJobId }).select('status result error skippedCount').lean();
+    if (job && !['completed', 'failed', 'cancelled'].includes(job.status)) {
+      return false;
+    }
+
+    const update: Record<string, unknown> = {
+      activeJobId: null,
+      lastJobId: sync.activeJobId,
+      lastSyncedAt: new Date(),
+      lastStatus: job?.status ?? 'failed',
+      lastError: job?.status === 'completed' ? null : job?.error ?? { error: 'Re-sync job not found' }
+    };
+
+    if (job?.status === 'completed') {
+      const changes = {
+        added: job.result?.chunksStored || 0,
+        removed: job.result?.replacement?.removedChunks || 0,
+        unchanged: job.result?.skippedCount || 0
+      };
+      update.lastChanges = changes;
+      if (changes.added > 0 || changes.removed > 0) {
+        update.lastChangedAt = new Date();
+      }
+      const latest = await Memory.findOne({ agentId: sync.agentId, source: 'website', sourceUrl: sync.sourceUrl })
+        .sort({ contentVersion: -1 })
+        .select('contentVersion')
+        .lean();
+      update.contentVersion = latest?.contentVersion || 0;
+    }
+
+    const result = await SourceSync.updateOne({ _id: sync._id, activeJobId: sync.activeJobId }, { $set: update });
+    return result.modifiedCount > 0;
+  }
+}
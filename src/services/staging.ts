@@ -0,0 +1,89 @@
+import dotenv from 'dotenv';
+import { Request } from 'express';
+import multer from 'multer';
+import path from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { IStagedFile } from '../models/TrainJob.js';
+import { LocalDiskStorage } from './storage/local.js';
+import { STORAGE_BACKENDS, StagingStorage, StorageBackendName } from './storage/types.js';
+
+dotenv.config();
+
+function isStorageBackendName(value: unknown): value is StorageBackendName {
+  return typeof value === 'string' && (STORAGE_BACKENDS as readonly string[]).includes(value);
+}
+
+let storage: StagingStorage | null = null;
+
+/**
+ * Storage backend for staged uploads, chosen with STAGING_STORAGE (default: local)
+ */
+export function getStagingStorage(): StagingStorage {
+  if (!storage) {
+    const backend = process.env.STAGING_STORAGE || 'local';
+    if (!isStorageBackendName(backend)) {
+      throw new Error(`Unknown STAGING_STORAGE '${backend}'. Allowed: ${STORAGE_BACKENDS.join(', ')}`);
+    }
+    switch (backend) {
+      case 'local':
+        storage = new LocalDiskStorage();
+        break;
+    }
+  }
+  return storage!;
+}
+
+export async function readStagedFile(file: IStagedFile): Promise<Buffer> {
+  return getStagingStorage().read(file.key);
+}
+
+/**
+ * Copy a staged file under another job's prefix, e.g. when a retry job takes over a failed file
+ */
+export async function copyStagedFile(file: IStagedFile, prefix: string): Promise<IStagedFile> {
+  const key = `${prefix}/${path.basename(file.key)}`;
+  await getStagingStorage().write(key, Readable.from(await readStagedFile(file)));
+  return { ...file, key };
+}
+
+export async function removeStagedFile(file: IStagedFile): Promise<void> {
+  try {
+    await getStagingStorage().remove(file.key);
+  } catch (error) {
+    console.error(`⚠️ Failed to remove staged file ${file.key}:`, error);
+  }
+}
+
+export async function removeStagedFiles(prefix: string): Promise<void> {
+  try {
+    await getStagingStorage().removePrefix(prefix);
+  } catch (error) {
+    console.error(`⚠️ Failed to remove staged files under ${prefix}:`, error);
+  }
+}
+
+// An uploaded file as this engine reports it to multer
+export type StagedUpload = Express.Multer.File & { key: string };
+
+/**
+ * Multer storage engine that streams each upload straight into staging storage under
+ * `<prefix>/`, so request bodies are never held in memory. The prefix is read from the request.
+ */
+export function createStagingEngine(getPrefix: (req: Request) => string): multer.StorageEngine {
+  return {
+    _handleFile(req, file, cb) {
+      // The original name is only kept as metadata; it never becomes part of the key
+      const extension = path.extname(file.originalname).replace(/[^\w.]/g, '');
+      const key = `${getPrefix(req as Request)}/${uuidv4()}${extension}`;
+      getStagingStorage().write(key, file.stream)
+        .then(size => cb(null, { key, size } as Partial<Express.Multer.File>))
+        .catch(error => cb(error));
+    },
+    _removeFile(_req, file, cb) {
+      getStagingStorage().remove((file as StagedUpload).key)
+        .then(() => cb(null))
+        .catch(error => cb(error));
+    }
+  };
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StagingStorage } from './types.js';
+
+/**
+ * Stages files on local disk. API and workers must share TRAIN_STAGING_DIR
+ * (same host or a shared volume).
+ */
+export class LocalDiskStorage implements StagingStorage {
+  readonly name = 'local' as const;
+  private root: string;
+
+  constructor(root: string = process.env.TRAIN_STAGING_DIR || path.join(os.tmpdir(), 'train-staging')) {
+    this.root = path.resolve(root);
+  }
+
+  // Keys come from our own job ids, but never let one point outside the staging root
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid staging key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async write(key: string, stream: Readable): Promise<number> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    let bytes = 0;
+    stream.on('data', (chunk: Buffer) => { bytes += chunk.length; });
+    try {
+      await pipeline(stream, fs.createWriteStream(filePath));
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+    return bytes;
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.resolve(key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async removePrefix(prefix: string): Promise<void> {
+    await fs.promises.rm(this.resolve(prefix), { recursive: true, force: true });
+  }
+}
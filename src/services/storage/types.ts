@@ -0,0 +1,18 @@
+import { Readable } from 'stream';
+
+export const STORAGE_BACKENDS = ['local'] as const;
+
+export type StorageBackendName = typeof STORAGE_BACKENDS[number];
+
+/**
+ * Where uploaded training files wait until a worker has processed them. Keys are
+ * `<jobId>/<file>`, so everything belonging to a job can be removed by its prefix.
+ */
+export interface StagingStorage {
+  readonly name: StorageBackendName;
+  // Stores the stream under key and resolves with the number of bytes written
+  write(key: string, stream: Readable): Promise<number>;
+  read(key: string): Promise<Buffer>;
+  remove(key: string): Promise<void>;
+  removePrefix(prefix: string): Promise<void>;
+}
@@ -0,0 +1,583 @@
+import Memory, { IMemory, matchEmbeddingModel } from '../models/Memory.js';
+import TrainJob, { ITrainJob } from '../models/TrainJob.js';
+import { GeminiAudioTranscriber } from '../utils/audioTranscribe.js';
+import { ChunkWithMetadata, TextSegment, chunkMarkdown, chunkSegments, chunkText, generateContentHash, getExistingContentVersions, getNextContentVersion } from '../utils/chunkText.js';
+import { crawlWebsite } from '../utils/crawlWebsite.js';
+import { parseFile } from '../utils/parseFile.js';
+import { ScrapeStrategy, scrapeWebsite } from '../utils/scrapeWebsite.js';
+import { BlockedUrlError } from '../utils/urlGuard.js';
+import { VideoProcessor } from '../utils/videoProcess.js';
+import { cleanTranscript, fetchYouTubeTranscript, summarizeYouTubeVideoWithGemini } from '../utils/youtubeTranscript.js';
+import { getEmbeddingModelId, getEmbeddingProvider, isUsableEmbedding } from './llm.js';
+import { EmbeddingProvider } from './providers/types.js';
+import { SourceService } from './source.js';
+import { readStagedFile } from './staging.js';
+import { TrainingCancelledError, TrainingQueueService } from './trainingQueue.js';
+
+const TRAINING_CONFIG = {
+  embeddingBatchSize: parseInt(process.env.TRAIN_EMBEDDING_BATCH_SIZE || '32'), // Chunks per embedding request
+  concurrency: parseInt(process.env.TRAIN_EMBEDDING_CONCURRENCY || '4'), // Batches embedded at the same time
+  progressIntervalMs: 2000 // Minimum time between progress writes
+};
+
+// Text stored as one source: a crawl produces one per page, a file upload one per file
+interface TrainingDocument {
+  text: string;
+  sourceUrl?: string;
+  fileName?: string; // Uploaded file the text came from
+  fileIndex?: number; // Position of that file in the upload
+  sourceMetadata?: any;
+  markdown?: boolean; // Scraped pages are Markdown, chunked along their headings
+  segments?: TextSegment[]; // Pages of parsed files; chunks don't cross them and record their page number
+}
+
+// Outcome of one uploaded file, listed in the job result
+interface FileResult {
+  fileName: string;
+  fileType?: string; // Document type the file was parsed as
+  status: 'completed' | 'skipped' | 'failed'; // skipped: all of its content was already trained
+  totalChunks: number;
+  chunksStored: number;
+  skippedCount: number;
+  error?: string;
+}
+
+// Deduplication and content versions are scoped to a document's source: its URL and file name
+const scopeKey = (document: TrainingDocument) => JSON.stringify([document.sourceUrl ?? null, document.fileName ?? null]);
+
+/**
+ * Run worker over items with at most `limit` in flight. Stops picking up new items after a failure
+ * and rethrows it once the running ones have settled.
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  let failure: unknown = null;
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length && failure === null) {
+      const item = items[next++];
+      try {
+        await worker(item);
+      } catch (error) {
+        failure = failure ?? error;
+      }
+    }
+  });
+  await Promise.all(runners);
+  if (failure !== null) throw failure;
+}
+
+/**
+ * Embed texts in one batch request. If the batch fails, texts are embedded one by one so a
+ * single bad chunk only affects itself; failed chunks get an error instead of a vector.
+ */
+export async function embedChunks(embedder: EmbeddingProvider, texts: string[]): Promise<{ vector: number[]; error?: string }[]> {
+  try {
+    const vectors = await embedder.embedBatch(texts);
+    return vectors.map(vector => isUsableEmbedding(vector)
+      ? { vector }
+      : { vector: [], error: 'Embedding provider returned an empty vector' });
+  } catch (batchError) {
+    console.log(`[WARNING] Batch embedding of ${texts.length} chunks failed, embedding them one by one: ${batchError}`);
+    const results: { vector: number[]; error?: string }[] = [];
+    for (const text of texts) {
+      try {
+        const vector = await embedder.embedText(text);
+        if (!isUsableEmbedding(vector)) {
+          throw new Error('Embedding provider returned an empty vector');
+        }
+        results.push({ vector });
+      } catch (embedError) {
+        console.log(`[WARNING] Embedding of one chunk failed: ${embedError}`);
+        results.push({ vector: [], error: embedError instanceof Error ? embedError.message : String(embedError) });
+      }
+    }
+    return results;
+  }
+}
+
+/**
+ * Queue handler. Uploads stay in staging storage and are read one at a time while processing.
+ */
+export async function runTrainingJob(job: ITrainJob): Promise<void> {
+  if (!job.payload) {
+    throw new Error('Training job has no stored payload');
+  }
+  await processTrainingJob(job.jobId, { ...job.payload, agentId: job.agentId, files: job.payload.files || [] });
+}
+
+// Training job processor. Input problems mark the job failed; anything thrown is retried by the queue.
+export async function processTrainingJob(jobId: string, jobData: any) {
+  try {
+    console.log(`[DEBUG] Starting training job ${jobId} for agent ${jobData.agentId}`);
+    await TrainJob.findOneAndUpdate({ jobId }, { progress: 0, error: null });
+    const { agentId, text, source, sourceUrl, sourceMetadata, fileType, files, embeddingProvider, replaceSource, resync, crawl, table } = jobData;
+    // A re-sync keeps the chunks that are still on the page; a replacement embeds everything anew
+    const replacingAll = !!replaceSource && !resync;
+    let trainingText = '';
+    let sourceDocuments: TrainingDocument[] | null = null; // Crawled pages or uploaded files
+    let crawlSummary: Record<string, unknown> | null = null;
+    let scrapeStrategy: ScrapeStrategy | null = null;
+    let usedFiles = false;
+    let fileNames: string[] = [];
+    let fileTypes: string[] = [];
+    const fileErrors: { file: string; index: number; error: string }[] = [];
+
+    console.log(`[DEBUG] Processing source: ${source}, sourceUrl: ${sourceUrl}, files count: ${files?.length || 0}`);
+
+    // Website crawling support: each page becomes its own source
+    if (source === 'website' && sourceUrl && crawl) {
+      console.log(`[DEBUG] Starting website crawl from: ${sourceUrl} (max ${crawl.maxPages} pages, depth ${crawl.maxDepth})`);
+      let crawlResult;
+      try {
+        crawlResult = await crawlWebsite(sourceUrl, crawl, {
+          shouldStop: async () => !!(await TrainJob.findOne({ jobId }).select('cancelRequested').lean())?.cancelRequested,
+          onPage: (page, pagesCrawled) => console.log(`[DEBUG] Crawled page ${pagesCrawled}/${crawl.maxPages}: ${page.url}`)
+        });
+      } catch (crawlError) {
+        // A site the URL guard rejects won't become allowed on retry
+        if (!(crawlError instanceof BlockedUrlError)) throw crawlError;
+        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: crawlError.message, source: 'website', url: sourceUrl } });
+        return;
+      }
+      await TrainingQueueService.throwIfCancelled(jobId);
+      crawlSummary = {
+        pagesCrawled: crawlResult.pages.length,
+        pages: crawlResult.pages.map(page => page.url),
+        // Pages fetched over plain HTTP vs. rendered in the browser
+        strategies: {
+          static: crawlResult.pages.filter(page => page.strategy === 'static').length,
+          browser: crawlResult.pages.filter(page => page.strategy === 'browser').length
+        },
+        skipped: crawlResult.skipped,
+        errors: crawlResult.errors
+      };
+      if (crawlResult.pages.length === 0) {
+        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'No pages could be crawled', source: 'website', url: sourceUrl, ...crawlSummary } });
+        return;
+      }
+      sourceDocuments = crawlResult.pages.map(page => ({
+        text: page.content,
+        sourceUrl: page.url,
+        sourceMetadata: { ...sourceMetadata, ...(page.title && { title: page.title }) },
+        markdown: true
+      }));
+    }
+    // Website scraping support
+    else if (source === 'website' && sourceUrl) {
+      console.log(`[DEBUG] Starting website scraping for: ${sourceUrl}`);
+      const websiteResult = await scrapeWebsite(sourceUrl);
+      if ('content' in websiteResult) {
+        trainingText = websiteResult.content;
+        scrapeStrategy = websiteResult.strategy;
+        console.log(`Successfully scraped website for training: ${sourceUrl} (${scrapeStrategy})`);
+      } else {
+        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: websiteResult.error, source: 'website', url: sourceUrl } });
+        return;
+      }
+    }
+    // YouTube transcript support
+    else if (source === 'youtube' && sourceUrl) {
+      console.log(`[DEBUG] Starting YouTube processing for: ${sourceUrl}`);
+      try {
+        const rawTranscript = await fetchYouTubeTranscript(sourceUrl);
+        trainingText = cleanTranscript(rawTranscript);
+        console.log('[DEBUG] YouTube transcript:', trainingText);
+        console.log(`Successfully fetched and cleaned transcript for URL: ${sourceUrl}`);
+      } catch (ytError: any) {
+        if (ytError.message?.includes('Transcript is disabled') || ytError.message?.includes('unavailable or empty')) {
+          console.log(`[INFO] Transcript not available ('${ytError.message}'). Falling back to Gemini summary for ${sourceUrl}.`);
+          try {
+            const summary = await summarizeYouTubeVideoWithGemini(sourceUrl);
+            console.log('[DEBUG] YouTube video summary:', summary);
+            trainingText = summary;
+            console.log(`Used Gemini to summarize YouTube video for training: ${sourceUrl}`);
+          } catch (geminiError: any) {
+            await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: geminiError.message, source: 'youtube-gemini', url: sourceUrl } });
+            console.log(`Failed to summarize YouTube video with Gemini: ${geminiError.message}`);
+            return;
+          }
+        } else {
+          await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: ytError.message, source: 'youtube', url: sourceUrl } });
+          return;
+        }
+      }
+    }
+    // Video processing support (multiple files)
+    else if (source === 'video' && files && Array.isArray(files) && files.length > 0) {
+      usedFiles = true;
+      fileNames = files.map((f: any) => f.originalname);
+      const processor = new VideoProcessor();
+      sourceDocuments = [];
+      for (let i = 0; i < files.length; i++) {
+        const fileName = files[i].originalname;
+        const mimeType = files[i].mimetype;
+        try {
+          const fileBuffer = await readStagedFile(files[i]);
+          const transcript = await processor.processVideo(fileBuffer, fileName, mimeType);
+          console.log('[DEBUG] Video transcript:', transcript);
+          sourceDocuments.push({ text: transcript, sourceUrl, fileName, fileIndex: i, sourceMetadata });
+        } catch (err: any) {
+          fileErrors.push({ file: fileName, index: i, error: err.message });
+        }
+      }
+      if (fileErrors.length === files.length) {
+        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to process all video files', details: fileErrors } });
+        return;
+      }
+      if (fileErrors.length > 0) {
+        await TrainJob.findOneAndUpdate({ jobId }, { error: { warning: 'Some video files failed to process', details: fileErrors } });
+      }
+    }
+    // Audio transcription support (multiple files)
+    else if (source === 'audio' && files && Array.isArray(files) && files.length > 0) {
+      usedFiles = true;
+      fileNames = files.map((f: any) => f.originalname);
+      const transcriber = new GeminiAudioTranscriber();
+      sourceDocuments = [];
+      for (let i = 0; i < files.length; i++) {
+        const fileName = files[i].originalname;
+        try {
+          const fileBuffer = await readStagedFile(files[i]);
+          const transcript = await transcriber.transcribeAudio(fileBuffer, fileName);
+          console.log(`[DEBUG] Text after audio transcription of ${fileName}:`, transcript.substring(0, 500) + '...');
+          sourceDocuments.push({ text: transcript, sourceUrl, fileName, fileIndex: i, sourceMetadata });
+        } catch (err: any) {
+          fileErrors.push({ file: fileName, index: i, error: err.message });
+        }
+      }
+      if (fileErrors.length === files.length) {
+        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to transcribe all audio files', details: fileErrors } });
+        return;
+      }
+      if (fileErrors.length > 0) {
+        await TrainJob.findOneAndUpdate({ jobId }, { error: { warning: 'Some audio files failed to transcribe', details: fileErrors } });
+      }
+    }
+    // Document parsing support
+    else if (source === 'document' && files && Array.isArray(files) && files.length > 0) {
+      usedFiles = true;
+      if (Array.isArray(fileType)) {
+        fileTypes = fileType;
+      } else if (typeof fileType === 'string') {
+        fileTypes = fileType.includes(',') ? fileType.split(',').map(f => f.trim()) : [fileType];
+      }
+      if (fileTypes.length !== files.length) {
+        fileTypes = files.map((f: any, i: number) => fileTypes[i] || f.originalname.split('.').pop() || 'txt');
+      }
+      sourceDocuments = [];
+      for (let i = 0; i < files.length; i++) {
+        const type = fileTypes[i] || files[i].originalname.split('.').pop() || 'txt';
+        fileTypes[i] = type;
+        fileNames.push(files[i].originalname);
+        let fileBuffer: Buffer;
+        try {
+          fileBuffer = await readStagedFile(files[i]);
+        } catch (err: any) {
+          // A missing staged file only fails that file, like one that can't be parsed
+          fileErrors.push({ file: files[i].originalname, index: i, error: `Failed to read uploaded file: ${err.message}` });
+          continue;
+        }
+        const parsed = await parseFile(fileBuffer, type, files[i].mimetype, { table });
+        if ('text' in parsed) {
+          sourceDocuments.push({ text: parsed.text, sourceUrl, fileName: files[i].originalname, fileIndex: i, sourceMetadata, segments: parsed.segments });
+        } else {
+          // Like audio and video, one unreadable file doesn't stop the others
+          fileErrors.push({ file: files[i].originalname, index: i, error: parsed.error });
+        }
+      }
+      if (fileErrors.length === files.length) {
+        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to parse all documents', source: 'document', details: fileErrors } });
+        return;
+      }
+      if (fileErrors.length > 0) {
+        await TrainJob.findOneAndUpdate({ jobId }, { error: { warning: 'Some documents failed to parse', details: fileErrors } });
+      }
+    }
+    // Fallback to raw text if provided
+    else if (text) {
+      trainingText = text;
+    }
+
+    const documents: TrainingDocument[] = (sourceDocuments ?? [{ text: trainingText, sourceUrl, sourceMetadata, markdown: source === 'website' }])
+      .filter(document => document.text && document.text.trim().length > 0);
+    if (documents.length === 0) {
+      console.log(`[DEBUG] No training text found for job ${jobId}`);
+      await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'No valid training text found in input or files.' } });
+      return;
+    }
+
+    console.log(`[DEBUG] Text ready for chunking. Documents: ${documents.length}, length: ${documents.reduce((sum, document) => sum + document.text.length, 0)}`);
+    
+    // Check if text is too large and truncate if necessary
+    const MAX_TRAINING_TEXT_LENGTH = 50 * 1024 * 1024; // 50MB limit for training data
+    for (const document of documents) {
+      if (document.text.length > MAX_TRAINING_TEXT_LENGTH) {
+        console.log(`[WARNING] Training text too large (${document.text.length} chars), truncating to ${MAX_TRAINING_TEXT_LENGTH} chars`);
+        document.text = document.text.substring(0, MAX_TRAINING_TEXT_LENGTH);
+        // Pages past the limit are dropped and the last one kept is cut at it
+        let remaining = MAX_TRAINING_TEXT_LENGTH;
+        document.segments = document.segments?.flatMap(segment => {
+          if (remaining <= 0) return [];
+          const truncated = { ...segment, text: segment.text.substring(0, remaining) };
+          remaining -= segment.text.length + 1;
+          return [truncated];
+        });
+      }
+    }
+    
+    // Chunk indexes and totals restart for every document, as each is its own source
+    const chunkDocument = (document: TrainingDocument) => document.segments
+      ? chunkSegments(document.segments)
+      : document.markdown ? chunkMarkdown(document.text) : chunkText(document.text);
+    const chunksWithMetadata = documents.flatMap(document => chunkDocument(document).map(chunk => ({ chunk, document })));
+    console.log(`[DEBUG] Text chunked. Number of chunks: ${chunksWithMetadata.length}`);
+
+    if (chunksWithMetadata.length === 0) {
+      console.log(`[DEBUG] No chunks created for job ${jobId}`);
+      await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to create chunks from training text.' } });
+      return;
+    }
+
+    // Extraction can take minutes; don't start embedding a job that was cancelled meanwhile
+    await TrainingQueueService.throwIfCancelled(jobId);
+
+    const embedder = getEmbeddingProvider(embeddingProvider);
+    const embeddingModel = getEmbeddingModelId(embedder);
+    const totalChunks = chunksWithMetadata.length;
+    await TrainJob.findOneAndUpdate({ jobId }, {
+      totalChunks,
+      fileNames,
+      usedFiles,
+      chunksProcessed: 0,
+      successCount: 0,
+      errorCount: 0,
+    });
+
+    // Content versions are counted per source
+    const nextContentVersions = new Map<string, number>();
+    for (const document of documents) {
+      if (!nextContentVersions.has(scopeKey(document))) {
+        nextContentVersions.set(scopeKey(document), await getNextContentVersion(agentId, { sourceUrl: document.sourceUrl, fileName: document.fileName }));
+      }
+    }
+    const documentStats = new Map(documents.map(document => [document, {
+      totalChunks: chunksWithMetadata.filter(item => item.document === document).length,
+      chunksStored: 0,
+      skippedCount: 0
+    }]));
+    let chunksProcessed = 0;
+    let chunksStored = 0;
+    let successCount = 0;
+    let errorCount = 0;
+    let skippedCount = 0;
+    let pendingEmbeddingCount = 0;
+    let cancelled = false;
+    let lastProgressAt = 0;
+
+    // Progress writes are throttled; each one also picks up cancellation requests
+    const reportProgress = async (force: boolean = false) => {
+      if (!force && Date.now() - lastProgressAt < TRAINING_CONFIG.progressIntervalMs) return;
+      lastProgressAt = Date.now();
+      const progressJob = await TrainJob.findOneAndUpdate({ jobId }, {
+        chunksProcessed,
+        progress: Math.round((chunksProcessed / totalChunks) * 100),
+        successCount,
+        errorCount,
+        skippedCount,
+        pendingEmbeddingCount
+      }, { new: true }).select('cancelRequested');
+      if (progressJob?.cancelRequested) {
+        cancelled = true;
+      }
+    };
+
+    // Chunks repeated within the same source are only stored once
+    const seenHashes = new Set<string>(); // `<scope>:<hash>`
+    const contentHashes = new Set<string>();
+    const uniqueChunks: { chunk: ChunkWithMetadata; document: TrainingDocument; contentHash: string }[] = [];
+    for (const { chunk, document } of chunksWithMetadata) {
+      // Table rows that differ only in their metadata columns are different content
+      const contentHash = generateContentHash(chunk.metadata.fields ? `${chunk.text}\n${JSON.stringify(chunk.metadata.fields)}` : chunk.text);
+      contentHashes.add(contentHash);
+      if (seenHashes.has(`${scopeKey(document)}:${contentHash}`)) {
+        skippedCount++;
+        documentStats.get(document)!.skippedCount++;
+        chunksProcessed++;
+        continue;
+      }
+      seenHashes.add(`${scopeKey(document)}:${contentHash}`);
+      uniqueChunks.push({ chunk, document, contentHash });
+    }
+
+    const batchSize = Math.max(1, Math.min(TRAINING_CONFIG.embeddingBatchSize, embedder.maxBatchSize));
+    const batches: typeof uniqueChunks[] = [];
+    for (let i = 0; i < uniqueChunks.length; i += batchSize) {
+      batches.push(uniqueChunks.slice(i, i + batchSize));
+    }
+    console.log(`[DEBUG] Embedding ${uniqueChunks.length} chunks in ${batches.length} batches of up to ${batchSize} (concurrency ${TRAINING_CONFIG.concurrency})`);
+
+    await runWithConcurrency(batches, TRAINING_CONFIG.concurrency, async (batch) => {
+      if (cancelled) return;
+
+      // Content already embedded with this model is skipped: within the same URL or file for those sources, anywhere otherwise
+      const existing = await Memory.find({
+        agentId,
+        contentHash: { $in: batch.map(item => item.contentHash) },
+        ...matchEmbeddingModel(embeddingModel),
+        // When replacing a source, its old chunks don't count: they are removed once this job is done
+        ...(replacingAll && { $nor: [{ ...SourceService.toFilter(agentId, replaceSource), trainJobId: { $ne: jobId } }] })
+      }).select('contentHash sourceUrl chunkMetadata.fileName').lean();
+      const newChunks = batch.filter(item => !existing.some(memory =>
+        memory.contentHash === item.contentHash &&
+        (!item.document.sourceUrl || memory.sourceUrl === item.document.sourceUrl) &&
+        (!item.document.fileName || memory.chunkMetadata?.fileName === item.document.fileName)));
+      skippedCount += batch.length - newChunks.length;
+      for (const item of batch) {
+        if (!newChunks.includes(item)) documentStats.get(item.document)!.skippedCount++;
+      }
+
+      if (newChunks.length > 0) {
+        // Content stored before (e.g. under another embedding model) keeps its version; a replacement is always a new version
+        const existingVersions = new Map<string, Map<string, number>>();
+        if (!replacingAll) {
+          for (const scope of new Set(newChunks.map(item => scopeKey(item.document)))) {
+            const scoped = newChunks.filter(item => scopeKey(item.document) === scope);
+            const { sourceUrl: scopeUrl, fileName } = scoped[0].document;
+            existingVersions.set(scope, await getExistingContentVersions(agentId, scoped.map(item => item.contentHash), { sourceUrl: scopeUrl, fileName }));
+          }
+        }
+        const embeddings = await embedChunks(embedder, newChunks.map(item => item.chunk.text));
+
+        const entries = newChunks.map(({ chunk, document, contentHash }, index) => {
+          // Chunks whose embedding fails are stored without a vector and retried by the embedding sweeper
+          const { vector, error: embeddingError } = embeddings[index];
+          return {
+            agentId,
+            text: chunk.text,
+            embedding: vector,
+            embeddingModel,
+            embeddingDimensions: vector.length || embedder.dimensions,
+            embeddingStatus: embeddingError ? 'pending_embedding' : 'ready',
+            ...(embeddingError && {
+              embeddingAttempts: 1,
+              embeddingError,
+              nextEmbeddingAttemptAt: new Date()
+            }),
+            trainJobId: jobId,
+            source,
+            sourceUrl: document.sourceUrl,
+            sourceMetadata: document.sourceMetadata,
+            chunkIndex: chunk.metadata.chunkIndex,
+            contentHash,
+            contentVersion: existingVersions.get(scopeKey(document))?.get(contentHash) ?? nextContentVersions.get(scopeKey(document)),
+            // File-based sources record the file each chunk came from
+            chunkMetadata: {
+              ...chunk.metadata,
+              fileName: document.fileName
+            }
+          } as Partial<IMemory>;
+        });
+
+        // Stored batch by batch, so a crashed job keeps its finished chunks and the retry skips them as duplicates
+        await Memory.insertMany(entries);
+        chunksStored += entries.length;
+        for (const item of newChunks) documentStats.get(item.document)!.chunksStored++;
+        const failedEmbeddings = embeddings.filter(embedding => embedding.error).length;
+        pendingEmbeddingCount += failedEmbeddings;
+        successCount += entries.length - failedEmbeddings;
+      }
+
+      chunksProcessed += batch.length;
+      console.log(`[DEBUG] Processed ${chunksProcessed}/${totalChunks} chunks`);
+      await reportProgress();
+    });
+
+    await reportProgress(true);
+    if (cancelled) {
+      throw new TrainingCancelledError(jobId);
+    }
+
+    // Listed in upload order, so failed files can be matched to the staged files when retrying
+    const fileResults: FileResult[] | null = usedFiles ? fileNames.map((fileName, index) => {
+      const failure = fileErrors.find(error => error.index === index);
+      const stats = Array.from(documentStats).find(([document]) => document.fileIndex === index)?.[1];
+      const fileResult = { fileName, ...(fileTypes[index] && { fileType: fileTypes[index] }) };
+      if (failure || !stats || stats.totalChunks === 0) {
+        return { ...fileResult, status: 'failed', totalChunks: 0, chunksStored: 0, skippedCount: 0, error: failure?.error || 'No text could be extracted from the file' };
+      }
+      const status = stats.chunksStored > 0 ? 'completed' : stats.skippedCount === stats.totalChunks ? 'skipped' : 'failed';
+      return { ...fileResult, status, ...stats };
+    }) : null;
+    // Some files failed: the job still completes, and POST /api/train/:jobId/retry reprocesses them
+    const failedFiles = fileResults?.filter(file => file.status === 'failed') || [];
+    const completedStatus = failedFiles.length > 0 ? 'completed_with_errors' : 'completed';
+
+    if (chunksStored === 0) {
+      // Check if all chunks were skipped due to duplicates
+      if (skippedCount > 0 && skippedCount === totalChunks) {
+        console.log(`[DEBUG] All chunks were duplicates for job ${jobId}`);
+        await TrainJob.findOneAndUpdate({ jobId }, {
+          status: completedStatus,
+          result: {
+            agentId,
+            chunksStored: 0,
+            totalChunks,
+            successCount: 0,
+            errorCount: 0,
+            skippedCount,
+            fileNames,
+            usedFiles,
+            ...(fileResults && { files: fileResults, failedFiles: failedFiles.length }),
+            source,
+            sourceUrl,
+            sourceMetadata,
+            message: 'All content was already trained (duplicates skipped)',
+            ...(scrapeStrategy && { scrapeStrategy }),
+            ...(crawlSummary && { crawl: crawlSummary }),
+            ...(resync && { contentHashes: Array.from(contentHashes) })
+          }
+        });
+        if (replaceSource) await SourceService.completeReplacement(jobId);
+      } else {
+        console.log(`[DEBUG] No chunks processed successfully for job ${jobId}`);
+        await TrainJob.findOneAndUpdate({ jobId }, { status: 'failed', error: { error: 'Failed to process any chunks', ...(fileResults && { files: fileResults }) } });
+      }
+      return;
+    }
+
+    await TrainJob.findOneAndUpdate({ jobId }, {
+      status: completedStatus,
+      result: {
+        agentId,
+        chunksStored,
+        totalChunks,
+        successCount,
+        errorCount,
+        skippedCount,
+        pendingEmbeddingCount,
+        fileNames,
+        usedFiles,
+        ...(fileResults && { files: fileResults, failedFiles: failedFiles.length }),
+        source,
+        sourceUrl,
+        sourceMetadata,
+        ...(scrapeStrategy && { scrapeStrategy }),
+        ...(crawlSummary && { crawl: crawlSummary }),
+        // Chunks of the page that are not in this list disappeared and are removed
+        ...(resync && { contentHashes: Array.from(contentHashes) })
+      }
+    });
+    console.log(`[DEBUG] Training job ${jobId} ${completedStatus} (${chunksStored} chunks stored, ${failedFiles.length} files failed)`);
+    if (replaceSource) await SourceService.completeReplacement(jobId);
+  } catch (error: unknown) {
+    if (error instanceof TrainingCancelledError) {
+      // Chunks are stored as batches finish; a cancelled job leaves nothing behind
+      const { deletedCount } = await Memory.deleteMany({ trainJobId: jobId });
+      console.log(`[DEBUG] Removed ${deletedCount} chunks stored by cancelled job ${jobId}`);
+    } else {
+      console.error(`[ERROR] Training job ${jobId} failed:`, error);
+    }
+    // The queue decides between retrying, failing and cancelling
+    throw error;
+  }
+}
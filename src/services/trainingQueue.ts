@@ -0,0 +1,359 @@
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import TrainJob, { IStagedFile, ITrainJob, ITrainJobPayload } from '../models/TrainJob.js';
+import { copyStagedFile, removeStagedFile, removeStagedFiles } from './staging.js';
+
+// Thrown by a running job when it notices a cancellation request
+export class TrainingCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Training job ${jobId} was cancelled`);
+    this.name = 'TrainingCancelledError';
+  }
+}
+
+// Thrown when a job has no failed files that can still be retried; routes turn it into a 409
+export class TrainingRetryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TrainingRetryError';
+  }
+}
+
+export type TrainingJobHandler = (job: ITrainJob) => Promise<void>;
+
+export interface TrainingQueueConfig {
+  concurrency: number; // Jobs a worker runs at the same time
+  pollIntervalMs: number; // How often an idle worker looks for queued jobs
+  maxAttempts: number; // Runs per job before it is marked failed
+  baseRetryDelayMs: number; // Backoff after the first failed attempt, doubled for each further attempt
+  maxRetryDelayMs: number;
+  heartbeatMs: number; // How often running jobs prove their worker is alive
+  staleMs: number; // Running jobs without a heartbeat for this long are considered abandoned
+  retryRetentionMs: number; // How long failed files of a completed_with_errors job can be retried
+}
+
+/**
+ * Mongo-backed training queue. TrainJob documents are the queue: workers claim queued jobs
+ * atomically, keep a heartbeat while they run them, and retry failures with exponential backoff.
+ * Workers run inside the API process (RUN_TRAINING_WORKER, default on) or in `src/worker.ts`.
+ */
+export class TrainingQueueService {
+  private static config: TrainingQueueConfig = {
+    concurrency: parseInt(process.env.TRAIN_WORKER_CONCURRENCY || '2'),
+    pollIntervalMs: parseInt(process.env.TRAIN_WORKER_POLL_MS || '2000'),
+    maxAttempts: parseInt(process.env.TRAIN_JOB_MAX_ATTEMPTS || '3'),
+    baseRetryDelayMs: 30 * 1000,
+    maxRetryDelayMs: 10 * 60 * 1000,
+    heartbeatMs: 15 * 1000,
+    staleMs: parseInt(process.env.TRAIN_JOB_STALE_MS || String(5 * 60 * 1000)),
+    retryRetentionMs: parseInt(process.env.TRAIN_RETRY_RETENTION_HOURS || '72') * 60 * 60 * 1000
+  };
+
+  private static workerId = `${os.hostname()}-${process.pid}`;
+  private static handler: TrainingJobHandler | null = null;
+  private static activeJobs = new Set<string>();
+  private static pollTimer: NodeJS.Timeout | null = null;
+  private static staleTimer: NodeJS.Timeout | null = null;
+  private static polling = false;
+
+  /**
+   * Add a job to the queue
+   */
+  static async enqueue(jobId: string, agentId: string, payload: ITrainJobPayload): Promise<ITrainJob> {
+    const job = await TrainJob.create({
+      jobId,
+      status: 'queued',
+      progress: 0,
+      error: null,
+      result: null,
+      agentId,
+      fileNames: payload.files.map(f => f.originalname),
+      usedFiles: payload.files.length > 0,
+      payload,
+      attempts: 0,
+      maxAttempts: this.config.maxAttempts,
+      runAt: new Date()
+    });
+
+    // Pick it up right away when a worker runs in this process
+    if (this.handler) setImmediate(() => this.poll());
+    return job;
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cancelled immediately; running jobs stop at their next checkpoint.
+   * Returns null if the job does not exist.
+   */
+  static async cancel(jobId: string): Promise<ITrainJob | null> {
+    const queuedJob = await TrainJob.findOneAndUpdate(
+      { jobId, status: 'queued' },
+      { $set: { status: 'cancelled', cancelRequested: true, finishedAt: new Date() } },
+      { new: true }
+    );
+    if (queuedJob) {
+      await removeStagedFiles(jobId);
+      return queuedJob;
+    }
+
+    const runningJob = await TrainJob.findOneAndUpdate(
+      { jobId, status: 'processing' },
+      { $set: { cancelRequested: true } },
+      { new: true }
+    );
+    return runningJob || TrainJob.findOne({ jobId });
+  }
+
+  /**
+   * Queue a new job that reprocesses only the files a completed_with_errors job failed on.
+   * The files move to the new job. Throws TrainingRetryError if there is nothing left to retry.
+   */
+  static async retryFailedFiles(jobId: string): Promise<ITrainJob> {
+    const retryJobId = uuidv4();
+    // Claimed first, so two requests can't both take the files
+    const job = await TrainJob.findOneAndUpdate(
+      { jobId, status: 'completed_with_errors', retriedBy: null, retryableUntil: { $gt: new Date() } },
+      { $set: { retriedBy: retryJobId } },
+      { new: true }
+    );
+    if (!job?.payload) {
+      throw new TrainingRetryError('Only jobs that completed with errors can be retried, once, within the retention period');
+    }
+
+    const failedIndexes = this.failedFileIndexes(job);
+    try {
+      const files: IStagedFile[] = [];
+      for (const index of failedIndexes) {
+        files.push(await copyStagedFile(job.payload.files[index], retryJobId));
+      }
+      const fileTypes = failedIndexes.map(index => job.result?.files?.[index]?.fileType);
+      // Not a replacement: completing one would remove the chunks the original job stored
+      const { replaceSource, ...payload } = job.payload;
+      const retryJob = await this.enqueue(retryJobId, job.agentId, {
+        ...payload,
+        files,
+        fileType: fileTypes.every(Boolean) ? fileTypes : undefined,
+        retryOf: jobId
+      });
+      await TrainJob.updateOne({ jobId }, { $unset: { retryableUntil: 1 } });
+      await removeStagedFiles(jobId);
+      console.log(`🔁 Training job ${retryJobId} retries ${files.length} failed files of job ${jobId}`);
+      return retryJob;
+    } catch (error) {
+      await TrainJob.updateOne({ jobId }, { $set: { retriedBy: null } });
+      await removeStagedFiles(retryJobId);
+      throw error;
+    }
+  }
+
+  static async throwIfCancelled(jobId: string): Promise<void> {
+    const job = await TrainJob.findOne({ jobId }).select('cancelRequested').lean();
+    if (job?.cancelRequested) {
+      throw new TrainingCancelledError(jobId);
+    }
+  }
+
+  /**
+   * Start processing queued jobs in this process
+   */
+  static async startWorker(handler: TrainingJobHandler): Promise<void> {
+    if (this.handler) return;
+    this.handler = handler;
+
+    await this.recoverStaleJobs();
+    this.pollTimer = setInterval(() => this.poll(), this.config.pollIntervalMs);
+    this.staleTimer = setInterval(() => {
+      this.recoverStaleJobs();
+      this.expireRetryableFiles();
+    }, this.config.staleMs);
+    console.log(`👷 Training worker ${this.workerId} started (concurrency ${this.config.concurrency})`);
+    this.poll();
+  }
+
+  /**
+   * Stop claiming new jobs. Running jobs keep going; if the process exits first they are
+   * detected as stale and retried by the next worker.
+   */
+  static stopWorker(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.staleTimer) clearInterval(this.staleTimer);
+    this.pollTimer = null;
+    this.staleTimer = null;
+    this.handler = null;
+  }
+
+  /**
+   * Requeue (or fail, once out of attempts) jobs whose worker stopped sending heartbeats
+   */
+  static async recoverStaleJobs(): Promise<number> {
+    try {
+      const staleBefore = new Date(Date.now() - this.config.staleMs);
+      const staleJobs = await TrainJob.find({
+        status: 'processing',
+        $or: [
+          { heartbeatAt: { $lt: staleBefore } },
+          // Jobs started before the queue existed never had a heartbeat
+          { heartbeatAt: null, updatedAt: { $lt: staleBefore } }
+        ]
+      });
+
+      let recovered = 0;
+      for (const job of staleJobs) {
+        if (this.activeJobs.has(job.jobId)) continue;
+        const canRetry = !!job.payload && !job.cancelRequested && job.attempts < job.maxAttempts;
+        const update = canRetry
+          ? { status: 'queued', runAt: new Date(), workerId: null, error: { warning: `Worker ${job.workerId || 'unknown'} stopped responding; job requeued` } }
+          : job.cancelRequested
+            ? { status: 'cancelled', workerId: null, finishedAt: new Date() }
+            : { status: 'failed', workerId: null, finishedAt: new Date(), error: { error: 'Job was interrupted and cannot be retried' } };
+
+        // Guard against another worker recovering (or the owner updating) the job at the same time
+        const result = await TrainJob.updateOne(
+          { jobId: job.jobId, status: 'processing', heartbeatAt: job.heartbeatAt ?? null },
+          { $set: update }
+        );
+        if (result.modifiedCount > 0) {
+          recovered++;
+          console.log(`🩺 Stale training job ${job.jobId} ${canRetry ? 'requeued' : `marked ${update.status}`}`);
+          if (!canRetry) await removeStagedFiles(job.jobId);
+        }
+      }
+      return recovered;
+    } catch (error) {
+      console.error('❌ Failed to recover stale training jobs:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Remove the files kept for retries once their retention period is over
+   */
+  static async expireRetryableFiles(): Promise<number> {
+    try {
+      const expired = await TrainJob.find({ retryableUntil: { $lte: new Date() }, retriedBy: null }).select('jobId').lean();
+      for (const job of expired) {
+        await removeStagedFiles(job.jobId);
+        await TrainJob.updateOne({ jobId: job.jobId, retriedBy: null }, { $unset: { retryableUntil: 1 } });
+      }
+      return expired.length;
+    } catch (error) {
+      console.error('❌ Failed to expire retryable training files:', error);
+      return 0;
+    }
+  }
+
+  static getStatus(): { workerId: string; running: boolean; activeJobs: string[]; concurrency: number } {
+    return {
+      workerId: this.workerId,
+      running: this.handler !== null,
+      activeJobs: Array.from(this.activeJobs),
+      concurrency: this.config.concurrency
+    };
+  }
+
+  private static async poll(): Promise<void> {
+    const handler = this.handler;
+    if (this.polling || !handler) return;
+    this.polling = true;
+    try {
+      // stopWorker() clears the timer, which ends the loop
+      while (this.pollTimer && this.activeJobs.size < this.config.concurrency) {
+        const job = await this.claimNext();
+        if (!job) break;
+        // Not awaited so jobs run side by side. A failure while recording the outcome leaves the job
+        // without heartbeats, and stale job recovery picks it up again.
+        this.runJob(job, handler).catch(error => console.error(`❌ Training job ${job.jobId} failed to record its outcome:`, error));
+      }
+    } catch (error) {
+      console.error('❌ Training queue poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private static async claimNext(): Promise<ITrainJob | null> {
+    const now = new Date();
+    return TrainJob.findOneAndUpdate(
+      { status: 'queued', runAt: { $lte: now }, cancelRequested: { $ne: true } },
+      {
+        $set: { status: 'processing', workerId: this.workerId, heartbeatAt: now, startedAt: now },
+        $inc: { attempts: 1 }
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+  }
+
+  // Positions in payload.files of the files the job result reports as failed
+  private static failedFileIndexes(job: ITrainJob): number[] {
+    return (job.payload?.files || []).map((_, index) => index).filter(index => job.result?.files?.[index]?.status === 'failed');
+  }
+
+  /**
+   * Keep the failed files of a completed_with_errors job staged for POST /api/train/:jobId/retry
+   * and remove the others
+   */
+  private static async keepFailedFiles(job: ITrainJob): Promise<void> {
+    const failedIndexes = this.failedFileIndexes(job);
+    const files = job.payload?.files || [];
+    if (failedIndexes.length === 0) {
+      await removeStagedFiles(job.jobId);
+      return;
+    }
+    for (const [index, file] of files.entries()) {
+      if (!failedIndexes.includes(index)) await removeStagedFile(file);
+    }
+    await TrainJob.updateOne({ jobId: job.jobId }, { $set: { retryableUntil: new Date(Date.now() + this.config.retryRetentionMs) } });
+  }
+
+  private static async runJob(job: ITrainJob, handler: TrainingJobHandler): Promise<void> {
+    const { jobId } = job;
+    this.activeJobs.add(jobId);
+    const heartbeat = setInterval(() => {
+      TrainJob.updateOne({ jobId, workerId: this.workerId }, { $set: { heartbeatAt: new Date() } })
+        .catch(error => console.error(`⚠️ Heartbeat failed for job ${jobId}:`, error));
+    }, this.config.heartbeatMs);
+
+    console.log(`👷 Worker ${this.workerId} running training job ${jobId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    try {
+      await handler(job);
+      const finished = await TrainJob.findOneAndUpdate({ jobId }, { $set: { finishedAt: new Date(), workerId: null } }, { new: true });
+      if (finished?.status === 'completed_with_errors') {
+        await this.keepFailedFiles(finished);
+      } else {
+        await removeStagedFiles(jobId);
+      }
+    } catch (error) {
+      if (error instanceof TrainingCancelledError) {
+        console.log(`🛑 Training job ${jobId} cancelled`);
+        await TrainJob.updateOne({ jobId }, { $set: { status: 'cancelled', finishedAt: new Date(), workerId: null } });
+        await removeStagedFiles(jobId);
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (job.attempts < job.maxAttempts) {
+        const delay = Math.min(this.config.baseRetryDelayMs * Math.pow(2, job.attempts - 1), this.config.maxRetryDelayMs);
+        console.error(`[ERROR] Training job ${jobId} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s:`, errorMessage);
+        await TrainJob.updateOne({ jobId }, {
+          $set: {
+            status: 'queued',
+            runAt: new Date(Date.now() + delay),
+            workerId: null,
+            error: { error: errorMessage, attempt: job.attempts, retryAt: new Date(Date.now() + delay) }
+          }
+        });
+      } else {
+        console.error(`[ERROR] Training job ${jobId} failed after ${job.attempts} attempts:`, errorMessage);
+        await TrainJob.updateOne({ jobId }, {
+          $set: { status: 'failed', finishedAt: new Date(), workerId: null, error: { error: errorMessage, attempts: job.attempts } }
+        });
+        await removeStagedFiles(jobId);
+      }
+    } finally {
+      clearInterval(heartbeat);
+      this.activeJobs.delete(jobId);
+      // A slot just freed up
+      setImmediate(() => this.poll());
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { ResponseAudit, IResponseAudit } from '../models/Analytics.js';
-import { generateReply } from './gemini.js';
+import { generateReply } from './llm.js';
 
 export interface AuditResult {
   hallucinationRiskScore: number;
@@ -40,7 +40,8 @@ export class WatchdogService {
     response: string,
     confidence: number,
     chunksUsed: number,
-    sources: string[]
+    sources: string[],
+    llmProvider?: string
   ): Promise<AuditResult> {
     
     if (!this.config.enableAuditing) {
@@ -54,7 +55,7 @@ export class WatchdogService {
       const auditPrompt = this.generateAuditPrompt(question, response, confidence, chunksUsed, sources);
       
       // Get LLM audit
-      const auditResponse = await generateReply(auditPrompt);
+      const auditResponse = await generateReply(auditPrompt, llmProvider);
       
       // Parse audit results
       const auditResult = this.parseAuditResponse(auditResponse);
@@ -3,19 +3,9 @@ import dotenv from 'dotenv';
 import fs from 'fs';
 import mime from 'mime-types';
 import path from 'path';
+import { getGeminiApiKeys } from '../services/providers/gemini.js';
 dotenv.config();
 
-// Gather all Gemini API keys from env
-function getGeminiApiKeys(): string[] {
-  const keys: string[] = [];
-  if (process.env.GEMINI_API_KEY) keys.push(process.env.GEMINI_API_KEY);
-  for (let i = 1; i <= 10; i++) {
-    const key = process.env[`GEMINI_API_KEY_${i}` as any];
-    if (key) keys.push(key);
-  }
-  return keys;
-}
-
 export class GeminiAudioTranscriber {
   private apiKeys: string[];
   private currentApiKeyIndex: number = 0;
@@ -0,0 +1,161 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import { GuardedProxy, startGuardedProxy } from './guardedProxy.js';
+
+const BROWSER_POOL_CONFIG = {
+  maxPages: parseInt(process.env.BROWSER_POOL_MAX_PAGES || '3'), // Pages open at the same time across all scrapes
+  idleCloseMs: 60 * 1000, // Close the browser after this long without pages
+  launchTimeoutMs: 30000
+};
+
+const LAUNCH_ARGS = [
+  '--no-sandbox',
+  '--disable-setuid-sandbox',
+  '--disable-dev-shm-usage',
+  '--disable-accelerated-2d-canvas',
+  '--no-first-run',
+  '--no-zygote',
+  '--single-process',
+  '--disable-gpu',
+  '--disable-background-timer-throttling',
+  '--disable-backgrounding-occluded-windows',
+  '--disable-renderer-backgrounding',
+  '--disable-features=TranslateUI',
+  '--disable-ipc-flooding-protection',
+  '--disable-default-apps',
+  '--disable-extensions',
+  '--disable-plugins',
+  '--disable-sync',
+  '--disable-translate',
+  '--hide-scrollbars',
+  '--mute-audio',
+  '--no-default-browser-check',
+  '--no-pings',
+  '--disable-features=VizDisplayCompositor',
+  '--disable-background-networking',
+  '--disable-client-side-phishing-detection',
+  '--disable-component-extensions-with-background-pages',
+  '--disable-domain-reliability',
+  '--disable-features=AudioServiceOutOfProcess',
+  '--disable-hang-monitor',
+  '--disable-prompt-on-repost',
+  '--force-color-profile=srgb',
+  '--metrics-recording-only',
+  '--safebrowsing-disable-auto-update',
+  '--enable-automation',
+  '--password-store=basic',
+  '--use-mock-keychain',
+  '--disable-blink-features=AutomationControlled',
+  '--disable-features=WebUIDarkMode',
+  // WebRTC may only use the proxy, so pages can't send UDP to private addresses
+  '--force-webrtc-ip-handling-policy=disable_non_proxied_udp',
+  // Loopback is reached directly by default; send it to the proxy too, which refuses it
+  '--proxy-bypass-list=<-loopback>',
+];
+
+/**
+ * One Puppeteer browser shared by every scrape in the process. Pages are handed out up to
+ * BROWSER_POOL_MAX_PAGES at a time; further callers wait for a free slot. The browser is
+ * relaunched if it crashes and closed when it has been idle for a minute. All of its traffic goes
+ * through a guarded proxy (see guardedProxy.ts), so hosts are resolved and checked by the URL guard.
+ */
+export class BrowserPool {
+  private static browser: Browser | null = null;
+  private static proxy: GuardedProxy | null = null;
+  private static launching: Promise<Browser> | null = null;
+  private static openPages = 0;
+  private static waiting: (() => void)[] = [];
+  private static idleTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Run fn with a fresh page, closing the page afterwards
+   */
+  static async withPage<T>(fn: (page: Page) => Promise<T>): Promise<T> {
+    await this.acquireSlot();
+    let page: Page | null = null;
+    try {
+      const browser = await this.getBrowser();
+      page = await browser.newPage();
+      return await fn(page);
+    } finally {
+      if (page) {
+        await page.close().catch(() => undefined);
+      }
+      this.releaseSlot();
+    }
+  }
+
+  static async close(): Promise<void> {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    const browser = this.browser;
+    this.browser = null;
+    if (browser) {
+      await browser.close().catch(() => undefined);
+    }
+    await this.closeProxy();
+  }
+
+  private static async acquireSlot(): Promise<void> {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.openPages < BROWSER_POOL_CONFIG.maxPages) {
+      this.openPages++;
+      return;
+    }
+    // The slot is handed over by releaseSlot, so openPages stays the same
+    await new Promise<void>(resolve => this.waiting.push(resolve));
+  }
+
+  private static releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+    this.openPages--;
+    if (this.openPages === 0) {
+      this.idleTimer = setTimeout(() => this.close(), BROWSER_POOL_CONFIG.idleCloseMs);
+      this.idleTimer.unref();
+    }
+  }
+
+  private static async getBrowser(): Promise<Browser> {
+    if (this.browser?.connected) return this.browser;
+    // Concurrent callers share one launch
+    if (!this.launching) {
+      this.launching = this.closeProxy().then(startGuardedProxy).then(proxy => {
+        this.proxy = proxy;
+        return puppeteer.launch({
+          headless: true,
+          executablePath: process.env.NODE_ENV === "production"
+            ? process.env.PUPPETEER_EXECUTABLE_PATH
+            : undefined,
+          args: [...LAUNCH_ARGS, `--proxy-server=${proxy.url}`],
+          timeout: BROWSER_POOL_CONFIG.launchTimeoutMs,
+        });
+      }).then(browser => {
+        this.browser = browser;
+        browser.on('disconnected', () => {
+          if (this.browser === browser) this.browser = null;
+        });
+        return browser;
+      }).finally(() => {
+        this.launching = null;
+      });
+    }
+    return this.launching;
+  }
+
+  // The proxy of a browser that crashed is replaced on the next launch
+  private static async closeProxy(): Promise<void> {
+    const proxy = this.proxy;
+    this.proxy = null;
+    if (proxy) {
+      await proxy.close();
+    }
+  }
+}
@@ -8,8 +8,36 @@ export interface ChunkMetadata {
   startPosition?: number;
   endPosition?: number;
   section?: string;
+  sectionPath?: string[]; // Headings above the chunk, outermost first (Markdown sources)
+  pageNumber?: number; // Page or slide the chunk was taken from (PDFs, slide decks)
+  rowNumber?: number; // Table row the chunk holds (CSVs, spreadsheets)
+  fields?: Record<string, string>; // Filterable column values of that row
+  ocrConfidence?: number; // OCR confidence (0-100) of the page or image the chunk was read from
 }
 
+// Part of a parsed document that chunks must not cross, such as one PDF page, slide or sheet
+export interface TextSegment {
+  text: string;
+  pageNumber?: number;
+  section?: string; // Sheet, slide or chapter title, put in front of the chunks' heading paths
+  markdown?: boolean; // Chunked along its Markdown headings
+  rowNumber?: number; // Table row; kept whole as one chunk however long it is
+  fields?: Record<string, string>;
+  ocrConfidence?: number; // Set when the text was read with OCR
+}
+
+// Source that content is deduplicated and versioned within: a URL, an uploaded file, or both
+export interface ContentScope {
+  sourceUrl?: string;
+  fileName?: string;
+}
+
+// Query condition for the chunks of a scope; an empty scope matches all of the agent's chunks
+const scopeFilter = (scope: ContentScope) => ({
+  ...(scope.sourceUrl && { sourceUrl: scope.sourceUrl }),
+  ...(scope.fileName && { 'chunkMetadata.fileName': scope.fileName })
+});
+
 export interface ChunkWithMetadata {
   text: string;
   metadata: ChunkMetadata;
@@ -23,27 +51,39 @@ export function generateContentHash(text: string): string {
 }
 
 /**
- * Check if content has changed and determine new version
+ * Versions of content that is already stored, keyed by content hash
  */
-export async function getContentVersion(agentId: string, contentHash: string, sourceUrl?: string): Promise<number> {
+export async function getExistingContentVersions(agentId: string, contentHashes: string[], scope: ContentScope = {}): Promise<Map<string, number>> {
+  const versions = new Map<string, number>();
+  if (contentHashes.length === 0) return versions;
   try {
-    // Find existing content with same hash
-    const existing = await Memory.findOne({ 
-      agentId, 
-      contentHash,
-      ...(sourceUrl && { sourceUrl }) // Only check same source URL if provided
-    });
-    
-    if (existing) {
-      return existing.contentVersion; // Return existing version
+    const existing = await Memory.find({
+      agentId,
+      contentHash: { $in: contentHashes },
+      ...scopeFilter(scope) // Only check the same source if one is given
+    }).select('contentHash contentVersion').lean();
+
+    for (const chunk of existing) {
+      if (chunk.contentHash && !versions.has(chunk.contentHash)) {
+        versions.set(chunk.contentHash, chunk.contentVersion);
+      }
     }
-    
-    // Find highest version for this agent and source
-    const highestVersion = await Memory.findOne({ 
+  } catch (error) {
+    console.error('Error getting content versions:', error);
+  }
+  return versions;
+}
+
+/**
+ * Version given to new content for an agent and source
+ */
+export async function getNextContentVersion(agentId: string, scope: ContentScope = {}): Promise<number> {
+  try {
+    const highestVersion = await Memory.findOne({
       agentId,
-      ...(sourceUrl && { sourceUrl })
-    }).sort({ contentVersion: -1 });
-    
+      ...scopeFilter(scope)
+    }).sort({ contentVersion: -1 }).select('contentVersion').lean();
+
     return (highestVersion?.contentVersion || 0) + 1;
   } catch (error) {
     console.error('Error getting content version:', error);
@@ -188,4 +228,140 @@ export function chunkText(text: string, maxLength: number = 2000, overlap: numbe
         console.error('[DEBUG] chunkText error:', err);
         return [];
     }
-}
\ No newline at end of file
+}
+
+interface MarkdownSection {
+  path: string[];
+  text: string;
+  offset: number;
+}
+
+/**
+ * Split Markdown into sections at headings (outside code fences). Each section's text starts
+ * with its heading line, kept on the same paragraph as the content below it.
+ */
+function splitMarkdownSections(text: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [];
+  const headings: string[] = [];
+  let current = { path: [] as string[], heading: null as string | null, lines: [] as string[], offset: 0 };
+  let inFence = false;
+  let offset = 0;
+
+  const finish = () => {
+    const body = current.lines.join('\n').replace(/^\s*\n/, '');
+    // Sections that are only a heading (e.g. directly followed by a subheading) hold no content
+    if (body.trim().length > 0) {
+      sections.push({ path: current.path, text: current.heading ? `${current.heading}\n${body}` : body, offset: current.offset });
+    }
+  };
+
+  for (const line of text.split('\n')) {
+    if (/^(```|~~~)/.test(line.trim())) inFence = !inFence;
+    const heading = inFence ? null : /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      finish();
+      const level = heading[1].length;
+      headings.length = Math.min(headings.length, level - 1);
+      headings[level - 1] = heading[2];
+      current = { path: headings.filter(Boolean), heading: line, lines: [], offset };
+    } else {
+      current.lines.push(line);
+    }
+    offset += line.length + 1;
+  }
+  finish();
+  return sections;
+}
+
+/**
+ * Split oversized line-based blocks (tables, lists) at line boundaries. Table parts repeat the
+ * header rows so every chunk can be read on its own.
+ */
+function splitLongLineBlocks(text: string, maxLength: number): string {
+  return text.split(/\n\s*\n/).map(block => {
+    const lines = block.split('\n');
+    if (block.length <= maxLength || lines.length < 2) return block;
+    const isTable = lines.length > 2 && /^\|.*\|$/.test(lines[0].trim()) && /^\|[\s|:-]+\|$/.test(lines[1].trim());
+    const header = isTable ? lines.slice(0, 2) : [];
+    const parts: string[][] = [];
+    let part: string[] = [...header];
+    for (const line of lines.slice(header.length)) {
+      if (part.length > header.length && [...part, line].join('\n').length > maxLength) {
+        parts.push(part);
+        part = [...header];
+      }
+      part.push(line);
+    }
+    parts.push(part);
+    return parts.map(lines => lines.join('\n')).join('\n\n');
+  }).join('\n\n');
+}
+
+/**
+ * Chunk Markdown (e.g. a scraped web page) section by section. Chunks never span headings, and
+ * each one records its heading path in `section` ("Pricing > Enterprise") and `sectionPath`.
+ */
+export function chunkMarkdown(text: string, maxLength: number = 2000, overlap: number = 400): ChunkWithMetadata[] {
+    if (typeof text !== 'string' || text.trim().length === 0) return [];
+
+    const chunks: ChunkWithMetadata[] = [];
+    for (const section of splitMarkdownSections(text)) {
+        for (const chunk of chunkText(splitLongLineBlocks(section.text, maxLength), maxLength, overlap)) {
+            chunks.push({
+                text: chunk.text,
+                metadata: {
+                    ...chunk.metadata,
+                    chunkIndex: chunks.length,
+                    startPosition: section.offset + (chunk.metadata.startPosition ?? 0),
+                    endPosition: section.offset + (chunk.metadata.endPosition ?? chunk.text.length),
+                    section: section.path.length > 0 ? section.path.join(' > ') : undefined,
+                    ...(section.path.length > 0 && { sectionPath: section.path })
+                }
+            });
+        }
+    }
+
+    chunks.forEach(chunk => {
+        chunk.metadata.totalChunks = chunks.length;
+    });
+    return chunks;
+}
+
+
+/**
+ * Chunk a document segment by segment (e.g. page by page), so no chunk spans a page break and
+ * each one keeps the page number and section of its segment. Table rows become one chunk each.
+ * Positions are offsets in the segments joined by newlines.
+ */
+export function chunkSegments(segments: TextSegment[], maxLength: number = 2000, overlap: number = 400): ChunkWithMetadata[] {
+    const chunks: ChunkWithMetadata[] = [];
+    let offset = 0;
+    for (const segment of segments) {
+        const segmentChunks: ChunkWithMetadata[] = segment.rowNumber !== undefined
+            ? [{ text: segment.text.trim(), metadata: { chunkIndex: 0, totalChunks: 1, chunkSize: segment.text.trim().length } }]
+            : segment.markdown ? chunkMarkdown(segment.text, maxLength, overlap) : chunkText(segment.text, maxLength, overlap);
+        for (const chunk of segmentChunks) {
+            const sectionPath = [...(segment.section ? [segment.section] : []), ...(chunk.metadata.sectionPath || [])];
+            chunks.push({
+                text: chunk.text,
+                metadata: {
+                    ...chunk.metadata,
+                    chunkIndex: chunks.length,
+                    startPosition: offset + (chunk.metadata.startPosition ?? 0),
+                    endPosition: offset + (chunk.metadata.endPosition ?? chunk.text.length),
+                    ...(segment.pageNumber !== undefined && { pageNumber: segment.pageNumber }),
+                    ...(segment.rowNumber !== undefined && { rowNumber: segment.rowNumber }),
+                    ...(segment.fields && { fields: segment.fields }),
+                    ...(segment.ocrConfidence !== undefined && { ocrConfidence: segment.ocrConfidence }),
+                    ...(sectionPath.length > 0 && { section: sectionPath.join(' > '), sectionPath })
+                }
+            });
+        }
+        offset += segment.text.length + 1;
+    }
+
+    chunks.forEach(chunk => {
+        chunk.metadata.totalChunks = chunks.length;
+    });
+    return chunks;
+}
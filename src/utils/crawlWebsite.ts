@@ -0,0 +1,231 @@
+import { URL } from 'url';
+import { compilePathPattern, CRAWLER_USER_AGENT, fetchRobotsTxt } from './robots.js';
+import { isImportantRoute, ScrapeStrategy, scrapePage } from './scrapeWebsite.js';
+import { assertUrlAllowed, BlockedUrlError, guardedGet } from './urlGuard.js';
+
+export const CRAWL_LIMITS = {
+  defaultMaxPages: 20,
+  maxPages: parseInt(process.env.CRAWL_MAX_PAGES || '200'), // Highest maxPages a request may ask for
+  defaultMaxDepth: 2,
+  maxDepth: 5,
+  maxPathPatterns: 20,
+  hostDelayMs: parseInt(process.env.CRAWL_HOST_DELAY_MS || '1000'), // Minimum time between requests to one host
+  sitemapMaxFiles: 10, // Sitemap files read, including those listed by sitemap indexes
+  sitemapMaxUrls: 5000
+};
+
+export interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number; // Link hops from the start URL; sitemap URLs count as one hop
+  includePaths?: string[]; // Only follow paths matching one of these (robots.txt pattern syntax)
+  excludePaths?: string[]; // Never follow paths matching one of these
+  useSitemap: boolean; // Seed the crawl with the site's sitemap
+}
+
+export interface CrawledPage {
+  url: string;
+  title?: string;
+  content: string;
+  depth: number;
+  strategy: ScrapeStrategy;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  skipped: { url: string; reason: string }[]; // Disallowed by robots.txt or redirected off the site
+  errors: { url: string; error: string }[];
+}
+
+export interface CrawlHooks {
+  shouldStop?: () => Promise<boolean>; // Checked before each page, e.g. for job cancellation
+  onPage?: (page: CrawledPage, pagesCrawled: number) => Promise<void> | void;
+}
+
+// Next time each host may be requested, shared by all crawls in the process
+const hostNextRequestAt = new Map<string, number>();
+
+/**
+ * Wait for the host's turn. Slots are reserved before waiting, so concurrent crawls of one host queue up.
+ */
+async function waitForHost(host: string, delayMs: number): Promise<void> {
+  const now = Date.now();
+  const at = Math.max(now, hostNextRequestAt.get(host) || 0);
+  hostNextRequestAt.set(host, at + delayMs);
+  if (at > now) {
+    await new Promise(resolve => setTimeout(resolve, at - now));
+  }
+}
+
+// URL used to recognise pages already seen: no fragment, no trailing slash
+function normalizeUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+    parsed.hash = '';
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+      parsed.pathname = parsed.pathname.slice(0, -1);
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+const decodeXmlEntities = (value: string) => value
+  .replace(/&amp;/g, '&')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'");
+
+/**
+ * Page URLs listed in the given sitemaps, following sitemap indexes. delayMs spaces the requests
+ * like page fetches, robots.txt Crawl-delay included.
+ */
+async function readSitemaps(sitemapUrls: string[], host: string, delayMs: number): Promise<string[]> {
+  const pending = [...sitemapUrls];
+  const visited = new Set<string>();
+  const pages: string[] = [];
+
+  while (pending.length > 0 && visited.size < CRAWL_LIMITS.sitemapMaxFiles && pages.length < CRAWL_LIMITS.sitemapMaxUrls) {
+    const sitemapUrl = pending.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    try {
+      await waitForHost(new URL(sitemapUrl).host, delayMs);
+      const response = await guardedGet(sitemapUrl, {
+        timeout: 15000,
+        maxContentLength: 10 * 1024 * 1024,
+        responseType: 'text',
+        headers: { 'User-Agent': CRAWLER_USER_AGENT }
+      });
+      const body = String(response.data);
+      const locs = Array.from(body.matchAll(/<loc>\s*([\s\S]*?)\s*<\/loc>/gi), match => decodeXmlEntities(match[1]));
+
+      for (const loc of locs) {
+        let parsed: URL;
+        try {
+          parsed = new URL(loc);
+        } catch {
+          continue;
+        }
+        if (parsed.host !== host) continue;
+        if (/<sitemapindex/i.test(body)) {
+          pending.push(loc);
+        } else {
+          pages.push(loc);
+        }
+      }
+    } catch (error) {
+      console.log(`[WARNING] Could not read sitemap ${sitemapUrl}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return pages.slice(0, CRAWL_LIMITS.sitemapMaxUrls);
+}
+
+/**
+ * Crawl a site breadth-first from startUrl, staying on its host. Honours robots.txt (rules and
+ * Crawl-delay), waits at least CRAWL_HOST_DELAY_MS between requests to the host, and loads
+ * pages through the shared browser pool. Throws BlockedUrlError if the site may not be fetched.
+ */
+export async function crawlWebsite(startUrl: string, options: CrawlOptions, hooks: CrawlHooks = {}): Promise<CrawlResult> {
+  await assertUrlAllowed(startUrl);
+  const start = new URL(startUrl);
+  const host = start.host;
+  const result: CrawlResult = { pages: [], skipped: [], errors: [] };
+
+  const robots = await fetchRobotsTxt(start.origin);
+  const delayMs = Math.max(CRAWL_LIMITS.hostDelayMs, robots.crawlDelayMs || 0);
+  const includes = (options.includePaths || []).map(compilePathPattern);
+  const excludes = (options.excludePaths || []).map(compilePathPattern);
+
+  const pathOf = (url: string) => {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  };
+  const isExcluded = (url: string) => excludes.some(pattern => pattern.test(pathOf(url)));
+
+  // Links are followed when they match an include pattern, or pass the default content filter if there are none
+  const shouldFollow = (url: string): boolean => {
+    if (new URL(url).host !== host) return false;
+    if (isExcluded(url)) return false;
+    if (includes.length > 0) return includes.some(pattern => pattern.test(pathOf(url)));
+    return isImportantRoute(url, startUrl);
+  };
+
+  const seen = new Set<string>();
+  const queue: { url: string; depth: number }[] = [];
+  const enqueue = (url: string, depth: number) => {
+    const normalized = normalizeUrl(url);
+    if (!normalized || seen.has(normalized)) return;
+    seen.add(normalized);
+    queue.push({ url: normalized, depth });
+  };
+
+  enqueue(startUrl, 0);
+  if (options.useSitemap && options.maxDepth > 0) {
+    const sitemapUrls = robots.sitemaps.length > 0 ? robots.sitemaps : [`${start.origin}/sitemap.xml`];
+    const sitemapPages = await readSitemaps(sitemapUrls, host, delayMs);
+    console.log(`[DEBUG] Sitemap of ${start.origin} lists ${sitemapPages.length} pages`);
+    for (const url of sitemapPages) {
+      if (shouldFollow(url)) enqueue(url, 1);
+    }
+  }
+
+  while (queue.length > 0 && result.pages.length < options.maxPages) {
+    if (hooks.shouldStop && await hooks.shouldStop()) break;
+    const { url, depth } = queue.shift()!;
+
+    if (!robots.isAllowed(pathOf(url))) {
+      result.skipped.push({ url, reason: 'Disallowed by robots.txt' });
+      continue;
+    }
+
+    try {
+      await waitForHost(host, delayMs);
+      const scraped = await scrapePage(url);
+
+      // Redirects may leave the site or land on a page already crawled
+      const finalUrl = normalizeUrl(scraped.url) || url;
+      if (new URL(finalUrl).host !== host) {
+        result.skipped.push({ url, reason: `Redirected off the site to ${finalUrl}` });
+        continue;
+      }
+      if (finalUrl !== url) {
+        if (seen.has(finalUrl)) continue;
+        // The redirect target was never checked when the link was queued
+        if (!robots.isAllowed(pathOf(finalUrl))) {
+          result.skipped.push({ url, reason: `Redirected to ${finalUrl}, disallowed by robots.txt` });
+          continue;
+        }
+        if (isExcluded(finalUrl)) {
+          result.skipped.push({ url, reason: `Redirected to ${finalUrl}, excluded by excludePaths` });
+          continue;
+        }
+      }
+      seen.add(finalUrl);
+
+      const page: CrawledPage = { url: finalUrl, title: scraped.title, content: scraped.content, depth, strategy: scraped.strategy };
+      result.pages.push(page);
+      if (hooks.onPage) await hooks.onPage(page, result.pages.length);
+
+      if (depth < options.maxDepth) {
+        for (const link of scraped.links) {
+          const normalized = normalizeUrl(link);
+          if (normalized && shouldFollow(normalized)) enqueue(normalized, depth + 1);
+        }
+      }
+    } catch (error) {
+      if (error instanceof BlockedUrlError) {
+        result.skipped.push({ url, reason: error.message });
+        continue;
+      }
+      result.errors.push({ url, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  console.log(`[DEBUG] Crawl of ${startUrl} finished: ${result.pages.length} pages, ${result.skipped.length} skipped, ${result.errors.length} failed`);
+  return result;
+}
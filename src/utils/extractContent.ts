@@ -0,0 +1,207 @@
+import { JSDOM } from 'jsdom';
+
+// Elements that never hold page content
+const NON_CONTENT_SELECTOR = 'script, style, noscript, template, svg, iframe, form, nav, aside, dialog, [role="navigation"], [role="banner"], [role="contentinfo"], [role="dialog"], [aria-hidden="true"]';
+
+// Elements rendered as their own block; everything else is inline text
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION', 'FIGURE',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'UL'
+]);
+
+// Class/id hints used to drop boilerplate blocks, unless they also look like content (as in Readability)
+const UNLIKELY_CANDIDATE = /cookie|consent|gdpr|banner|newsletter|popup|modal|sidebar|breadcrumb|social|share|advert|promo|related|comment|menu|navbar|footer|header/i;
+const MAYBE_CANDIDATE = /article|body|content|main|post|entry|story/i;
+
+// Elements client-side apps render into; when these are empty the page is a JS shell
+const APP_MOUNT_SELECTOR = '#root, #app, #__next, #__nuxt, [ng-app], [data-reactroot], [data-server-rendered]';
+
+const MIN_CONTENT_TEXT_LENGTH = 200;
+
+export interface ExtractedContent {
+  title?: string;
+  markdown: string; // Main content as Markdown-like text: headings, lists and tables kept, boilerplate removed
+  text: string; // Whitespace-collapsed text of the main content
+  links: string[]; // Absolute URLs of all links on the page, navigation included
+  looksLikeJsShell: boolean; // Little or no text, or an empty app mount point: the page needs a browser to render
+}
+
+const textOf = (element: Element | null | undefined) => (element?.textContent || '').replace(/\s+/g, ' ').trim();
+
+function linkDensity(element: Element): number {
+  const length = textOf(element).length;
+  if (length === 0) return 1;
+  const linkLength = Array.from(element.querySelectorAll('a')).reduce((sum, anchor) => sum + textOf(anchor).length, 0);
+  return linkLength / length;
+}
+
+const hasBlockDescendant = (element: Element) => Array.from(element.querySelectorAll('*')).some(child => BLOCK_TAGS.has(child.tagName));
+
+function renderList(list: Element, depth: number): string {
+  const lines: string[] = [];
+  let number = 1;
+  for (const item of Array.from(list.children).filter(child => child.tagName === 'LI')) {
+    const ownText = item.cloneNode(true) as Element;
+    ownText.querySelectorAll('ul, ol').forEach(nested => nested.remove());
+    const text = textOf(ownText);
+    if (text) {
+      lines.push(`${'  '.repeat(depth)}${list.tagName === 'OL' ? `${number++}.` : '-'} ${text}`);
+    }
+    for (const nested of Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL')) {
+      const nestedLines = renderList(nested, depth + 1);
+      if (nestedLines) lines.push(nestedLines);
+    }
+  }
+  return lines.join('\n');
+}
+
+function renderTable(table: Element): string {
+  const rows = Array.from(table.querySelectorAll('tr'))
+    .filter(row => row.closest('table') === table)
+    .map(row => Array.from(row.children)
+      .filter(cell => cell.tagName === 'TH' || cell.tagName === 'TD')
+      .map(cell => textOf(cell).replace(/\|/g, '\\|')))
+    .filter(cells => cells.some(Boolean));
+  if (rows.length === 0) return '';
+
+  const columns = Math.max(...rows.map(cells => cells.length));
+  const line = (cells: string[]) => `| ${Array.from({ length: columns }, (_, i) => cells[i] || '').join(' | ')} |`;
+  // The first row is used as the header, as Markdown tables need one
+  return [line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+/**
+ * Render an element's content as Markdown-like blocks separated by blank lines. Headings keep
+ * their level, list items their nesting and tables their rows, so the chunker can follow them.
+ */
+function renderBlocks(element: Element, blocks: string[]): void {
+  let inline = '';
+  const flush = () => {
+    const text = inline.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === node.TEXT_NODE) {
+      inline += (node.textContent || '').replace(/\s+/g, ' ');
+      continue;
+    }
+    if (node.nodeType !== node.ELEMENT_NODE) continue;
+    const child = node as Element;
+    const tag = child.tagName;
+
+    if (tag === 'BR') {
+      inline += '\n';
+    } else if (/^H[1-6]$/.test(tag)) {
+      flush();
+      const text = textOf(child);
+      if (text) blocks.push(`${'#'.repeat(Number(tag[1]))} ${text}`);
+    } else if (tag === 'UL' || tag === 'OL') {
+      flush();
+      const list = renderList(child, 0);
+      if (list) blocks.push(list);
+    } else if (tag === 'TABLE') {
+      flush();
+      const table = renderTable(child);
+      if (table) blocks.push(table);
+    } else if (tag === 'PRE') {
+      flush();
+      const code = (child.textContent || '').replace(/\n{2,}/g, '\n').trimEnd();
+      if (code.trim()) blocks.push(`\`\`\`\n${code}\n\`\`\``);
+    } else if (tag === 'BLOCKQUOTE') {
+      flush();
+      const quoted: string[] = [];
+      renderBlocks(child, quoted);
+      if (quoted.length > 0) blocks.push(quoted.map(block => block.replace(/^/gm, '> ')).join('\n>\n'));
+    } else if (tag === 'HR') {
+      flush();
+    } else if (BLOCK_TAGS.has(tag) || hasBlockDescendant(child)) {
+      flush();
+      renderBlocks(child, blocks);
+      flush();
+    } else {
+      inline += (child.textContent || '').replace(/\s+/g, ' ');
+    }
+  }
+  flush();
+}
+
+/**
+ * Pick the element holding the page's main content: the main landmark or a single article if
+ * there is one, otherwise the block with the most paragraph text (link-heavy blocks count less)
+ */
+function pickContentRoot(document: Document): Element {
+  const main = document.querySelector('main, [role="main"]');
+  if (main && textOf(main).length > 0) return main;
+  const articles = document.querySelectorAll('article');
+  if (articles.length === 1 && textOf(articles[0]).length > 0) return articles[0];
+
+  const scores = new Map<Element, number>();
+  for (const paragraph of Array.from(document.querySelectorAll('p, pre, td, blockquote, li'))) {
+    const length = textOf(paragraph).length;
+    if (length < 25) continue;
+    const parent = paragraph.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + length);
+    const grandparent = parent?.parentElement;
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) || 0) + length / 2);
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+  return best || document.body;
+}
+
+/**
+ * Readability-style extraction of a page's main content. No scripts are run.
+ */
+export function extractContent(html: string, url: string): ExtractedContent {
+  const { document } = new JSDOM(html, { url }).window;
+  const title = document.title?.trim() || undefined;
+  const links = Array.from(document.querySelectorAll('a[href]')).map(anchor => (anchor as HTMLAnchorElement).href);
+
+  // Checked before boilerplate removal, as mount points may carry boilerplate-looking ids
+  const mount = document.querySelector(APP_MOUNT_SELECTOR);
+  const emptyMount = !!mount && textOf(mount).length < MIN_CONTENT_TEXT_LENGTH;
+
+  document.querySelectorAll(NON_CONTENT_SELECTOR).forEach(element => element.remove());
+  for (const element of Array.from(document.body?.querySelectorAll('*') || [])) {
+    if (!element.isConnected || ['MAIN', 'ARTICLE'].includes(element.tagName)) continue;
+    const hints = `${element.getAttribute('class') || ''} ${element.id}`;
+    const isPageChrome = ['HEADER', 'FOOTER'].includes(element.tagName) && !element.closest('main, article');
+    if (isPageChrome || (UNLIKELY_CANDIDATE.test(hints) && !MAYBE_CANDIDATE.test(hints))) {
+      element.remove();
+    }
+  }
+
+  const root = document.body ? pickContentRoot(document) : null;
+  const text = textOf(root);
+  const blocks: string[] = [];
+  if (root) renderBlocks(root, blocks);
+  return {
+    title,
+    markdown: blocks.join('\n\n'),
+    text,
+    links,
+    looksLikeJsShell: text.length < MIN_CONTENT_TEXT_LENGTH || emptyMount
+  };
+}
+
+/**
+ * Render a whole document as Markdown, for files with no page chrome to remove (e.g. EPUB chapters).
+ * Only scripts, styles and other non-content elements are dropped.
+ */
+export function renderMarkdown(html: string): { title?: string; markdown: string } {
+  const { document } = new JSDOM(html).window;
+  document.querySelectorAll(NON_CONTENT_SELECTOR).forEach(element => element.remove());
+  const blocks: string[] = [];
+  if (document.body) renderBlocks(document.body, blocks);
+  return { title: document.title?.trim() || undefined, markdown: blocks.join('\n\n') };
+}
@@ -0,0 +1,124 @@
+import http from 'http';
+import net from 'net';
+import { BlockedUrlError, resolveAllowedHost } from './urlGuard.js';
+
+export interface GuardedProxy {
+  url: string; // http://127.0.0.1:<port>, for Chromium's --proxy-server
+  close(): Promise<void>;
+}
+
+// Headers that describe the client's connection to the proxy, not the request
+const HOP_BY_HOP_HEADERS = ['proxy-connection', 'proxy-authorization', 'connection', 'keep-alive', 'te', 'trailer', 'transfer-encoding', 'upgrade'];
+
+const refusal = (error: unknown) => error instanceof BlockedUrlError
+  ? { status: 403, message: error.message }
+  : { status: 502, message: error instanceof Error ? error.message : String(error) };
+
+// Plain http: requests arrive with an absolute URL
+function forwardRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+  let target: URL;
+  try {
+    target = new URL(req.url || '');
+  } catch {
+    res.writeHead(400).end('Proxy requests need an absolute URL');
+    return;
+  }
+  if (target.protocol !== 'http:') {
+    res.writeHead(403).end(`Protocol not allowed: ${target.protocol}`);
+    return;
+  }
+
+  const headers = { ...req.headers };
+  for (const header of HOP_BY_HOP_HEADERS) delete headers[header];
+  const fail = (error: unknown) => {
+    const { status, message } = refusal(error);
+    if (!res.headersSent) res.writeHead(status).end(message);
+    else res.destroy();
+  };
+
+  // Resolved here rather than by http.request, which doesn't look up IP literals at all
+  resolveAllowedHost(target.hostname).then(addresses => {
+    // The Host header from the browser is kept, so the request goes to the checked address as the named host
+    const upstream = http.request({
+      host: addresses[0],
+      port: target.port || 80,
+      path: `${target.pathname}${target.search}`,
+      method: req.method,
+      headers
+    }, upstreamRes => {
+      const responseHeaders = { ...upstreamRes.headers };
+      for (const header of HOP_BY_HOP_HEADERS) delete responseHeaders[header];
+      res.writeHead(upstreamRes.statusCode || 502, responseHeaders);
+      upstreamRes.pipe(res);
+    });
+    upstream.on('error', fail);
+    req.pipe(upstream);
+  }, fail);
+}
+
+// https: (and anything else Chromium tunnels) asks for a CONNECT tunnel to host:port
+function openTunnel(req: http.IncomingMessage, client: net.Socket, head: Buffer): void {
+  let target: URL;
+  try {
+    target = new URL(`http://${req.url}`);
+  } catch {
+    client.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  client.on('error', () => undefined);
+
+  resolveAllowedHost(target.hostname).then(addresses => {
+    // Connect to the address that was checked, never to a second resolution of the name
+    const upstream = net.connect({ host: addresses[0], port: parseInt(target.port || '443') }, () => {
+      client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      if (head.length > 0) upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    upstream.on('error', error => {
+      client.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      console.error(`[WARNING] Browser proxy could not reach ${req.url}: ${error.message}`);
+    });
+    client.on('close', () => upstream.destroy());
+  }, error => {
+    const { status, message } = refusal(error);
+    client.end(`HTTP/1.1 ${status} ${status === 403 ? 'Forbidden' : 'Bad Gateway'}\r\n\r\n`);
+    console.log(`[WARNING] Browser proxy refused ${req.url}: ${message}`);
+  });
+}
+
+/**
+ * HTTP proxy on loopback that the scraping browser sends all of its traffic through. Every host
+ * is checked by the URL guard and connected to at the address that was checked, so a page can't
+ * reach private addresses by DNS rebinding, redirects or scripts. WebSocket upgrades are refused.
+ */
+export function startGuardedProxy(): Promise<GuardedProxy> {
+  const server = http.createServer(forwardRequest);
+  // Tunnels leave the HTTP server once opened, so close() ends them itself
+  const tunnels = new Set<net.Socket>();
+  server.on('connect', (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+    tunnels.add(client);
+    client.on('close', () => tunnels.delete(client));
+    openTunnel(req, client, head);
+  });
+  server.on('upgrade', (_req: http.IncomingMessage, socket: net.Socket) => {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+  });
+  server.on('clientError', (_error, socket) => socket.destroy());
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      server.unref();
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise(done => {
+          server.close(() => done());
+          server.closeAllConnections();
+          for (const tunnel of tunnels) tunnel.destroy();
+        })
+      });
+    });
+  });
+}
@@ -0,0 +1,92 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Tesseract from 'tesseract.js';
+
+export const OCR_CONFIG = {
+  enabled: process.env.OCR_ENABLED !== 'false',
+  languages: process.env.OCR_LANGUAGES || 'eng', // Tesseract language codes, e.g. "eng+deu"
+  langPath: process.env.OCR_LANG_PATH || undefined, // Folder or URL with <lang>.traineddata.gz; the tesseract.js CDN if unset
+  cachePath: path.join(os.tmpdir(), 'tesseract-cache'), // Downloaded language data is kept here
+  maxPdfPages: parseInt(process.env.OCR_MAX_PDF_PAGES || '50'), // Scanned pages read per PDF; later ones are skipped
+  idleCloseMs: 60 * 1000 // Stop the engine after this long without work
+};
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // Tesseract's mean word confidence, 0-100
+}
+
+/**
+ * One local Tesseract engine shared by every training job in the process. Images are read one
+ * at a time; the engine is started on first use and stopped when it has been idle for a minute.
+ */
+export class OcrEngine {
+  private static worker: Promise<Tesseract.Worker> | null = null;
+  private static queue: Promise<unknown> = Promise.resolve();
+  private static pending = 0;
+  private static idleTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Text of an image (PNG, JPEG, BMP...)
+   */
+  static async recognize(image: Buffer): Promise<OcrResult> {
+    if (!OCR_CONFIG.enabled) {
+      throw new Error('OCR is disabled (OCR_ENABLED=false)');
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.pending++;
+    const result = this.queue.then(async () => {
+      const worker = await this.getWorker();
+      const { data } = await worker.recognize(image);
+      return { text: data.text.trim(), confidence: Math.round(data.confidence) };
+    });
+    // Later images wait for this one, whether it succeeds or not
+    this.queue = result.catch(() => undefined).finally(() => {
+      this.pending--;
+      if (this.pending === 0) {
+        this.idleTimer = setTimeout(() => this.close(), OCR_CONFIG.idleCloseMs);
+        this.idleTimer.unref();
+      }
+    });
+    return result;
+  }
+
+  static async close(): Promise<void> {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) {
+      await worker.then(instance => instance.terminate()).catch(() => undefined);
+    }
+  }
+
+  private static getWorker(): Promise<Tesseract.Worker> {
+    if (!this.worker) {
+      const starting: Promise<Tesseract.Worker> = fs.promises.mkdir(OCR_CONFIG.cachePath, { recursive: true }).then(() => new Promise<Tesseract.Worker>((resolve, reject) => {
+        Tesseract.createWorker(OCR_CONFIG.languages, undefined, {
+          cachePath: OCR_CONFIG.cachePath,
+          ...(OCR_CONFIG.langPath && { langPath: OCR_CONFIG.langPath }),
+          // A failed language download is only reported here (createWorker never settles), and
+          // tesseract.js rethrows it uncaught without a handler. Later errors also reject their own call.
+          errorHandler: reject
+        }).then(resolve, reject);
+      })).catch((error: any) => {
+        // A failed start (e.g. language data that can't be downloaded) leaves a thread behind, so
+        // images fail fast for a while before the engine is started again
+        setTimeout(() => {
+          if (this.worker === starting) this.worker = null;
+        }, OCR_CONFIG.idleCloseMs).unref();
+        throw new Error(`OCR engine failed to start: ${error?.message || error}`);
+      });
+      this.worker = starting;
+    }
+    return this.worker;
+  }
+}
@@ -1,11 +1,42 @@
-import csvParser from 'csv-parser';
-import mammoth from 'mammoth';
-// @ts-ignore
-import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.js';
-import { Readable } from 'stream';
-import textract from 'textract';
+import { TextSegment } from './chunkText.js';
+import { csvParser } from './parsers/csv.js';
+import { epubParser, htmlParser } from './parsers/html.js';
+import { imageParser } from './parsers/image.js';
+import { pptxParser, xlsxParser } from './parsers/office.js';
+import { pdfParser } from './parsers/pdf.js';
+import { rtfParser } from './parsers/rtf.js';
+import { jsonParser, markdownParser, textParser } from './parsers/text.js';
+import { DocumentParser, ParseOptions } from './parsers/types.js';
+import { docParser, docxParser } from './parsers/word.js';
 
-export async function parseFile(fileBuffer: Buffer, fileType: string): Promise<string | { error: string; source: 'document' }> {
+export interface ParsedFile {
+  text: string; // Full text of the file
+  segments: TextSegment[]; // Pages, slides, chapters or table rows that chunks keep apart; the whole text for flat formats
+}
+
+const PARSERS: DocumentParser[] = [
+  pdfParser, docxParser, docParser, csvParser, textParser, markdownParser,
+  htmlParser, jsonParser, xlsxParser, pptxParser, epubParser, rtfParser, imageParser
+];
+
+/**
+ * Parser for a file type, given as an extension ("xlsx", ".xlsx") or a MIME type. The
+ * extension is tried first, as browsers often send generic MIME types.
+ */
+export function findParser(fileType: string, mimeType?: string): DocumentParser | undefined {
+  const extension = fileType.trim().toLowerCase().replace(/^\./, '');
+  const mime = mimeType?.split(';')[0].trim().toLowerCase();
+  return PARSERS.find(parser => parser.extensions.includes(extension) || parser.mimeTypes.includes(extension))
+    || (mime ? PARSERS.find(parser => parser.mimeTypes.includes(mime)) : undefined);
+}
+
+// Extensions parseFile can read, e.g. for error messages
+export const SUPPORTED_DOCUMENT_TYPES = PARSERS.flatMap(parser => parser.extensions);
+
+/**
+ * Parse an uploaded document into text and the segments the chunker works on.
+ */
+export async function parseFile(fileBuffer: Buffer, fileType: string, mimeType?: string, options: ParseOptions = {}): Promise<ParsedFile | { error: string; source: 'document' }> {
   try {
     // Validate inputs
     if (!fileBuffer || !Buffer.isBuffer(fileBuffer)) {
@@ -15,79 +46,27 @@ export async function parseFile(fileBuffer: Buffer, fileType: string): Promise<s
       throw new Error('fileType must be a non-empty string');
     }
 
-    const normalizedFileType = fileType.toLowerCase();
-    let content = '';
-
-    if (normalizedFileType === 'pdf') {
-      try {
-        const pdf = await pdfjs.getDocument({ data: fileBuffer }).promise;
-        const maxPages = pdf.numPages;
-        let text = '';
-
-        for (let i = 1; i <= maxPages; i++) {
-          const page = await pdf.getPage(i);
-          const textContent = await page.getTextContent();
-          const pageText = textContent.items.map((item: any) => item.str).join(' ');
-          text += pageText + '\n';
-        }
+    const parser = findParser(fileType, mimeType);
+    if (!parser) {
+      throw new Error(`Unsupported file type: ${fileType.toLowerCase()}. Supported: ${SUPPORTED_DOCUMENT_TYPES.join(', ')}`);
+    }
 
-        content = text;
-      } catch (error: any) {
-        throw new Error(`Failed to parse PDF: ${error.message}`);
-      }
-    } else if (normalizedFileType === 'docx') {
-      try {
-        const result = await mammoth.extractRawText({ buffer: fileBuffer });
-        content = result.value;
-      } catch (error: any) {
-        throw new Error(`Failed to parse DOCX: ${error.message}`);
-      }
-    } else if (normalizedFileType === 'doc') {
-      try {
-        content = await new Promise<string>((resolve, reject) => {
-          textract.fromBufferWithMime(
-            'application/msword',
-            fileBuffer,
-            (error: any, text: string) => {
-              if (error) reject(error);
-              else resolve(text);
-            }
-          );
-        });
-      } catch (error: any) {
-        throw new Error(`Failed to parse DOC: ${error.message}`);
-      }
-    } else if (normalizedFileType === 'csv') {
-      try {
-        content = await new Promise<string>((resolve, reject) => {
-          const results: string[] = [];
-          Readable.from(fileBuffer)
-            .pipe(csvParser())
-            .on('data', (data) => results.push(JSON.stringify(data)))
-            .on('end', () => resolve(results.join('\n')))
-            .on('error', (err) => reject(err));
-        });
-      } catch (error: any) {
-        throw new Error(`Failed to parse CSV: ${error.message}`);
-      }
-    } else if (normalizedFileType === 'txt') {
-      try {
-        content = fileBuffer.toString('utf8');
-      } catch (error: any) {
-        throw new Error(`Failed to parse TXT: ${error.message}`);
-      }
-    } else {
-      throw new Error(`Unsupported file type: ${normalizedFileType}`);
+    let segments: TextSegment[];
+    try {
+      segments = (await parser.parse(fileBuffer, options)).filter(segment => segment.text.trim() !== '');
+    } catch (error: any) {
+      throw new Error(`Failed to parse ${parser.name}: ${error.message}`);
     }
 
+    const content = segments.map(segment => segment.text).join('\n');
     if (!content || content.trim() === '') {
       throw new Error('Parsed content is empty or invalid');
     }
 
-    console.log(`Successfully parsed ${normalizedFileType} file`);
-    return content;
+    console.log(`Successfully parsed ${parser.name} file (${segments.length} ${segments.length === 1 ? 'segment' : 'segments'})`);
+    return { text: content, segments };
   } catch (error: any) {
     console.error(`Error parsing ${fileType} file: ${error.message}`);
     return { error: error.message, source: 'document' };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import csvStream from 'csv-parser';
+import { Readable } from 'stream';
+import { TextSegment } from '../chunkText.js';
+import { tableToSegments } from './table.js';
+import { DocumentParser, ParseOptions } from './types.js';
+
+/**
+ * CSV files, one chunk per row (see tableToSegments). The first line holds the headers.
+ */
+export const csvParser: DocumentParser = {
+  name: 'CSV',
+  extensions: ['csv'],
+  mimeTypes: ['text/csv'],
+  async parse(buffer: Buffer, options: ParseOptions = {}): Promise<TextSegment[]> {
+    const rows = await new Promise<string[][]>((resolve, reject) => {
+      const results: string[][] = [];
+      Readable.from(buffer)
+        .pipe(csvStream({ headers: false }))
+        .on('data', (data: Record<string, string>) => results.push(Object.values(data)))
+        .on('end', () => resolve(results))
+        .on('error', (err) => reject(err));
+    });
+    if (rows.length > 0 && rows[0].length > 0) rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+    return tableToSegments([{ rows }], options.table);
+  }
+};
@@ -0,0 +1,57 @@
+import { TextSegment } from '../chunkText.js';
+import { extractContent, renderMarkdown } from '../extractContent.js';
+import { DocumentParser } from './types.js';
+import { elementsByName, openZip, readZipText, readZipXml, resolveZipPath } from './zip.js';
+
+// The title becomes the section unless the content starts with its own heading
+const titledSegment = (markdown: string, title?: string): TextSegment => ({
+  text: markdown,
+  markdown: true,
+  ...(title && !markdown.startsWith('#') && { section: title })
+});
+
+/**
+ * Saved or exported web pages (e.g. help-center articles). Navigation and other page chrome are
+ * removed as for scraped websites, and headings are kept for the chunker.
+ */
+export const htmlParser: DocumentParser = {
+  name: 'HTML',
+  extensions: ['html', 'htm', 'xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const { title, markdown } = extractContent(buffer.toString('utf8'), 'about:blank');
+    return [titledSegment(markdown, title)];
+  }
+};
+
+/**
+ * EPUB books: one segment per chapter in reading (spine) order, skipping the navigation document.
+ */
+export const epubParser: DocumentParser = {
+  name: 'EPUB',
+  extensions: ['epub'],
+  mimeTypes: ['application/epub+zip'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const zip = await openZip(buffer);
+    const container = await readZipXml(zip, 'META-INF/container.xml');
+    const packagePath = elementsByName(container, 'rootfile')[0]?.getAttribute('full-path');
+    const packageDocument = packagePath ? await readZipXml(zip, packagePath) : null;
+    if (!packagePath || !packageDocument) throw new Error('Package document not found in file');
+
+    const manifest = new Map(elementsByName(packageDocument, 'item').map(item => [
+      item.getAttribute('id'),
+      { path: resolveZipPath(packagePath, item.getAttribute('href') || ''), properties: item.getAttribute('properties') || '' }
+    ]));
+
+    const segments: TextSegment[] = [];
+    for (const itemRef of elementsByName(packageDocument, 'itemref')) {
+      const item = manifest.get(itemRef.getAttribute('idref'));
+      if (!item || item.properties.split(/\s+/).includes('nav')) continue;
+      const chapter = await readZipText(zip, item.path);
+      if (!chapter) continue;
+      const { title, markdown } = renderMarkdown(chapter);
+      if (markdown.trim()) segments.push(titledSegment(markdown, title));
+    }
+    return segments;
+  }
+};
@@ -0,0 +1,17 @@
+import { TextSegment } from '../chunkText.js';
+import { OcrEngine } from '../ocr.js';
+import { DocumentParser } from './types.js';
+
+/**
+ * Photos and scans of documents, read with OCR. The chunks record the OCR confidence.
+ */
+export const imageParser: DocumentParser = {
+  name: 'image',
+  extensions: ['png', 'jpg', 'jpeg'],
+  mimeTypes: ['image/png', 'image/jpeg'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const { text, confidence } = await OcrEngine.recognize(buffer);
+    console.log(`[DEBUG] OCR read image: ${text.length} chars, confidence ${confidence}`);
+    return [{ text, ocrConfidence: confidence }];
+  }
+};
@@ -0,0 +1,149 @@
+import JSZip from 'jszip';
+import { TextSegment } from '../chunkText.js';
+import { Table, tableToSegments } from './table.js';
+import { DocumentParser, ParseOptions } from './types.js';
+import { elementsByName, openZip, readRelationships, readZipXml } from './zip.js';
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const DRAWING_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+
+// Built-in number formats that display a date or time
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const normalizeSpace = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+// Zero-based column of a cell reference such as "C5"
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() || '';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Spreadsheet serial day number as an ISO date, with the time if it has one
+function serialToDate(serial: number, date1904: boolean): string {
+  const epoch = Date.UTC(1899, 11, 30) + (date1904 ? 1462 * 86400000 : 0);
+  const iso = new Date(epoch + Math.round(serial * 86400000)).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 16).replace('T', ' ');
+}
+
+async function readSharedStrings(zip: JSZip): Promise<string[]> {
+  const document = await readZipXml(zip, 'xl/sharedStrings.xml');
+  return elementsByName(document, 'si').map(item =>
+    // Phonetic guides (rPh) repeat the text as readings
+    elementsByName(item, 't').filter(text => text.parentElement?.localName !== 'rPh').map(text => text.textContent || '').join('')
+  );
+}
+
+// Indexes of the cell styles that format numbers as dates
+async function readDateStyles(zip: JSZip): Promise<Set<number>> {
+  const document = await readZipXml(zip, 'xl/styles.xml');
+  const customDateFormats = new Set(elementsByName(document, 'numFmt')
+    .filter(format => /[dmyhs]/i.test((format.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')))
+    .map(format => Number(format.getAttribute('numFmtId'))));
+
+  const dateStyles = new Set<number>();
+  const cellFormats = elementsByName(document, 'cellXfs')[0];
+  elementsByName(cellFormats, 'xf').forEach((format, index) => {
+    const formatId = Number(format.getAttribute('numFmtId'));
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+  });
+  return dateStyles;
+}
+
+/**
+ * Excel workbooks: one chunk per row of every visible sheet (see tableToSegments), with the sheet
+ * name as its section. The first row of a sheet holds the headers. Cells show their stored values;
+ * formulas are not recalculated.
+ */
+export const xlsxParser: DocumentParser = {
+  name: 'XLSX',
+  extensions: ['xlsx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  async parse(buffer: Buffer, options: ParseOptions = {}): Promise<TextSegment[]> {
+    const zip = await openZip(buffer);
+    const workbook = await readZipXml(zip, 'xl/workbook.xml');
+    if (!workbook) throw new Error('Workbook not found in file');
+    const date1904 = ['1', 'true'].includes(elementsByName(workbook, 'workbookPr')[0]?.getAttribute('date1904') || '');
+    const relationships = await readRelationships(zip, 'xl/workbook.xml');
+    const sharedStrings = await readSharedStrings(zip);
+    const dateStyles = await readDateStyles(zip);
+
+    const tables: Table[] = [];
+    for (const sheet of elementsByName(workbook, 'sheet')) {
+      if (['hidden', 'veryHidden'].includes(sheet.getAttribute('state') || '')) continue;
+      const target = relationships.get(sheet.getAttributeNS(RELATIONSHIPS_NS, 'id') || '')?.target;
+      const worksheet = target ? await readZipXml(zip, target) : null;
+      if (!worksheet) continue;
+
+      const rows: string[][] = [];
+      for (const row of elementsByName(worksheet, 'row')) {
+        const values: string[] = [];
+        elementsByName(row, 'c').forEach((cell, position) => {
+          const reference = cell.getAttribute('r');
+          const column = reference ? columnIndex(reference) : position;
+          const raw = elementsByName(cell, 'v')[0]?.textContent || '';
+          const style = Number(cell.getAttribute('s') || 0);
+          let value: string;
+          switch (cell.getAttribute('t')) {
+            case 's': value = sharedStrings[Number(raw)] || ''; break;
+            case 'inlineStr': value = elementsByName(cell, 't').map(text => text.textContent || '').join(''); break;
+            case 'b': value = raw === '1' ? 'TRUE' : 'FALSE'; break;
+            case 'str':
+            case 'e': value = raw; break;
+            default: value = raw !== '' && dateStyles.has(style) && Number.isFinite(Number(raw)) ? serialToDate(Number(raw), date1904) : raw;
+          }
+          if (normalizeSpace(value)) values[column] = normalizeSpace(value);
+        });
+        if (values.some(Boolean)) rows.push(Array.from(values, value => value || ''));
+      }
+      tables.push({ name: sheet.getAttribute('name') || undefined, rows });
+    }
+    return tableToSegments(tables, options.table);
+  }
+};
+
+// Text of a slide's paragraphs, with those in title placeholders returned separately
+function readSlideText(slide: Document | null, placeholderTypes?: string[]): { title: string; paragraphs: string[] } {
+  const titles: string[] = [];
+  const paragraphs: string[] = [];
+  for (const paragraph of elementsByName(slide, 'p').filter(element => element.namespaceURI === DRAWING_NS)) {
+    const text = normalizeSpace(elementsByName(paragraph, 't').map(run => run.textContent || '').join(''));
+    if (!text) continue;
+    let shape = paragraph.parentElement;
+    while (shape && shape.localName !== 'sp') shape = shape.parentElement;
+    const placeholder = shape ? elementsByName(shape, 'ph')[0]?.getAttribute('type') || 'body' : null;
+    if (placeholderTypes && (!placeholder || !placeholderTypes.includes(placeholder))) continue;
+    if (placeholder === 'title' || placeholder === 'ctrTitle') titles.push(text);
+    paragraphs.push(text);
+  }
+  return { title: titles.join(' '), paragraphs };
+}
+
+/**
+ * PowerPoint decks: one segment per slide in presentation order, with the speaker notes.
+ * The slide number is kept as the page number and the slide title as its section.
+ */
+export const pptxParser: DocumentParser = {
+  name: 'PPTX',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const zip = await openZip(buffer);
+    const presentation = await readZipXml(zip, 'ppt/presentation.xml');
+    if (!presentation) throw new Error('Presentation not found in file');
+    const relationships = await readRelationships(zip, 'ppt/presentation.xml');
+
+    const segments: TextSegment[] = [];
+    const slideIds = elementsByName(presentation, 'sldId');
+    for (let i = 0; i < slideIds.length; i++) {
+      const target = relationships.get(slideIds[i].getAttributeNS(RELATIONSHIPS_NS, 'id') || '')?.target;
+      if (!target) continue;
+      const { title, paragraphs } = readSlideText(await readZipXml(zip, target));
+
+      const notesTarget = [...(await readRelationships(zip, target)).values()].find(relationship => relationship.type.endsWith('/notesSlide'))?.target;
+      const notes = notesTarget ? readSlideText(await readZipXml(zip, notesTarget), ['body']).paragraphs : [];
+      const text = [paragraphs.join('\n'), notes.length > 0 ? `Notes: ${notes.join('\n')}` : ''].filter(Boolean).join('\n\n');
+      if (text) segments.push({ text, pageNumber: i + 1, ...(title && { section: title }) });
+    }
+    return segments;
+  }
+};
@@ -0,0 +1,126 @@
+// @ts-ignore
+import pdfjs from 'pdfjs-dist/legacy/build/pdf.js'; // CommonJS build: its exports are on the default import
+import { TextSegment } from '../chunkText.js';
+import { OCR_CONFIG, OcrEngine } from '../ocr.js';
+import { DocumentParser } from './types.js';
+
+// Operators that draw an image; the image object is named by their first argument
+const IMAGE_OPERATORS = new Set([pdfjs.OPS.paintImageXObject, pdfjs.OPS.paintImageXObjectRepeat]);
+
+// Pages drawing no image at least this large (in pixels) are not worth reading
+const MIN_SCAN_PIXELS = 100 * 100;
+
+/**
+ * Encode decoded pixels from pdf.js (1-bit grayscale, RGB or RGBA) as a 24-bit BMP, which the OCR
+ * engine reads without a canvas
+ */
+function toBmp(image: { width: number; height: number; kind: number; data: Uint8Array | Uint8ClampedArray }): Buffer {
+  const { width, height, kind, data } = image;
+  const rowSize = Math.ceil((width * 3) / 4) * 4;
+  const bmp = Buffer.alloc(54 + rowSize * height);
+  bmp.write('BM', 0, 'ascii');
+  bmp.writeUInt32LE(bmp.length, 2);
+  bmp.writeUInt32LE(54, 10);
+  bmp.writeUInt32LE(40, 14);
+  bmp.writeInt32LE(width, 18);
+  bmp.writeInt32LE(-height, 22); // Negative height: rows top to bottom
+  bmp.writeUInt16LE(1, 26);
+  bmp.writeUInt16LE(24, 28);
+  bmp.writeUInt32LE(rowSize * height, 34);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r: number, g: number, b: number;
+      if (kind === pdfjs.ImageKind.GRAYSCALE_1BPP) {
+        // Rows are padded to whole bytes; a set bit is white
+        const bit = (data[y * ((width + 7) >> 3) + (x >> 3)] >> (7 - (x & 7))) & 1;
+        r = g = b = bit ? 255 : 0;
+      } else {
+        const offset = (y * width + x) * (kind === pdfjs.ImageKind.RGBA_32BPP ? 4 : 3);
+        [r, g, b] = [data[offset], data[offset + 1], data[offset + 2]];
+      }
+      const target = 54 + y * rowSize + x * 3;
+      bmp[target] = b;
+      bmp[target + 1] = g;
+      bmp[target + 2] = r;
+    }
+  }
+  return bmp;
+}
+
+/**
+ * Largest image drawn on a page, as a BMP. Scanned pages are a single full-page image, so this
+ * is what OCR reads; returns null for pages that draw no sizeable image.
+ */
+async function largestPageImage(page: any): Promise<Buffer | null> {
+  const operators = await page.getOperatorList();
+  let largest: any = null;
+  for (let i = 0; i < operators.fnArray.length; i++) {
+    const operator = operators.fnArray[i];
+    let image: any = null;
+    if (IMAGE_OPERATORS.has(operator)) {
+      const name: string = operators.argsArray[i][0];
+      // Images shared between pages live in commonObjs
+      const objects = name.startsWith('g_') ? page.commonObjs : page.objs;
+      image = await new Promise(resolve => objects.get(name, resolve));
+    } else if (operator === pdfjs.OPS.paintInlineImageXObject) {
+      image = operators.argsArray[i][0];
+    }
+    if (image?.data && image.width * image.height > (largest ? largest.width * largest.height : 0)) {
+      largest = image;
+    }
+  }
+  return largest && largest.width * largest.height >= MIN_SCAN_PIXELS ? toBmp(largest) : null;
+}
+
+/**
+ * PDFs are read page by page so chunks can cite their page. Pages without a text layer (scans)
+ * are read with OCR, up to OCR_MAX_PDF_PAGES per file, and record the OCR confidence.
+ */
+export const pdfParser: DocumentParser = {
+  name: 'PDF',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+    const segments: TextSegment[] = [];
+    let ocrPages = 0;
+    let pagesOverLimit = 0;
+    let ocrError: Error | null = null;
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      const pageText = textContent.items.map((item: any) => item.str).join(' ');
+      if (pageText.trim()) {
+        segments.push({ text: pageText, pageNumber: i });
+        continue;
+      }
+
+      if (!OCR_CONFIG.enabled) continue;
+      if (ocrPages >= OCR_CONFIG.maxPdfPages) {
+        pagesOverLimit++;
+        continue;
+      }
+      try {
+        const image = await largestPageImage(page);
+        if (!image) continue;
+        ocrPages++;
+        const { text, confidence } = await OcrEngine.recognize(image);
+        console.log(`[DEBUG] OCR read page ${i}: ${text.length} chars, confidence ${confidence}`);
+        if (text) segments.push({ text, pageNumber: i, ocrConfidence: confidence });
+      } catch (error: any) {
+        // One unreadable page doesn't lose the others
+        console.error(`[WARNING] OCR failed on page ${i}: ${error.message}`);
+        ocrError = ocrError || error;
+      }
+    }
+    if (pagesOverLimit > 0) {
+      console.log(`[WARNING] ${pagesOverLimit} pages without text skipped: OCR limit of ${OCR_CONFIG.maxPdfPages} pages per PDF reached`);
+    }
+    // A scan-only PDF that couldn't be read reports why, rather than as empty
+    if (segments.length === 0 && ocrError) {
+      throw ocrError;
+    }
+    return segments;
+  }
+};
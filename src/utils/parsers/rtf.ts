@@ -0,0 +1,111 @@
+import { TextSegment } from '../chunkText.js';
+import { DocumentParser } from './types.js';
+
+// Groups that hold no document text (font tables, metadata, embedded pictures, field codes...)
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'fldinst', 'listtable', 'listoverridetable', 'rsidtbl',
+  'themedata', 'colorschememapping', 'datastore', 'latentstyles', 'xmlnstbl', 'generator', 'filetbl'
+]);
+
+// Control words that stand for a character or a break
+const CONTROL_TEXT: Record<string, string> = {
+  par: '\n\n', sect: '\n\n', page: '\n\n', line: '\n', row: '\n', cell: ' | ', tab: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”'
+};
+
+/**
+ * Plain text of an RTF document. Formatting is dropped; paragraphs, line breaks and table cells are kept.
+ */
+export function rtfToText(rtf: string): string {
+  let output = '';
+  // Per group: whether its text is skipped, and how many fallback characters follow a \u escape
+  let state = { skip: false, unicodeSkip: 1 };
+  const stack: typeof state[] = [];
+  let pendingSkip = 0; // Fallback characters still to drop after a \u escape
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) output += text;
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      i++;
+    } else if (char === '}') {
+      state = stack.pop() || state;
+      pendingSkip = 0;
+      i++;
+    } else if (char === '\\') {
+      const next = rtf[i + 1];
+      if (next === '\'') {
+        // \'hh: a character in the document's code page (read as Windows-1252/Latin-1)
+        emit(Buffer.from([parseInt(rtf.slice(i + 2, i + 4), 16) || 0x3f]).toString('latin1'));
+        i += 4;
+      } else if (next === '*') {
+        // Optional destination that readers may ignore
+        state.skip = true;
+        i += 2;
+      } else if (next === '\\' || next === '{' || next === '}') {
+        emit(next);
+        i += 2;
+      } else if (next === '~') {
+        emit(' ');
+        i += 2;
+      } else if (next === '_') {
+        emit('-');
+        i += 2;
+      } else if (next === '\n' || next === '\r') {
+        emit('\n\n');
+        i += 2;
+      } else {
+        const control = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+        if (!control) {
+          i += 2; // Other control symbols such as \- (optional hyphen)
+          continue;
+        }
+        i += 1 + control[0].length;
+        const [, word, parameter] = control;
+        if (SKIPPED_DESTINATIONS.has(word)) {
+          state.skip = true;
+        } else if (word === 'u' && parameter !== undefined) {
+          const code = Number(parameter);
+          emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+          pendingSkip = state.unicodeSkip;
+        } else if (word === 'uc' && parameter !== undefined) {
+          state.unicodeSkip = Number(parameter);
+        } else if (CONTROL_TEXT[word]) {
+          emit(CONTROL_TEXT[word]);
+        }
+      }
+    } else {
+      if (char !== '\n' && char !== '\r') emit(char);
+      i++;
+    }
+  }
+
+  return output
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export const rtfParser: DocumentParser = {
+  name: 'RTF',
+  extensions: ['rtf'],
+  mimeTypes: ['application/rtf', 'text/rtf'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const rtf = buffer.toString('latin1');
+    if (!rtf.startsWith('{\\rtf')) throw new Error('File is not an RTF document');
+    return [{ text: rtfToText(rtf) }];
+  }
+};
@@ -0,0 +1,65 @@
+import { fieldKey } from '../../models/Memory.js';
+import { TextSegment } from '../chunkText.js';
+
+export const TABLE_LIMITS = {
+  maxColumns: 100, // Columns that may be named in textColumns or metadataColumns
+  maxColumnNameLength: 200
+};
+
+/**
+ * Which columns of a CSV or spreadsheet become chunk text and which become filterable metadata
+ * (chunkMetadata.fields). Columns are named by their header, case-insensitively.
+ */
+export interface TableOptions {
+  textColumns?: string[]; // Default: every column not listed in metadataColumns
+  metadataColumns?: string[]; // Default: none
+}
+
+export interface Table {
+  name?: string; // Sheet name, used as the rows' section
+  rows: string[][]; // First row holds the headers
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * One segment per data row, written as "Header: value" pairs ("Plan: Pro | Price: $49 | Seats: 10")
+ * so every chunk reads on its own. Empty cells are left out, and so are rows with no text.
+ */
+export function tableToSegments(tables: Table[], options: TableOptions = {}): TextSegment[] {
+  const withHeaders = tables
+    .filter(table => table.rows.length > 0)
+    .map(table => ({
+      ...table,
+      headers: table.rows[0].map((header, i) => header.trim() || `Column ${i + 1}`)
+    }));
+
+  // A column name no table has is most likely a typo; fail the file rather than ingest the wrong columns
+  const allHeaders = new Set(withHeaders.flatMap(table => table.headers.map(normalizeName)));
+  const missing = [...(options.textColumns || []), ...(options.metadataColumns || [])].filter(name => !allHeaders.has(normalizeName(name)));
+  if (missing.length > 0) {
+    throw new Error(`Column not found: ${missing.join(', ')}. Columns: ${[...new Set(withHeaders.flatMap(table => table.headers))].join(', ')}`);
+  }
+
+  const textColumns = options.textColumns && new Set(options.textColumns.map(normalizeName));
+  const metadataColumns = new Set((options.metadataColumns || []).map(normalizeName));
+
+  return withHeaders.flatMap(table => table.rows.slice(1).flatMap((row, index) => {
+    const text: string[] = [];
+    const fields: Record<string, string> = {};
+    table.headers.forEach((header, column) => {
+      const value = (row[column] || '').trim();
+      if (!value) return;
+      const name = normalizeName(header);
+      if (textColumns ? textColumns.has(name) : !metadataColumns.has(name)) text.push(`${header}: ${value}`);
+      if (metadataColumns.has(name)) fields[fieldKey(header)] = value;
+    });
+    if (text.length === 0) return [];
+    return [{
+      text: text.join(' | '),
+      rowNumber: index + 1,
+      ...(table.name && { section: table.name }),
+      ...(Object.keys(fields).length > 0 && { fields })
+    }];
+  }));
+}
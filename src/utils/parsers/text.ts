@@ -0,0 +1,68 @@
+import { TextSegment } from '../chunkText.js';
+import { DocumentParser } from './types.js';
+
+export const textParser: DocumentParser = {
+  name: 'TXT',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    return [{ text: buffer.toString('utf8') }];
+  }
+};
+
+/**
+ * Markdown files, chunked along their headings. YAML front matter is left out.
+ */
+export const markdownParser: DocumentParser = {
+  name: 'Markdown',
+  extensions: ['md', 'markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const text = buffer.toString('utf8').replace(/^\uFEFF?---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+    return [{ text, markdown: true }];
+  }
+};
+
+// "path: value" lines for the leaves of a JSON value; arrays of plain values are listed on one line
+function flattenJson(value: unknown, path: string, lines: string[]): void {
+  const label = path ? `${path}: ` : '';
+  if (Array.isArray(value) && value.every(item => item === null || typeof item !== 'object')) {
+    if (value.length > 0) lines.push(`${label}${value.join(', ')}`);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenJson(item, `${path}[${index}]`, lines));
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) flattenJson(item, path ? `${path}.${key}` : key, lines);
+  } else if (value !== null && value !== '') {
+    lines.push(`${label}${value}`);
+  }
+}
+
+/**
+ * JSON exports as "path: value" lines. Each record of a top-level array and each top-level key
+ * holding an object or array becomes its own segment, with the key as its section.
+ */
+export const jsonParser: DocumentParser = {
+  name: 'JSON',
+  extensions: ['json'],
+  mimeTypes: ['application/json'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const data = JSON.parse(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+    const entries: [string | undefined, unknown][] = Array.isArray(data)
+      ? data.map(item => [undefined, item])
+      : data !== null && typeof data === 'object' ? Object.entries(data) : [[undefined, data]];
+
+    // Plain top-level values are gathered into one segment rather than one each
+    const plainLines: string[] = [];
+    const segments: TextSegment[] = [];
+    for (const [key, value] of entries) {
+      const lines: string[] = [];
+      flattenJson(value, key ?? '', lines);
+      if (value === null || typeof value !== 'object') {
+        plainLines.push(...lines);
+      } else if (lines.length > 0) {
+        segments.push({ text: lines.join('\n'), ...(key && { section: key }) });
+      }
+    }
+    return plainLines.length > 0 ? [{ text: plainLines.join('\n') }, ...segments] : segments;
+  }
+};
@@ -0,0 +1,17 @@
+import { TextSegment } from '../chunkText.js';
+import { TableOptions } from './table.js';
+
+export interface ParseOptions {
+  table?: TableOptions; // CSVs and spreadsheets
+}
+
+/**
+ * Reads one document format. Parsers return the document as segments the chunker keeps apart
+ * (pages, slides, sheets, chapters, table rows) or as a single segment for flat text.
+ */
+export interface DocumentParser {
+  readonly name: string; // Used in error messages, e.g. "Failed to parse XLSX"
+  readonly extensions: string[]; // Lowercase, without the dot
+  readonly mimeTypes: string[];
+  parse(buffer: Buffer, options?: ParseOptions): Promise<TextSegment[]>;
+}
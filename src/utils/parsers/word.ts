@@ -0,0 +1,29 @@
+import mammoth from 'mammoth';
+import textract from 'textract';
+import { TextSegment } from '../chunkText.js';
+import { DocumentParser } from './types.js';
+
+export const docxParser: DocumentParser = {
+  name: 'DOCX',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const result = await mammoth.extractRawText({ buffer });
+    return [{ text: result.value }];
+  }
+};
+
+export const docParser: DocumentParser = {
+  name: 'DOC',
+  extensions: ['doc'],
+  mimeTypes: ['application/msword'],
+  async parse(buffer: Buffer): Promise<TextSegment[]> {
+    const text = await new Promise<string>((resolve, reject) => {
+      textract.fromBufferWithMime('application/msword', buffer, (error: any, text: string) => {
+        if (error) reject(error);
+        else resolve(text);
+      });
+    });
+    return [{ text }];
+  }
+};
@@ -0,0 +1,84 @@
+import { JSDOM } from 'jsdom';
+import JSZip from 'jszip';
+import path from 'path';
+import { Readable } from 'stream';
+
+// Helpers for the ZIP-based formats (XLSX, PPTX, EPUB), whose parts are XML files
+
+// A small archive can inflate to gigabytes, so parts are counted as they are decompressed
+export const ZIP_LIMITS = {
+  maxPartBytes: parseInt(process.env.ZIP_MAX_PART_MB || '50') * 1024 * 1024, // One sheet, slide or chapter
+  maxArchiveBytes: parseInt(process.env.ZIP_MAX_ARCHIVE_MB || '200') * 1024 * 1024 // Everything read from one file
+};
+
+// Bytes decompressed so far from each open archive
+const inflatedBytes = new WeakMap<JSZip, number>();
+
+export async function openZip(buffer: Buffer): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error('File is not a valid ZIP archive');
+  }
+}
+
+export async function readZipText(zip: JSZip, name: string): Promise<string | null> {
+  const file = zip.file(name);
+  if (!file) return null;
+
+  const chunks: Buffer[] = [];
+  let partBytes = 0;
+  await new Promise<void>((resolve, reject) => {
+    const stream = file.nodeStream('nodebuffer') as Readable;
+    stream.on('data', (chunk: Buffer) => {
+      partBytes += chunk.length;
+      const archiveBytes = (inflatedBytes.get(zip) || 0) + chunk.length;
+      inflatedBytes.set(zip, archiveBytes);
+      if (partBytes > ZIP_LIMITS.maxPartBytes || archiveBytes > ZIP_LIMITS.maxArchiveBytes) {
+        stream.destroy();
+        const limit = partBytes > ZIP_LIMITS.maxPartBytes ? `${name} exceeds ${ZIP_LIMITS.maxPartBytes / 1024 / 1024}` : `File exceeds ${ZIP_LIMITS.maxArchiveBytes / 1024 / 1024}`;
+        reject(new Error(`${limit} MB once decompressed`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve());
+    stream.on('error', reject);
+  });
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export async function readZipXml(zip: JSZip, name: string): Promise<Document | null> {
+  const xml = await readZipText(zip, name);
+  return xml === null ? null : new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+}
+
+/**
+ * Targets of a part's relationships by id, resolved to archive paths. The relationships of
+ * `ppt/slides/slide1.xml` are in `ppt/slides/_rels/slide1.xml.rels`.
+ */
+export async function readRelationships(zip: JSZip, partName: string): Promise<Map<string, { target: string; type: string }>> {
+  const directory = path.posix.dirname(partName);
+  const rels = await readZipXml(zip, path.posix.join(directory, '_rels', `${path.posix.basename(partName)}.rels`));
+  const relationships = new Map<string, { target: string; type: string }>();
+  for (const relationship of Array.from(rels?.getElementsByTagName('Relationship') || [])) {
+    const id = relationship.getAttribute('Id');
+    const target = relationship.getAttribute('Target');
+    if (!id || !target || relationship.getAttribute('TargetMode') === 'External') continue;
+    relationships.set(id, { target: resolveZipPath(partName, target), type: relationship.getAttribute('Type') || '' });
+  }
+  return relationships;
+}
+
+// Archive path of a link found in a part; links are relative to the part, or to the root with a leading slash
+export function resolveZipPath(fromPart: string, target: string): string {
+  const decoded = decodeURIComponent(target.split('#')[0]);
+  return decoded.startsWith('/')
+    ? decoded.slice(1)
+    : path.posix.normalize(path.posix.join(path.posix.dirname(fromPart), decoded));
+}
+
+// Descendants with a local name, whatever namespace prefix the producing application used
+export function elementsByName(node: Document | Element | null | undefined, localName: string): Element[] {
+  return node ? Array.from(node.getElementsByTagNameNS('*', localName)) : [];
+}
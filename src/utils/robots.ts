@@ -0,0 +1,127 @@
+import { guardedGet } from './urlGuard.js';
+
+// Product token matched against robots.txt user-agent groups
+export const CRAWLER_USER_AGENT = process.env.CRAWL_USER_AGENT || 'ai-agent-crawler';
+
+export interface RobotsRules {
+  isAllowed(pathWithQuery: string): boolean;
+  crawlDelayMs?: number;
+  sitemaps: string[];
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+const ALLOW_ALL: RobotsRules = { isAllowed: () => true, sitemaps: [] };
+const DISALLOW_ALL: RobotsRules = { isAllowed: () => false, sitemaps: [] };
+
+/**
+ * Compile a robots.txt path pattern: it matches paths starting with it, `*` matches any
+ * characters and a trailing `$` anchors the end. Crawl include/exclude patterns use it too.
+ */
+export function compilePathPattern(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse robots.txt (RFC 9309) for one user agent. Rules come from the groups naming the
+ * agent, or the `*` group if none does. The longest matching rule wins; on a tie, allow wins.
+ */
+export function parseRobotsTxt(body: string, userAgent: string = CRAWLER_USER_AGENT): RobotsRules {
+  const agentToken = userAgent.toLowerCase();
+  const sitemaps: string[] = [];
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value, regex: compilePathPattern(value) });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
+    }
+  }
+
+  let matching = groups.filter(group => group.agents.some(agent => agent !== '*' && agentToken.includes(agent)));
+  if (matching.length === 0) {
+    matching = groups.filter(group => group.agents.includes('*'));
+  }
+  const rules = matching.flatMap(group => group.rules);
+  const crawlDelay = matching.find(group => group.crawlDelay !== undefined)?.crawlDelay;
+
+  return {
+    isAllowed(pathWithQuery: string): boolean {
+      // robots.txt itself is always allowed
+      if (pathWithQuery === '/robots.txt') return true;
+      let best: RobotsRule | null = null;
+      for (const rule of rules) {
+        if (!rule.regex.test(pathWithQuery)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+          best = rule;
+        }
+      }
+      return !best || best.allow;
+    },
+    ...(crawlDelay !== undefined && { crawlDelayMs: crawlDelay * 1000 }),
+    sitemaps
+  };
+}
+
+/**
+ * Fetch and parse a site's robots.txt. A missing file (4xx) allows everything; an unreachable
+ * one (5xx or network error) disallows everything, as RFC 9309 asks.
+ */
+export async function fetchRobotsTxt(origin: string): Promise<RobotsRules> {
+  try {
+    const response = await guardedGet(`${origin}/robots.txt`, {
+      timeout: 10000,
+      maxContentLength: 500 * 1024, // RFC 9309 only requires parsing the first 500 KiB
+      responseType: 'text',
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      validateStatus: () => true
+    });
+    if (response.status >= 200 && response.status < 300) {
+      return parseRobotsTxt(String(response.data));
+    }
+    if (response.status >= 400 && response.status < 500) {
+      return ALLOW_ALL;
+    }
+    console.log(`[WARNING] robots.txt of ${origin} returned ${response.status}; not crawling the site`);
+    return DISALLOW_ALL;
+  } catch (error) {
+    console.log(`[WARNING] Could not fetch robots.txt of ${origin}; not crawling the site: ${error instanceof Error ? error.message : error}`);
+    return DISALLOW_ALL;
+  }
+}
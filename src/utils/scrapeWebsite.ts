@@ -1,12 +1,18 @@
-import createDOMPurify from 'dompurify';
-import { JSDOM } from 'jsdom';
-import puppeteer from 'puppeteer';
 import { URL } from 'url';
 import UserAgent from 'user-agents';
+import { BrowserPool } from './browserPool.js';
+import { extractContent } from './extractContent.js';
+import { assertUrlAllowed, BlockedUrlError, guardedGet } from './urlGuard.js';
 
 // Debug mode configuration
 const DEBUG_MODE = process.env.DEBUG_SCRAPING === 'true' || process.env.NODE_ENV === 'development';
 
+const SCRAPE_CONFIG = {
+  staticFetch: process.env.SCRAPE_STATIC_FETCH !== 'false', // Try a plain HTTP fetch before starting the browser
+  staticTimeoutMs: 15000,
+  staticMaxBytes: 5 * 1024 * 1024
+};
+
 function debugLog(message: string, data?: any): void {
   if (DEBUG_MODE) {
     const timestamp = new Date().toISOString();
@@ -17,162 +23,196 @@ function debugLog(message: string, data?: any): void {
   }
 }
 
-function cleanHTML(inputHtml: string): string {
-  debugLog('Starting HTML cleaning process');
+// static: plain HTTP fetch; browser: rendered in headless Chromium
+export type ScrapeStrategy = 'static' | 'browser';
+
+export interface ScrapedPage {
+  url: string; // Final URL after redirects
+  title?: string;
+  content: string;
+  links: string[]; // Absolute URLs of the links on the page
+  strategy: ScrapeStrategy;
+}
+
+const isBotChallenge = (html: string) => html.includes('Verifying you are human') || html.includes('Cloudflare');
+
+/**
+ * Fetch a page over HTTP without running scripts. Returns null when the result is not usable
+ * (not HTML, a bot challenge, or empty/JS-shell content) and the page needs the browser.
+ */
+async function fetchStaticPage(url: string): Promise<ScrapedPage | null> {
   try {
-    debugLog(`Input HTML length: ${inputHtml.length} characters`);
-    const window = new JSDOM('').window;
-    const DOMPurify = createDOMPurify(window);
-    const cleaned = DOMPurify.sanitize(inputHtml, { ALLOWED_TAGS: [] });
-    debugLog(`Cleaned HTML length: ${cleaned.length} characters`);
-    const result = cleaned.trim();
-    debugLog(`Final cleaned content length: ${result.length} characters`);
-    return result;
+    const response = await guardedGet(url, {
+      timeout: SCRAPE_CONFIG.staticTimeoutMs,
+      maxContentLength: SCRAPE_CONFIG.staticMaxBytes,
+      responseType: 'text',
+      headers: {
+        'User-Agent': new UserAgent({ deviceCategory: 'desktop' }).toString(),
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+      }
+    });
+    const contentType = String(response.headers['content-type'] || '');
+    if (!/html/i.test(contentType)) {
+      debugLog(`Static fetch returned ${contentType || 'no content type'}, using the browser`);
+      return null;
+    }
+    const html = String(response.data);
+    if (isBotChallenge(html)) {
+      debugLog('Bot challenge in static response, using the browser');
+      return null;
+    }
+
+    const finalUrl = response.finalUrl;
+    const extracted = extractContent(html, finalUrl);
+    if (extracted.looksLikeJsShell) {
+      debugLog(`Static content looks empty or like a JS shell (${extracted.text.length} characters), using the browser`);
+      return null;
+    }
+    if (!extracted.markdown) return null;
+
+    return { url: finalUrl, title: extracted.title, content: extracted.markdown, links: extracted.links, strategy: 'static' };
   } catch (error: any) {
-    debugLog(`Error cleaning HTML: ${error.message}`, { stack: error.stack });
-    console.error(`Error cleaning HTML: ${error.message}`);
-    throw new Error(`Failed to clean HTML content: ${error.message}`);
+    if (error instanceof BlockedUrlError) throw error;
+    // Failed fetches (e.g. bot protection) often work in a real browser
+    debugLog(`Static fetch of ${url} failed, using the browser: ${error.message}`);
+    return null;
   }
 }
 
-async function scrapeAndCleanContent(url: string): Promise<string> {
+/**
+ * Scrape a page's text and links. Server-rendered pages are fetched over plain HTTP; the shared
+ * browser is only used when that result looks empty or like a JS shell.
+ */
+export async function scrapePage(url: string): Promise<ScrapedPage> {
   debugLog(`Starting to scrape content from: ${url}`);
-  let browser = null;
+  if (SCRAPE_CONFIG.staticFetch) {
+    const staticPage = await fetchStaticPage(url);
+    if (staticPage) {
+      debugLog(`Scraped ${url} without the browser (${staticPage.content.length} characters)`);
+      return staticPage;
+    }
+  }
+  return scrapePageInBrowser(url);
+}
+
+/**
+ * Check a request the browser is about to make, so a blocked redirect fails the scrape with its
+ * reason. Schemes without network access pass; http(s) hosts go through the URL guard once per
+ * page. The browser's proxy checks every connection again at the address it actually uses.
+ */
+async function checkBrowserRequest(url: string, checkedHosts: Map<string, Promise<void>>): Promise<void> {
+  const parsed = new URL(url);
+  if (['data:', 'blob:', 'about:'].includes(parsed.protocol)) return;
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedUrlError(`Protocol not allowed: ${parsed.protocol}`);
+  }
+  if (!checkedHosts.has(parsed.host)) {
+    checkedHosts.set(parsed.host, assertUrlAllowed(url));
+  }
+  await checkedHosts.get(parsed.host);
+}
+
+/**
+ * Load a page in the shared browser and extract its text and links in one visit.
+ * Every request the page makes (redirects and subresources included) is checked by the URL guard,
+ * and WebSockets are blocked.
+ */
+async function scrapePageInBrowser(url: string): Promise<ScrapedPage> {
+  await assertUrlAllowed(url);
   let retries = 3;
-  
+
   while (retries > 0) {
     try {
-      debugLog(`Launching browser... (attempt ${4 - retries}/3)`);
-    browser = await puppeteer.launch({
-      headless: true,
-      executablePath: process.env.NODE_ENV === "production" 
-      ? process.env.PUPPETEER_EXECUTABLE_PATH 
-      : undefined,
-      args: [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--no-first-run',
-        '--no-zygote',
-          '--single-process',
-          '--disable-gpu',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-renderer-backgrounding',
-          '--disable-features=TranslateUI',
-          '--disable-ipc-flooding-protection',
-          '--disable-default-apps',
-          '--disable-extensions',
-          '--disable-plugins',
-          '--disable-sync',
-          '--disable-translate',
-          '--hide-scrollbars',
-          '--mute-audio',
-          '--no-default-browser-check',
-          '--no-pings',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--disable-background-networking',
-          '--disable-client-side-phishing-detection',
-          '--disable-component-extensions-with-background-pages',
-          '--disable-domain-reliability',
-          '--disable-features=AudioServiceOutOfProcess',
-          '--disable-hang-monitor',
-          '--disable-prompt-on-repost',
-          '--force-color-profile=srgb',
-          '--metrics-recording-only',
-          '--safebrowsing-disable-auto-update',
-          '--enable-automation',
-          '--password-store=basic',
-          '--use-mock-keychain',
-          '--disable-blink-features=AutomationControlled',
-          '--disable-features=WebUIDarkMode',
-        ],
-        timeout: 30000,
-      });
-      debugLog('Browser launched successfully');
+      return await BrowserPool.withPage(async (page) => {
+        debugLog('New page created');
 
-      const page = await browser.newPage();
-      debugLog('New page created');
+        // Set page timeout
+        page.setDefaultTimeout(30000);
+        page.setDefaultNavigationTimeout(30000);
 
-      // Set page timeout
-      page.setDefaultTimeout(30000);
-      page.setDefaultNavigationTimeout(30000);
+        const userAgent = new UserAgent({ deviceCategory: 'desktop' }).toString();
+        debugLog(`Setting user agent: ${userAgent.substring(0, 50)}...`);
+        await page.setUserAgent(userAgent);
 
-      const userAgent = new UserAgent({ deviceCategory: 'desktop' }).toString();
-      debugLog(`Setting user agent: ${userAgent.substring(0, 50)}...`);
-      await page.setUserAgent(userAgent);
-      
-      debugLog('Enabling JavaScript...');
-      await page.setJavaScriptEnabled(true);
-      
-      debugLog('Setting up request interception...');
-      await page.setRequestInterception(true);
-      page.on('request', (req: any) => {
-        if (["image", "stylesheet", "font"].includes(req.resourceType())) {
-          debugLog(`Blocking resource: ${req.resourceType()} - ${req.url().substring(0, 100)}...`);
-          req.abort();
-        } else {
-          req.continue();
-        }
-      });
+        debugLog('Enabling JavaScript...');
+        await page.setJavaScriptEnabled(true);
 
-      debugLog(`Navigating to URL: ${url}`);
-      await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
-      debugLog('Page loaded successfully');
+        // Request interception never sees WebSockets, so they are blocked outright
+        const session = await page.createCDPSession();
+        await session.send('Network.enable');
+        await session.send('Network.setBlockedURLs', { urls: ['ws://*', 'wss://*'] });
 
-      // Wait a bit for any dynamic content
-      await new Promise(resolve => setTimeout(resolve, 2000));
+        debugLog('Setting up request interception...');
+        await page.setRequestInterception(true);
+        const checkedHosts = new Map<string, Promise<void>>();
+        let blockedNavigation: BlockedUrlError | null = null;
+        page.on('request', async (req) => {
+          if (["image", "stylesheet", "font"].includes(req.resourceType())) {
+            debugLog(`Blocking resource: ${req.resourceType()} - ${req.url().substring(0, 100)}...`);
+            await req.abort().catch(() => undefined);
+            return;
+          }
+          try {
+            await checkBrowserRequest(req.url(), checkedHosts);
+          } catch (error) {
+            debugLog(`Blocking request to a disallowed URL: ${req.url().substring(0, 100)}`);
+            if (req.isNavigationRequest() && req.frame() === page.mainFrame()) {
+              blockedNavigation = error instanceof BlockedUrlError ? error : new BlockedUrlError(String(error));
+            }
+            await req.abort('blockedbyclient').catch(() => undefined);
+            return;
+          }
+          // The page may have closed while the host was being checked
+          await req.continue().catch(() => undefined);
+        });
 
-      const pageContent = await page.content();
-      debugLog(`Page content length: ${pageContent.length} characters`);
+        debugLog(`Navigating to URL: ${url}`);
+        try {
+          await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        } catch (error) {
+          // A blocked redirect surfaces as a generic navigation error
+          throw blockedNavigation || error;
+        }
+        if (blockedNavigation) throw blockedNavigation;
+        debugLog('Page loaded successfully');
 
-      if (
-        pageContent.includes('Verifying you are human') ||
-        pageContent.includes('Cloudflare')
-      ) {
-        debugLog('Cloudflare verification detected in page content');
-        throw new Error('Cloudflare verification detected');
-      }
+        // Wait a bit for any dynamic content
+        await new Promise(resolve => setTimeout(resolve, 2000));
 
-      debugLog('Extracting article content...');
-      const htmlContent = await page.evaluate(() => {
-        const article = document.querySelector('article') || document.body;
-        return article.innerHTML;
-      });
-      debugLog(`Extracted HTML content length: ${htmlContent.length} characters`);
+        const pageContent = await page.content();
+        debugLog(`Page content length: ${pageContent.length} characters`);
 
-      const cleanedContent = cleanHTML(htmlContent);
-      debugLog(`Cleaned content length: ${cleanedContent.length} characters`);
+        if (isBotChallenge(pageContent)) {
+          debugLog('Cloudflare verification detected in page content');
+          throw new Error('Cloudflare verification detected');
+        }
 
-      if (!cleanedContent) {
-        debugLog('No content extracted from page');
-        throw new Error('No content extracted from page');
-      }
+        debugLog('Extracting main content and links...');
+        const extracted = extractContent(pageContent, page.url());
+        debugLog(`Extracted content length: ${extracted.markdown.length} characters, ${extracted.links.length} links`);
+
+        if (!extracted.markdown) {
+          debugLog('No content extracted from page');
+          throw new Error('No content extracted from page');
+        }
 
-      debugLog('Content scraping completed successfully');
-      return cleanedContent;
+        debugLog('Content scraping completed successfully');
+        return {
+          url: page.url(),
+          title: extracted.title,
+          content: extracted.markdown,
+          links: extracted.links,
+          strategy: 'browser' as const
+        };
+      });
     } catch (error: any) {
+      if (error instanceof BlockedUrlError) throw error;
       debugLog(`Error scraping ${url} (attempt ${4 - retries}/3): ${error.message}`, { 
         stack: error.stack,
         url: url 
       });
       console.error(`Error scraping ${url} (attempt ${4 - retries}/3): ${error.message}`);
-      
 
-      
-      // Close browser if it exists
-      if (browser) {
-        try {
-          await browser.close();
-          debugLog('Browser closed after error');
-        } catch (closeError: any) {
-          debugLog(`Error closing browser: ${closeError.message}`);
-        }
-        browser = null;
-      }
-      
       retries--;
       if (retries > 0) {
         debugLog(`Retrying... (${retries} attempts left)`);
@@ -180,143 +220,16 @@ async function scrapeAndCleanContent(url: string): Promise<string> {
       } else {
         throw new Error(`Failed to scrape content after 3 attempts: ${error.message}`);
       }
-    } finally {
-      if (browser) {
-        try {
-          debugLog('Closing browser...');
-          await browser.close();
-          debugLog('Browser closed successfully');
-        } catch (error: any) {
-          debugLog(`Error closing browser: ${error.message}`, { stack: error.stack });
-          console.error(`Error closing browser: ${error.message}`);
-        }
-      }
     }
   }
   
   throw new Error('All retry attempts failed');
 }
 
-async function getAllLinks(url: string): Promise<string[]> {
-  debugLog(`Getting all links from: ${url}`);
-  let browser = null;
-  let retries = 3;
-  
-  while (retries > 0) {
-    try {
-      debugLog(`Launching browser for link extraction... (attempt ${4 - retries}/3)`);
-    browser = await puppeteer.launch({
-      headless: true,
-      executablePath: process.env.NODE_ENV === "production" 
-      ? process.env.PUPPETEER_EXECUTABLE_PATH 
-      : undefined,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--no-zygote',
-          '--single-process',
-          '--disable-gpu',
-          '--disable-background-timer-throttling',
-          '--disable-backgrounding-occluded-windows',
-          '--disable-renderer-backgrounding',
-          '--disable-features=TranslateUI',
-          '--disable-ipc-flooding-protection',
-          '--disable-default-apps',
-          '--disable-extensions',
-          '--disable-plugins',
-          '--disable-sync',
-          '--disable-translate',
-          '--hide-scrollbars',
-          '--mute-audio',
-          '--no-default-browser-check',
-          '--no-pings',
-          '--disable-web-security',
-          '--disable-features=VizDisplayCompositor',
-          '--disable-background-networking',
-          '--disable-client-side-phishing-detection',
-          '--disable-component-extensions-with-background-pages',
-          '--disable-domain-reliability',
-          '--disable-features=AudioServiceOutOfProcess',
-          '--disable-hang-monitor',
-          '--disable-prompt-on-repost',
-          '--force-color-profile=srgb',
-          '--metrics-recording-only',
-          '--safebrowsing-disable-auto-update',
-          '--enable-automation',
-          '--password-store=basic',
-          '--use-mock-keychain',
-          '--disable-blink-features=AutomationControlled',
-          '--disable-features=WebUIDarkMode',
-        ],
-        timeout: 30000,
-      });
-      
-      const page = await browser.newPage();
-      
-      // Set page timeout
-      page.setDefaultTimeout(30000);
-      page.setDefaultNavigationTimeout(30000);
-      
-      const userAgent = new UserAgent({ deviceCategory: 'desktop' }).toString();
-      await page.setUserAgent(userAgent);
-      
-      debugLog(`Navigating to URL for link extraction: ${url}`);
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
-      
-      // Wait a bit for any dynamic content
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      debugLog('Extracting links from page...');
-      const links = await page.evaluate(() =>
-        Array.from(document.querySelectorAll('a')).map((anchor) => anchor.href)
-      );
-      debugLog(`Found ${links.length} links on page`);
-      return links;
-    } catch (error: any) {
-      debugLog(`Error getting links from ${url} (attempt ${4 - retries}/3): ${error.message}`, { stack: error.stack });
-      console.error(`Error getting links from ${url} (attempt ${4 - retries}/3): ${error.message}`);
-      
-
-      
-      // Close browser if it exists
-      if (browser) {
-        try {
-          await browser.close();
-          debugLog('Browser closed after error');
-        } catch (closeError: any) {
-          debugLog(`Error closing browser: ${closeError.message}`);
-        }
-        browser = null;
-      }
-      
-      retries--;
-      if (retries > 0) {
-        debugLog(`Retrying... (${retries} attempts left)`);
-        await new Promise(resolve => setTimeout(resolve, 2000)); // Wait 2 seconds before retry
-      } else {
-        debugLog('All retry attempts failed for link extraction');
-        return [];
-      }
-    } finally {
-      if (browser) {
-        try {
-          debugLog('Closing browser for link extraction...');
-          await browser.close();
-        } catch (error: any) {
-          debugLog(`Error closing browser for link extraction: ${error.message}`, { stack: error.stack });
-          console.error(`Error closing browser: ${error.message}`);
-        }
-      }
-    }
-  }
-  
-  return [];
-}
-
-function isImportantRoute(url: string, baseUrl: string): boolean {
+/**
+ * Default crawl filter: same host, and not an obviously non-content path or file
+ */
+export function isImportantRoute(url: string, baseUrl: string): boolean {
   try {
     const parsedUrl = new URL(url);
     const parsedBaseUrl = new URL(baseUrl);
@@ -465,125 +378,39 @@ function isImportantRoute(url: string, baseUrl: string): boolean {
   }
 }
 
-export async function scrapeAllRoutes(baseUrl: string, options?: { firstRouteOnly?: boolean }): Promise<string | { error: string; source: string }> {
-  debugLog(`Starting scrapeAllRoutes for base URL: ${baseUrl}${options?.firstRouteOnly ? ' (first route only)' : ''}`);
+/**
+ * Scrape a single page. Use crawlWebsite to follow links across a site.
+ */
+export async function scrapeWebsite(url: string): Promise<ScrapedPage | { error: string; source: string }> {
+  debugLog(`Starting scrapeWebsite for URL: ${url}`);
   try {
-    if (!baseUrl || typeof baseUrl !== 'string' || baseUrl.trim() === '') {
-      debugLog('Invalid baseUrl: empty or not a string');
-      throw new Error('baseUrl must be a non-empty string');
+    if (!url || typeof url !== 'string' || url.trim() === '') {
+      debugLog('Invalid url: empty or not a string');
+      throw new Error('url must be a non-empty string');
     }
     
     try {
-      new URL(baseUrl);
+      new URL(url);
       debugLog('URL format validation passed');
     } catch {
       debugLog('Invalid URL format');
       throw new Error('Invalid URL format');
     }
 
-    // If firstRouteOnly is true, just scrape the base URL
-    if (options?.firstRouteOnly) {
-      debugLog('First route only mode: scraping only the base URL');
-      try {
-        const cleanedContent = await scrapeAndCleanContent(baseUrl);
-        if (!cleanedContent || cleanedContent.trim() === '') {
-          debugLog('No content scraped from base URL');
-          throw new Error('No content scraped from base URL');
-        }
-        debugLog('First route scraping completed successfully');
-        console.log('[DEBUG] First route content:', cleanedContent.substring(0, 500) + '...');
-        return cleanedContent.trim();
-      } catch (error: any) {
-        debugLog(`Error scraping first route ${baseUrl}: ${error.message}`, { 
-          stack: error.stack,
-          baseUrl: baseUrl 
-        });
-        console.error(`Error scraping first route ${baseUrl}: ${error.message}`);
-        return { error: error.message, source: 'website' };
-      }
-    }
-
-    // Original full crawling logic
-    const visitedLinks = new Set<string>();
-    const linksToVisit: string[] = [baseUrl];
-    let combinedContent = '';
-    const maxPages = 10;
-    let pageCount = 0;
-
-    debugLog(`Starting crawl with max pages: ${maxPages}`);
-
-    while (linksToVisit.length > 0 && pageCount < maxPages) {
-      const currentLink = linksToVisit.pop();
-      debugLog(`Processing link ${pageCount + 1}/${maxPages}: ${currentLink}`);
-      
-      if (currentLink && !visitedLinks.has(currentLink)) {
-        visitedLinks.add(currentLink);
-        pageCount++;
-        
-        try {
-          debugLog(`Scraping content from: ${currentLink}`);
-          const cleanedContent = await scrapeAndCleanContent(currentLink);
-          if (cleanedContent) {
-            combinedContent += `\n\n${cleanedContent}`;
-            debugLog(`Added content from ${currentLink}, total length: ${combinedContent.length}`);
-          } else {
-            debugLog(`No content extracted from ${currentLink}`);
-          }
-        } catch (error: any) {
-          debugLog(`Skipping ${currentLink}: ${error.message}`, { stack: error.stack });
-          console.error(`Skipping ${currentLink}: ${error.message}`);
-          continue;
-        }
-
-        debugLog(`Extracting links from: ${currentLink}`);
-        const newLinks = await getAllLinks(currentLink);
-        debugLog(`Found ${newLinks.length} links on ${currentLink}`);
-
-        const parsedBaseUrl = new URL(baseUrl);
-        let validLinksCount = 0;
-        
-        for (const link of newLinks) {
-          try {
-            // Only include important routes
-            if (isImportantRoute(link, baseUrl)) {
-              const parsedLink = new URL(link);
-              if (
-                parsedLink.hostname === parsedBaseUrl.hostname &&
-                !visitedLinks.has(link) &&
-                !linksToVisit.includes(link)
-              ) {
-                linksToVisit.push(link);
-                validLinksCount++;
-              }
-            }
-          } catch {
-            debugLog(`Invalid link found: ${link}`);
-            continue;
-          }
-        }
-        
-        debugLog(`Added ${validLinksCount} valid important links to visit queue`);
-        debugLog(`Remaining links to visit: ${linksToVisit.length}`);
-      }
+    const scraped = await scrapePage(url);
+    if (!scraped.content || scraped.content.trim() === '') {
+      debugLog('No content scraped from URL');
+      throw new Error('No content scraped from URL');
     }
-
-    debugLog(`Crawl completed. Processed ${pageCount} pages`);
-    debugLog(`Final combined content length: ${combinedContent.length} characters`);
-
-    if (!combinedContent || combinedContent.trim() === '') {
-      debugLog('No content scraped from website');
-      throw new Error('No content scraped from website');
-    }
-
-    debugLog('Scraping completed successfully');
-    console.log('[DEBUG] Combined content:', combinedContent.substring(0, 500) + '...');
-    return combinedContent.trim();
+    debugLog(`Page scraping completed successfully (${scraped.strategy})`);
+    console.log('[DEBUG] Page content:', scraped.content.substring(0, 500) + '...');
+    return { ...scraped, content: scraped.content.trim() };
   } catch (error: any) {
-    debugLog(`Error scraping website ${baseUrl}: ${error.message}`, { 
+    debugLog(`Error scraping website ${url}: ${error.message}`, { 
       stack: error.stack,
-      baseUrl: baseUrl 
+      url: url 
     });
-    console.error(`Error scraping website ${baseUrl}: ${error.message}`);
+    console.error(`Error scraping website ${url}: ${error.message}`);
     return { error: error.message, source: 'website' };
   }
-} 
+}
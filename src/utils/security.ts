@@ -1,5 +1,7 @@
 import { Request } from 'express';
+import net from 'net';
 import { URL } from 'url';
+import { isBlockedAddress } from './urlGuard.js';
 
 // Security configuration
 export const SECURITY_CONFIG = {
@@ -9,7 +11,7 @@ export const SECURITY_CONFIG = {
   MAX_TEXT_LENGTH: 10 * 1024 * 1024, // Increased from 1MB to 10MB for large training data
   
   // Allowed file extensions (whitelist approach)
-  ALLOWED_DOCUMENT_EXTENSIONS: ['.pdf', '.docx', '.doc', '.txt', '.csv', '.md'],
+  ALLOWED_DOCUMENT_EXTENSIONS: ['.pdf', '.docx', '.doc', '.txt', '.csv', '.md', '.markdown', '.html', '.htm', '.xhtml', '.json', '.xlsx', '.pptx', '.epub', '.rtf', '.png', '.jpg', '.jpeg'],
   ALLOWED_AUDIO_EXTENSIONS: ['.mp3', '.wav', '.m4a', '.aac', '.ogg', '.flac'],
   ALLOWED_VIDEO_EXTENSIONS: ['.mp4', '.webm', '.mov', '.avi', '.mkv'],
   
@@ -27,9 +29,12 @@ export const SECURITY_CONFIG = {
   
   // Input sanitization
   MAX_AGENT_ID_LENGTH: 100,
+  MAX_CONVERSATION_ID_LENGTH: 100,
   MAX_QUESTION_LENGTH: 50000,
   MAX_SOURCE_URL_LENGTH: 500,
   MAX_METADATA_SIZE: 50000, // 10KB
+  MAX_FIELD_FILTERS: 20, // Columns in one ask request's filters
+  MAX_FIELD_FILTER_VALUES: 100, // Values allowed for one column
 };
 
 /**
@@ -72,6 +77,59 @@ export function sanitizeAgentId(agentId: string): { isValid: boolean; sanitized?
   return { isValid: true, sanitized };
 }
 
+/**
+ * Sanitize and validate conversation ID
+ */
+export function sanitizeConversationId(conversationId: string): { isValid: boolean; sanitized?: string; error?: string } {
+  if (!conversationId || typeof conversationId !== 'string') {
+    return { isValid: false, error: 'Conversation ID must be a non-empty string' };
+  }
+  
+  if (conversationId.length > SECURITY_CONFIG.MAX_CONVERSATION_ID_LENGTH) {
+    return { isValid: false, error: `Conversation ID too long (max ${SECURITY_CONFIG.MAX_CONVERSATION_ID_LENGTH} characters)` };
+  }
+  
+  // Same character set as agent IDs (UUIDs fit)
+  if (/[^\w\-_.]/.test(conversationId)) {
+    return { isValid: false, error: 'Conversation ID contains invalid characters' };
+  }
+  
+  return { isValid: true, sanitized: conversationId.trim() };
+}
+
+/**
+ * Validate ask filters on table row metadata: column name -> value or list of accepted values.
+ * Values are compared as strings, as they are stored.
+ */
+export function sanitizeFieldFilters(filters: any): { isValid: boolean; sanitized?: Record<string, string[]>; error?: string } {
+  if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+    return { isValid: false, error: 'filters must be an object of column names and values' };
+  }
+
+  const entries = Object.entries(filters);
+  if (entries.length > SECURITY_CONFIG.MAX_FIELD_FILTERS) {
+    return { isValid: false, error: `Too many filters (max ${SECURITY_CONFIG.MAX_FIELD_FILTERS})` };
+  }
+
+  const sanitized: Record<string, string[]> = {};
+  for (const [name, value] of entries) {
+    if (!name.trim() || name.length > 200) {
+      return { isValid: false, error: 'Filter column names must be 1-200 characters' };
+    }
+    const values = Array.isArray(value) ? value : [value];
+    if (values.length === 0 || values.length > SECURITY_CONFIG.MAX_FIELD_FILTER_VALUES ||
+        values.some(item => !['string', 'number'].includes(typeof item))) {
+      return { isValid: false, error: `Filter '${name}' must be a string or number, or a list of up to ${SECURITY_CONFIG.MAX_FIELD_FILTER_VALUES}` };
+    }
+    // Column names are matched case-insensitively, so "Region" and "region" are the same filter
+    if (Object.keys(sanitized).some(other => other.toLowerCase() === name.trim().toLowerCase())) {
+      return { isValid: false, error: `Filter '${name}' is given more than once` };
+    }
+    sanitized[name.trim()] = values.map(item => String(item).trim());
+  }
+  return { isValid: true, sanitized };
+}
+
 /**
  * Sanitize and validate question text
  */
@@ -130,8 +188,9 @@ export function sanitizeSourceUrl(sourceUrl: string): { isValid: boolean; saniti
       return { isValid: false, error: `Domain not allowed: ${hostname}` };
     }
     
-    // Check for local/private IP addresses
-    if (hostname.match(/^(10\.|172\.(1[6-9]|2[0-9]|3[01])\.|192\.168\.|127\.|169\.254\.|::1$)/)) {
+    // Check for local/private IP addresses. Hostnames are checked when they are resolved (see urlGuard)
+    const address = hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(address) && isBlockedAddress(address)) {
       return { isValid: false, error: 'Private/local IP addresses not allowed' };
     }
     
@@ -185,6 +244,17 @@ export function validateFileUpload(file: any): { isValid: boolean; error?: strin
     'text/plain',
     'text/csv',
     'text/markdown',
+    'text/x-markdown',
+    'text/html',
+    'application/xhtml+xml',
+    'application/json',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/epub+zip',
+    'application/rtf',
+    'text/rtf',
+    'image/png',
+    'image/jpeg',
     // Audio
     'audio/mpeg',
     'audio/wav',
@@ -0,0 +1,248 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import dns from 'dns';
+import net from 'net';
+
+// Ranges never fetched on behalf of a tenant: loopback, private, link-local (incl. cloud metadata), CGNAT, multicast, reserved
+const BLOCKED_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+// Hostnames of cloud metadata services and local names, blocked whatever they resolve to unless allowlisted
+const BLOCKED_HOSTNAMES = ['localhost', '*.localhost', 'metadata', 'metadata.google.internal', 'instance-data', '*.internal'];
+
+const MAX_REDIRECTS = 5;
+
+const blockedRanges = new net.BlockList();
+for (const [network, prefix, type] of BLOCKED_RANGES) {
+  blockedRanges.addSubnet(network, prefix, type);
+}
+
+export type DnsLookup = (hostname: string) => Promise<string[]>;
+
+const systemLookup: DnsLookup = async (hostname) =>
+  (await dns.promises.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+let dnsLookup: DnsLookup = systemLookup;
+
+/**
+ * Replace the DNS resolver used for URL checks and guarded connections (tests use a fake one).
+ * Call without arguments to restore the system resolver.
+ */
+export function setDnsLookup(lookup?: DnsLookup): void {
+  dnsLookup = lookup || systemLookup;
+}
+
+// Error for URLs that point at blocked hosts or addresses; routes turn it into a 400
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+interface UrlRules {
+  hosts: string[];
+  ranges: net.BlockList;
+}
+
+// Comma-separated hostnames (`*.example.com` matches subdomains), IP addresses and CIDR ranges
+function parseRules(value: string | undefined): UrlRules {
+  const rules: UrlRules = { hosts: [], ranges: new net.BlockList() };
+  for (const entry of (value || '').split(',').map(item => item.trim().toLowerCase()).filter(Boolean)) {
+    const [address, prefix] = entry.split('/');
+    const type = net.isIP(address);
+    if (type) {
+      const family = type === 4 ? 'ipv4' : 'ipv6';
+      if (prefix !== undefined) {
+        rules.ranges.addSubnet(address, parseInt(prefix), family);
+      } else {
+        rules.ranges.addAddress(address, family);
+      }
+    } else {
+      rules.hosts.push(entry);
+    }
+  }
+  return rules;
+}
+
+// Read on every check so deployments and tests can change them without a restart
+const allowRules = () => parseRules(process.env.URL_ALLOWLIST);
+const denyRules = () => parseRules(process.env.URL_DENYLIST);
+
+function matchesHost(hostname: string, patterns: string[]): boolean {
+  return patterns.some(pattern => pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1))
+    : hostname === pattern);
+}
+
+const inRanges = (ranges: net.BlockList, address: string) => ranges.check(address, net.isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// IPv4 address carried in a NAT64 (64:ff9b::/96) or 6to4 (2002::/16) address
+function embeddedIPv4(address: string): string | null {
+  if (net.isIP(address) !== 6) return null;
+  let normalized: string;
+  try {
+    // The URL parser writes IPv6 hosts in compressed, hex-only form
+    normalized = new URL(`http://[${address}]`).hostname.slice(1, -1);
+  } catch {
+    return null;
+  }
+  const [head, tail] = normalized.includes('::') ? normalized.split('::') : [normalized, null];
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === null
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+  const toIPv4 = (high: string, low: string) => {
+    const value = (parseInt(high, 16) << 16 >>> 0) + parseInt(low, 16);
+    return [value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255].join('.');
+  };
+  if (groups[0] === '64' && groups[1] === 'ff9b' && groups.slice(2, 6).every(group => parseInt(group, 16) === 0)) {
+    return toIPv4(groups[6], groups[7]);
+  }
+  if (groups[0] === '2002') {
+    return toIPv4(groups[1], groups[2]);
+  }
+  return null;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, metadata or otherwise not public
+ */
+export function isBlockedAddress(address: string): boolean {
+  if (!net.isIP(address)) return true;
+  if (inRanges(blockedRanges, address)) return true;
+  const embedded = embeddedIPv4(address);
+  return embedded !== null && inRanges(blockedRanges, embedded);
+}
+
+/**
+ * Resolve a hostname and check every address it resolves to. Returns the addresses, or throws
+ * BlockedUrlError if the host is denied or any address is private and not allowlisted.
+ */
+export async function resolveAllowedHost(host: string): Promise<string[]> {
+  const hostname = host.replace(/^\[|\]$/g, '').toLowerCase().replace(/\.$/, '');
+  const allow = allowRules();
+  const deny = denyRules();
+
+  if (matchesHost(hostname, deny.hosts)) {
+    throw new BlockedUrlError(`Host not allowed: ${hostname}`);
+  }
+  const hostAllowed = matchesHost(hostname, allow.hosts);
+  if (matchesHost(hostname, BLOCKED_HOSTNAMES) && !hostAllowed) {
+    throw new BlockedUrlError(`Host not allowed: ${hostname}`);
+  }
+
+  let addresses: string[];
+  if (net.isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await dnsLookup(hostname);
+    } catch (error) {
+      throw new BlockedUrlError(`Could not resolve host ${hostname}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  if (addresses.length === 0) {
+    throw new BlockedUrlError(`Host ${hostname} has no addresses`);
+  }
+
+  for (const address of addresses) {
+    if (inRanges(deny.ranges, address)) {
+      throw new BlockedUrlError(`Host ${hostname} resolves to a denied address (${address})`);
+    }
+    if (isBlockedAddress(address) && !hostAllowed && !inRanges(allow.ranges, address)) {
+      throw new BlockedUrlError(`Host ${hostname} resolves to a private or reserved address (${address})`);
+    }
+  }
+  return addresses;
+}
+
+/**
+ * Check that a URL may be fetched: http(s) only, and a host that passes resolveAllowedHost
+ */
+export async function assertUrlAllowed(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError('Invalid URL format');
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new BlockedUrlError(`Protocol not allowed: ${parsed.protocol}`);
+  }
+  await resolveAllowedHost(parsed.hostname);
+}
+
+/**
+ * `lookup` for outgoing connections. The connection goes to the address that was checked,
+ * so a host can't pass the check and then resolve to a private address (DNS rebinding).
+ */
+export function guardedLookup(hostname: string, options: { all?: boolean }, callback: (...args: any[]) => void): void {
+  resolveAllowedHost(hostname).then(
+    addresses => {
+      const entries = addresses.map(address => ({ address, family: net.isIP(address) }));
+      if (options.all) {
+        callback(null, entries);
+      } else {
+        callback(null, entries[0].address, entries[0].family);
+      }
+    },
+    error => callback(error)
+  );
+}
+
+export type GuardedResponse<T> = AxiosResponse<T> & { finalUrl: string }; // URL the redirects ended at
+
+/**
+ * GET a URL with every connection and redirect checked against the URL rules.
+ * Redirects are followed here (up to 5) so each hop is validated before it is requested.
+ */
+export async function guardedGet<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<GuardedResponse<T>> {
+  let current = url;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertUrlAllowed(current);
+    let response: AxiosResponse<T>;
+    try {
+      response = await axios.get<T>(current, {
+        ...config,
+        lookup: guardedLookup,
+        maxRedirects: 0,
+        validateStatus: status => (status >= 300 && status < 400) || (config.validateStatus ? config.validateStatus(status) : status >= 200 && status < 300)
+      } as AxiosRequestConfig);
+    } catch (error) {
+      // A connection refused by guardedLookup comes back wrapped in an AxiosError
+      const cause = (error as { cause?: unknown }).cause;
+      throw cause instanceof BlockedUrlError ? cause : error;
+    }
+
+    const location = response.headers.location;
+    if (response.status >= 300 && response.status < 400 && location) {
+      current = new URL(String(location), current).toString();
+      continue;
+    }
+    return Object.assign(response, { finalUrl: current });
+  }
+  throw new BlockedUrlError(`Too many redirects (max ${MAX_REDIRECTS})`);
+}
@@ -1,6 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GoogleGenAI, createPartFromUri, createUserContent } from '@google/genai';
 import dotenv from 'dotenv';
 import { YoutubeTranscript } from 'youtube-transcript';
+import { getGeminiApiKeys } from '../services/providers/gemini.js';
 dotenv.config();
 
 /**
@@ -80,12 +81,13 @@ export async function fetchYouTubeTranscript(url: string): Promise<string> {
  */
 export async function summarizeYouTubeVideoWithGemini(url: string): Promise<string> {
   // Use the first available Gemini API key from env
-  const apiKey = process.env.GEMINI_API_KEY || process.env.GEMINI_API_KEY_1;
+  const [apiKey] = getGeminiApiKeys();
   if (!apiKey) throw new Error('No Gemini API key found in environment variables');
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: 'gemini-1.5-pro' });
-  const result = await model.generateContent([
-    `You are an AI assistant tasked with creating a complete, word-for-word transcript of video content for a Retrieval-Augmented Generation (RAG) system.
+  const ai = new GoogleGenAI({ apiKey });
+  const result = await ai.models.generateContent({
+    model: 'gemini-1.5-pro',
+    contents: createUserContent([
+      `You are an AI assistant tasked with creating a complete, word-for-word transcript of video content for a Retrieval-Augmented Generation (RAG) system.
 
 Your task is to transcribe ALL spoken words, dialogue, and verbal content exactly as they are spoken. Do NOT summarize, paraphrase, or provide commentary.
 
@@ -101,13 +103,8 @@ Requirements:
 * Include any on-screen text, captions, or written content that appears
 
 Output format: A clean, complete transcript of all spoken content and on-screen text, ready for question-answering.`,
-    {
-      fileData: {
-        fileUri: url,
-        mimeType: 'video/mp4',
-      },
-    },
-  ]);
-  const response = await result.response;
-  return response.text();
+      createPartFromUri(url, 'video/mp4')
+    ])
+  });
+  return result.text || '';
 } 
\ No newline at end of file
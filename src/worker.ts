@@ -0,0 +1,40 @@
+import * as Sentry from "@sentry/node";
+import dotenv from 'dotenv';
+
+import { closeDB, connectDB } from './config/database.js';
+import { runTrainingJob } from './services/training.js';
+import { TrainingQueueService } from './services/trainingQueue.js';
+import { BrowserPool } from './utils/browserPool.js';
+import { OcrEngine } from './utils/ocr.js';
+
+// Load environment variables
+dotenv.config();
+
+// Standalone training worker. Run it alongside the API with RUN_TRAINING_WORKER=false on the API.
+const startWorker = async (): Promise<void> => {
+  try {
+    await connectDB();
+    // Jobs left behind by a crashed worker are requeued before new work is claimed
+    await TrainingQueueService.startWorker(runTrainingJob);
+    console.log(`⏰ Worker started at: ${new Date().toISOString()}`);
+  } catch (error) {
+    console.error('Failed to start training worker:', error);
+    Sentry.captureException(error);
+    process.exit(1);
+  }
+};
+
+// Graceful shutdown handling
+const shutdown = async (signal: string): Promise<void> => {
+  console.log(`${signal} received, stopping training worker`);
+  TrainingQueueService.stopWorker();
+  await BrowserPool.close();
+  await OcrEngine.close();
+  await closeDB();
+  process.exit(0);
+};
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+startWorker();
@@ -11,12 +11,19 @@ const BASE_URL = 'http://localhost:3000';
 const TEST_AGENT_ID = 'test-agent-comprehensive';
 const TRAINED_AGENT_ID = 'test-agent-doc'; // Use the agent that was trained in test-api.js
 const SAMPLE_DOC_PATH = path.join('src', 'utils', 'sample.txt');
+const SAMPLE_PDF_PATH = path.join('test', 'sample', 'handbook.pdf'); // Two pages of text
+const SAMPLE_SCAN_PATH = path.join('test', 'sample', 'scan.png'); // "HELLO WORLD" as an image, no text layer
 
 // Common headers for API requests
 const API_HEADERS = {
   'Content-Type': 'application/json'
 };
 
+// The bootstrap admin key (AGENT_API_TOKEN) is sent with every request unless a test overrides it
+const AUTH_HEADERS = process.env.AGENT_API_TOKEN
+  ? { Authorization: `Bearer ${process.env.AGENT_API_TOKEN}` }
+  : {};
+
 // Test results tracking
 const testResults = {
   passed: 0,
@@ -43,7 +50,7 @@ async function makeRequest(endpoint, method = 'GET', body = null, headers = API_
   try {
     const options = {
       method,
-      headers
+      headers: { ...AUTH_HEADERS, ...headers }
     };
     
     if (body) {
@@ -98,6 +105,136 @@ async function testApiStatusEndpoint() {
   logTestResult('API Status endpoint', result.success, result.success ? '' : `Status: ${result.status}`);
 }
 
+// Test 3b: Agent registry endpoints
+async function testAgentEndpoints() {
+  console.log('\n🧪 Testing Agent Endpoints...');
+  
+  // Agents must be registered before they can be trained or asked
+  const agentIds = ['test-agent-document', 'test-agent-website', 'test-agent-youtube', TEST_AGENT_ID];
+  let registered = 0;
+  for (const agentId of agentIds) {
+    const result = await makeRequest('/api/agents', 'POST', {
+      agentId,
+      name: 'Test Agent',
+      role: 'Product support assistant',
+      tone: 'friendly',
+      language: 'en'
+    });
+    // 409 means the agent already exists from a previous run
+    if (result.success || result.status === 409) registered++;
+  }
+  logTestResult('Agent register', registered === agentIds.length, `${registered}/${agentIds.length} registered`);
+  
+  const getResult = await makeRequest(`/api/agents/${TEST_AGENT_ID}`);
+  logTestResult('Agent get', getResult.success && getResult.data.agent?.agentId === TEST_AGENT_ID, getResult.success ? '' : `Status: ${getResult.status}`);
+  
+  const updateResult = await makeRequest(`/api/agents/${TEST_AGENT_ID}`, 'PUT', {
+    fallbackMessage: "Sorry, I don't know that yet."
+  });
+  logTestResult('Agent update', updateResult.success && updateResult.data.agent?.fallbackMessage === "Sorry, I don't know that yet.", updateResult.success ? '' : `Status: ${updateResult.status}`);
+  
+  const listResult = await makeRequest('/api/agents?limit=50');
+  logTestResult('Agent list', listResult.success && Array.isArray(listResult.data.agents), listResult.success ? '' : `Status: ${listResult.status}`);
+  
+  // Invalid language code should be rejected
+  const invalidResult = await makeRequest('/api/agents', 'POST', {
+    agentId: 'test-agent-invalid',
+    language: 'not a language'
+  });
+  logTestResult('Agent validation', invalidResult.status === 400, `Status: ${invalidResult.status}`);
+  
+  // Unknown providers should be rejected
+  const invalidProviderResult = await makeRequest(`/api/agents/${TEST_AGENT_ID}`, 'PUT', {
+    llmProvider: 'not-a-provider'
+  });
+  logTestResult('Agent provider validation', invalidProviderResult.status === 400, `Status: ${invalidProviderResult.status}`);
+  
+  // Embedding model statistics and re-embedding validation
+  const embeddingsResult = await makeRequest(`/api/agents/${TEST_AGENT_ID}/embeddings`);
+  logTestResult('Agent embeddings', embeddingsResult.success && !!embeddingsResult.data.activeEmbeddingModel, embeddingsResult.success ? '' : `Status: ${embeddingsResult.status}`);
+  
+  const invalidReembedResult = await makeRequest(`/api/agents/${TEST_AGENT_ID}/reembed`, 'POST', {
+    embeddingProvider: 'not-a-provider'
+  });
+  logTestResult('Agent re-embed validation', invalidReembedResult.status === 400, `Status: ${invalidReembedResult.status}`);
+  
+  // Create and delete a temporary agent
+  const tempAgentId = `test-agent-temp-${Date.now()}`;
+  await makeRequest('/api/agents', 'POST', { agentId: tempAgentId });
+  const deleteResult = await makeRequest(`/api/agents/${tempAgentId}`, 'DELETE');
+  const afterDelete = await makeRequest(`/api/agents/${tempAgentId}`);
+  logTestResult('Agent delete', deleteResult.success && !!deleteResult.data.data.memoryPurgeId && afterDelete.status === 404,
+    `Status: ${deleteResult.status}`);
+}
+
+// Test 3c: API keys and access control
+async function testApiKeyEndpoints() {
+  console.log('\n🧪 Testing API Key Endpoints...');
+  
+  const noKeyResult = await makeRequest('/api/agents', 'GET', null, { ...API_HEADERS, Authorization: '' });
+  logTestResult('Request without API key rejected', noKeyResult.status === 401, `Status: ${noKeyResult.status}`);
+  
+  const badKeyResult = await makeRequest('/api/agents', 'GET', null, { ...API_HEADERS, Authorization: 'Bearer ak_not-a-real-key' });
+  logTestResult('Request with invalid API key rejected', badKeyResult.status === 401, `Status: ${badKeyResult.status}`);
+  
+  const invalidScopeResult = await makeRequest('/api/keys', 'POST', { name: 'Invalid key', scopes: ['everything'] });
+  logTestResult('API key scope validation', invalidScopeResult.status === 400, `Status: ${invalidScopeResult.status}`);
+  
+  // An ask-only key limited to one agent
+  const createResult = await makeRequest('/api/keys', 'POST', {
+    name: 'Test ask key',
+    scopes: ['ask'],
+    agentIds: [TEST_AGENT_ID]
+  });
+  const key = createResult.data.key;
+  const keyId = createResult.data.apiKey?.keyId;
+  logTestResult('API key create', createResult.status === 201 && typeof key === 'string' && !('keyHash' in (createResult.data.apiKey || {})), `Status: ${createResult.status}`);
+  if (!key) return;
+  
+  const scopedHeaders = { ...API_HEADERS, Authorization: `Bearer ${key}` };
+  const allowedResult = await makeRequest(`/api/ask/config?agentId=${TEST_AGENT_ID}`, 'GET', null, scopedHeaders);
+  logTestResult('Scoped key can use its agent', allowedResult.success, `Status: ${allowedResult.status}`);
+  
+  const otherAgentResult = await makeRequest('/api/ask/config?agentId=test-agent-document', 'GET', null, scopedHeaders);
+  logTestResult('Scoped key cannot use other agents', otherAgentResult.status === 403, `Status: ${otherAgentResult.status}`);
+  
+  // Reading agents needs any of train, ask or analytics:read
+  const readAgentResult = await makeRequest(`/api/agents/${TEST_AGENT_ID}`, 'GET', null, scopedHeaders);
+  logTestResult('Scoped key can read its agent', readAgentResult.success, `Status: ${readAgentResult.status}`);
+  
+  const missingScopeResult = await makeRequest('/api/train', 'POST', { agentId: TEST_AGENT_ID, text: 'Not allowed' }, scopedHeaders);
+  logTestResult('Scoped key cannot train', missingScopeResult.status === 403, `Status: ${missingScopeResult.status}`);
+  
+  // Uploads from keys limited to some agents are checked before any file is staged
+  const trainKeyResult = await makeRequest('/api/keys', 'POST', { name: 'Test train key', scopes: ['train'], agentIds: [TEST_AGENT_ID] });
+  const trainKey = trainKeyResult.data.key;
+  if (trainKey) {
+    const otherUpload = new FormData();
+    otherUpload.append('agentId', 'test-agent-document');
+    otherUpload.append('files', Buffer.from('Not allowed'), { filename: 'other.txt', contentType: 'text/plain' });
+    const otherUploadResult = await makeRequest('/api/train', 'POST', otherUpload, { ...otherUpload.getHeaders(), Authorization: `Bearer ${trainKey}` });
+    logTestResult('Scoped key cannot upload to other agents', otherUploadResult.status === 403, `Status: ${otherUploadResult.status}`);
+
+    const lateAgentUpload = new FormData();
+    lateAgentUpload.append('files', Buffer.from('Agent comes last'), { filename: 'late.txt', contentType: 'text/plain' });
+    lateAgentUpload.append('agentId', TEST_AGENT_ID);
+    const lateAgentResult = await makeRequest('/api/train', 'POST', lateAgentUpload, { ...lateAgentUpload.getHeaders(), Authorization: `Bearer ${trainKey}` });
+    logTestResult('Scoped key upload needs agentId before files', lateAgentResult.status === 400 && lateAgentResult.data.field === 'agentId',
+      `Status: ${lateAgentResult.status}`);
+    await makeRequest(`/api/keys/${trainKeyResult.data.apiKey.keyId}`, 'DELETE');
+  }
+  
+  const adminOnlyResult = await makeRequest('/api/keys', 'GET', null, scopedHeaders);
+  logTestResult('Scoped key cannot manage keys', adminOnlyResult.status === 403, `Status: ${adminOnlyResult.status}`);
+  
+  const listResult = await makeRequest('/api/keys');
+  logTestResult('API key list', listResult.success && listResult.data.keys?.some(k => k.keyId === keyId), `Status: ${listResult.status}`);
+  
+  const revokeResult = await makeRequest(`/api/keys/${keyId}`, 'DELETE');
+  const afterRevoke = await makeRequest(`/api/ask/config?agentId=${TEST_AGENT_ID}`, 'GET', null, scopedHeaders);
+  logTestResult('API key revoke', revokeResult.success && afterRevoke.status === 401, `Status: ${revokeResult.status}, after revoke: ${afterRevoke.status}`);
+}
+
 // Test 4: Train endpoints (all types)
 async function testTrainEndpoints() {
   console.log('\n🧪 Testing Train Endpoints (All Types)...');
@@ -161,7 +298,7 @@ async function testTrainEndpoints() {
         let status = 'processing';
         let lastProgress = 0;
         
-        while (status === 'processing' && attempts < 20) { // Increased timeout
+        while ((status === 'processing' || status === 'queued') && attempts < 20) { // Increased timeout
           await new Promise(resolve => setTimeout(resolve, 3000)); // Increased delay
           const statusResult = await makeRequest(`/api/train/status/${trainResult.data.jobId}`);
           
@@ -224,6 +361,350 @@ async function testTrainEndpoints() {
   }
   
   logTestResult('Train endpoints (all types)', successfulTrains > 0, `${successfulTrains}/${trainingTests.length} successful`);
+
+  // Test 4b: Cancelling training jobs
+  const unknownCancel = await makeRequest('/api/train/non-existent-job/cancel', 'POST');
+  logTestResult('Cancel unknown training job', unknownCancel.status === 404, `Status: ${unknownCancel.status}`);
+
+  const cancelTrain = await makeRequest('/api/train', 'POST', {
+    agentId: 'test-agent-document',
+    source: 'document',
+    text: `Cancellation test content ${Date.now()}. This job is cancelled right after it is queued.`
+  });
+  if (cancelTrain.success && cancelTrain.data.jobId) {
+    const cancelResult = await makeRequest(`/api/train/${cancelTrain.data.jobId}/cancel`, 'POST');
+    // The job may already have finished on a fast worker, which is reported as 409
+    const cancelled = (cancelResult.success && cancelResult.data.cancelRequested === true) || cancelResult.status === 409;
+    logTestResult('Cancel queued training job', cancelled, `Status: ${cancelResult.status}, job: ${cancelResult.data.status}`);
+  } else {
+    logTestResult('Cancel queued training job', false, 'Failed to queue training job');
+  }
+
+  // Test 4c: Knowledge sources
+  await testSourceEndpoints();
+
+  // Test 4d: Chunk browser and editing
+  await testChunkEndpoints();
+}
+
+// Poll a training job until it leaves the queue
+async function waitForTrainJob(jobId, maxAttempts = 20) {
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    const statusResult = await makeRequest(`/api/train/status/${jobId}`);
+    if (statusResult.success && !['queued', 'processing'].includes(statusResult.data.status)) {
+      return statusResult.data;
+    }
+  }
+  return null;
+}
+
+async function testSourceEndpoints() {
+  console.log('\n🧪 Testing Source Endpoints...');
+
+  const tempAgentId = `source-test-agent-${Date.now()}`;
+  await makeRequest('/api/agents', 'POST', { agentId: tempAgentId });
+
+  const trainResult = await makeRequest('/api/train', 'POST', {
+    agentId: tempAgentId,
+    source: 'website',
+    sourceUrl: 'https://example.com'
+  });
+  const trainedJob = trainResult.success ? await waitForTrainJob(trainResult.data.jobId) : null;
+
+  const listResult = await makeRequest(`/api/agents/${tempAgentId}/sources`);
+  const source = listResult.data?.sources?.find(s => s.sourceUrl && s.sourceUrl.startsWith('https://example.com'));
+  logTestResult('List sources', listResult.success && trainedJob?.status === 'completed' && !!source,
+    listResult.success ? `Job: ${trainedJob?.status || trainResult.status}, ${listResult.data.total} sources` : `Status: ${listResult.status}`);
+
+  // example.com is server-rendered, so it is scraped without starting the browser
+  logTestResult('Website scraped without the browser', trainedJob?.status === 'completed' && trainedJob.result?.scrapeStrategy === 'static',
+    `Status: ${trainedJob?.status || trainResult.status}, strategy: ${trainedJob?.result?.scrapeStrategy}`);
+
+  const invalidResult = await makeRequest(`/api/agents/${tempAgentId}/sources/not-a-source`);
+  logTestResult('Get source with invalid ID', invalidResult.status === 400, `Status: ${invalidResult.status}`);
+
+  const invalidReplace = await makeRequest('/api/train', 'POST', {
+    agentId: tempAgentId,
+    source: 'document',
+    text: 'Replacement content',
+    replaceSourceId: 'not-a-source'
+  });
+  logTestResult('Train with invalid replaceSourceId', invalidReplace.status === 400, `Status: ${invalidReplace.status}`);
+
+  if (source) {
+    const getResult = await makeRequest(`/api/agents/${tempAgentId}/sources/${source.sourceId}`);
+    logTestResult('Get source', getResult.success && getResult.data.source.chunkCount === source.chunkCount,
+      getResult.success ? '' : `Status: ${getResult.status}`);
+
+    // Scraped pages are chunked along their headings; example.com has a single "Example Domain" heading
+    const sourceChunks = await makeRequest(`/api/agents/${tempAgentId}/chunks?sourceId=${source.sourceId}`);
+    logTestResult('Website chunks carry their heading path', sourceChunks.success && sourceChunks.data.chunks.length > 0 &&
+      sourceChunks.data.chunks.every(c => c.chunkMetadata?.section === 'Example Domain'),
+      sourceChunks.success ? `Sections: ${sourceChunks.data.chunks.map(c => c.chunkMetadata?.section).join(', ')}` : `Status: ${sourceChunks.status}`);
+
+    // Re-scraping the same URL as a replacement leaves exactly one version
+    const replaceResult = await makeRequest('/api/train', 'POST', {
+      agentId: tempAgentId,
+      source: 'website',
+      sourceUrl: 'https://example.com',
+      replaceSourceId: source.sourceId
+    });
+    const replacedJob = replaceResult.success ? await waitForTrainJob(replaceResult.data.jobId) : null;
+    logTestResult('Replace source', replacedJob?.status === 'completed' && replacedJob.result?.replacement?.status === 'completed',
+      `Status: ${replacedJob?.status || replaceResult.status}`);
+
+    const scheduleResult = await makeRequest(`/api/agents/${tempAgentId}/sources/${source.sourceId}/schedule`, 'PUT', { frequency: 'weekly' });
+    logTestResult('Schedule source re-sync', scheduleResult.success && scheduleResult.data.sync.frequency === 'weekly' && !!scheduleResult.data.sync.nextRunAt,
+      scheduleResult.success ? '' : `Status: ${scheduleResult.status}`);
+
+    const invalidSchedule = await makeRequest(`/api/agents/${tempAgentId}/sources/${source.sourceId}/schedule`, 'PUT', { frequency: 'hourly' });
+    logTestResult('Schedule with invalid frequency', invalidSchedule.status === 400, `Status: ${invalidSchedule.status}`);
+
+    // The page hasn't changed, so the re-sync adds and removes nothing
+    const resyncResult = await makeRequest(`/api/agents/${tempAgentId}/sources/${source.sourceId}/resync`, 'POST');
+    const resyncedJob = resyncResult.status === 202 ? await waitForTrainJob(resyncResult.data.jobId) : null;
+    logTestResult('Re-sync source', resyncedJob?.status === 'completed' && resyncedJob.result?.chunksStored === 0,
+      `Status: ${resyncedJob?.status || resyncResult.status}`);
+
+    const syncedSource = await makeRequest(`/api/agents/${tempAgentId}/sources/${source.sourceId}`);
+    logTestResult('Source reports re-sync state', syncedSource.success && syncedSource.data.sync?.frequency === 'weekly',
+      syncedSource.success ? '' : `Status: ${syncedSource.status}`);
+
+    const deleteResult = await makeRequest(`/api/agents/${tempAgentId}/sources/${source.sourceId}`, 'DELETE');
+    logTestResult('Delete source', deleteResult.success && deleteResult.data.data.deletedCount > 0,
+      deleteResult.success ? '' : `Status: ${deleteResult.status}`);
+
+    const afterDelete = await makeRequest(`/api/agents/${tempAgentId}/sources/${source.sourceId}`);
+    logTestResult('Deleted source is gone', afterDelete.status === 404, `Status: ${afterDelete.status}`);
+  }
+
+  const invalidCrawl = await makeRequest('/api/train', 'POST', {
+    agentId: tempAgentId,
+    source: 'website',
+    sourceUrl: 'https://example.com',
+    crawl: true,
+    maxDepth: 10
+  });
+  logTestResult('Crawl with invalid maxDepth', invalidCrawl.status === 400 && invalidCrawl.data.field === 'maxDepth', `Status: ${invalidCrawl.status}`);
+
+  const crawlNonWebsite = await makeRequest('/api/train', 'POST', {
+    agentId: tempAgentId,
+    source: 'document',
+    text: 'Not a website',
+    crawl: true
+  });
+  logTestResult('Crawl without website source', crawlNonWebsite.status === 400, `Status: ${crawlNonWebsite.status}`);
+
+  // Every crawled page is stored as its own source
+  const crawlResult = await makeRequest('/api/train', 'POST', {
+    agentId: tempAgentId,
+    source: 'website',
+    sourceUrl: 'https://example.com',
+    crawl: true,
+    maxPages: 2,
+    maxDepth: 1
+  });
+  const crawledJob = crawlResult.success ? await waitForTrainJob(crawlResult.data.jobId) : null;
+  const crawledPages = crawledJob?.result?.crawl?.pages || [];
+  const crawledSources = await makeRequest(`/api/agents/${tempAgentId}/sources`);
+  const pagesListed = crawledPages.every(page => crawledSources.data?.sources?.some(s => s.sourceUrl === page));
+  logTestResult('Crawl website', crawledJob?.status === 'completed' && crawledPages.length > 0 && crawledPages.length <= 2 && pagesListed,
+    `Status: ${crawledJob?.status || crawlResult.status}, pages: ${crawledPages.length}`);
+
+  // Files uploaded together are stored as separate sources, each with its own result
+  const pdfForm = new FormData();
+  pdfForm.append('agentId', tempAgentId);
+  pdfForm.append('source', 'document');
+  pdfForm.append('fileType', 'pdf,txt');
+  pdfForm.append('files', fs.createReadStream(SAMPLE_PDF_PATH));
+  pdfForm.append('files', fs.createReadStream(SAMPLE_DOC_PATH));
+  const pdfTrain = await makeRequest('/api/train', 'POST', pdfForm, pdfForm.getHeaders());
+  const pdfJob = pdfTrain.success ? await waitForTrainJob(pdfTrain.data.jobId) : null;
+  const pdfSources = await makeRequest(`/api/agents/${tempAgentId}/sources`);
+  const pdfSource = pdfSources.data?.sources?.find(s => s.fileName === 'handbook.pdf');
+  const txtSource = pdfSources.data?.sources?.find(s => s.fileName === 'sample.txt');
+  const fileResults = pdfJob?.result?.files || [];
+  logTestResult('Uploaded files stored as separate sources', !!pdfSource && !!txtSource &&
+    fileResults.length === 2 && fileResults.every(f => f.status === 'completed' && f.chunksStored > 0),
+    `Status: ${pdfJob?.status || pdfTrain.status}, files: ${fileResults.map(f => `${f.fileName}=${f.status}`).join(', ')}`);
+
+  // PDFs are chunked page by page and every chunk records its page
+  const pdfChunks = pdfSource ? await makeRequest(`/api/agents/${tempAgentId}/chunks?sourceId=${pdfSource.sourceId}`) : null;
+  const pageNumbers = (pdfChunks?.data?.chunks || []).map(c => c.chunkMetadata?.pageNumber).sort();
+  logTestResult('PDF chunks carry their page number', pdfJob?.status === 'completed' && pageNumbers.join(',') === '1,2',
+    `Status: ${pdfJob?.status || pdfTrain.status}, pages: ${pageNumbers.join(', ')}`);
+
+  // Markdown and JSON files are parsed into sections: headings, and top-level keys
+  const structuredForm = new FormData();
+  structuredForm.append('agentId', tempAgentId);
+  structuredForm.append('source', 'document');
+  structuredForm.append('fileType', 'md,json');
+  structuredForm.append('files', Buffer.from('# Guide\n\nWelcome to the guide.\n\n## Refunds\n\nRefunds are processed within 5 days.'),
+    { filename: 'guide.md', contentType: 'text/markdown' });
+  structuredForm.append('files', Buffer.from(JSON.stringify({ plans: [{ name: 'Pro', price: 49 }] })),
+    { filename: 'plans.json', contentType: 'application/json' });
+  const structuredTrain = await makeRequest('/api/train', 'POST', structuredForm, structuredForm.getHeaders());
+  const structuredJob = structuredTrain.success ? await waitForTrainJob(structuredTrain.data.jobId) : null;
+  const structuredSources = await makeRequest(`/api/agents/${tempAgentId}/sources`);
+  const sectionsOf = async (fileName) => {
+    const source = structuredSources.data?.sources?.find(s => s.fileName === fileName);
+    const chunks = source ? await makeRequest(`/api/agents/${tempAgentId}/chunks?sourceId=${source.sourceId}`) : null;
+    return (chunks?.data?.chunks || []).map(c => c.chunkMetadata?.section).sort();
+  };
+  const markdownSections = await sectionsOf('guide.md');
+  const jsonSections = await sectionsOf('plans.json');
+  logTestResult('Markdown and JSON files chunked by section', structuredJob?.status === 'completed' &&
+    markdownSections.join(',') === 'Guide,Guide > Refunds' && jsonSections.join(',') === 'plans',
+    `Status: ${structuredJob?.status || structuredTrain.status}, sections: ${[...markdownSections, ...jsonSections].join(', ')}`);
+
+  // CSV rows become one chunk each with their header names; metadata columns are stored as fields
+  const csvForm = new FormData();
+  csvForm.append('agentId', tempAgentId);
+  csvForm.append('source', 'document');
+  csvForm.append('fileType', 'csv');
+  csvForm.append('metadataColumns', 'Region');
+  csvForm.append('files', Buffer.from('Plan,Price,Seats,Region\nPro,$49,10,EU\nTeam,$99,25,US\n'), { filename: 'prices.csv', contentType: 'text/csv' });
+  const csvTrain = await makeRequest('/api/train', 'POST', csvForm, csvForm.getHeaders());
+  const csvJob = csvTrain.success ? await waitForTrainJob(csvTrain.data.jobId) : null;
+  const csvSource = (await makeRequest(`/api/agents/${tempAgentId}/sources`)).data?.sources?.find(s => s.fileName === 'prices.csv');
+  const csvChunks = csvSource ? (await makeRequest(`/api/agents/${tempAgentId}/chunks?sourceId=${csvSource.sourceId}`)).data?.chunks || [] : [];
+  const proRow = csvChunks.find(c => c.text === 'Plan: Pro | Price: $49 | Seats: 10');
+  logTestResult('CSV rows chunked with headers and metadata columns', csvJob?.status === 'completed' && csvChunks.length === 2 &&
+    proRow?.chunkMetadata?.fields?.region === 'EU',
+    `Status: ${csvJob?.status || csvTrain.status}, chunks: ${csvChunks.map(c => c.text).join(' / ')}`);
+
+  const badColumns = new FormData();
+  badColumns.append('agentId', tempAgentId);
+  badColumns.append('source', 'document');
+  badColumns.append('fileType', 'csv');
+  badColumns.append('metadataColumns', 'Region');
+  badColumns.append('textColumns', 'Missing');
+  badColumns.append('files', Buffer.from('Plan,Region\nPro,EU\n'), { filename: 'columns.csv', contentType: 'text/csv' });
+  const badColumnsTrain = await makeRequest('/api/train', 'POST', badColumns, badColumns.getHeaders());
+  const badColumnsJob = badColumnsTrain.success ? await waitForTrainJob(badColumnsTrain.data.jobId) : null;
+  logTestResult('Unknown CSV column fails the file', badColumnsJob?.status === 'failed' &&
+    JSON.stringify(badColumnsJob.error || {}).includes('Column not found: Missing'), `Status: ${badColumnsJob?.status || badColumnsTrain.status}`);
+
+  // Images are read with OCR, and their chunks record its confidence
+  const scanForm = new FormData();
+  scanForm.append('agentId', tempAgentId);
+  scanForm.append('source', 'document');
+  scanForm.append('fileType', 'png');
+  scanForm.append('files', fs.createReadStream(SAMPLE_SCAN_PATH));
+  const scanTrain = await makeRequest('/api/train', 'POST', scanForm, scanForm.getHeaders());
+  const scanJob = scanTrain.success ? await waitForTrainJob(scanTrain.data.jobId) : null;
+  const scanSource = (await makeRequest(`/api/agents/${tempAgentId}/sources`)).data?.sources?.find(s => s.fileName === 'scan.png');
+  const scanChunks = scanSource ? (await makeRequest(`/api/agents/${tempAgentId}/chunks?sourceId=${scanSource.sourceId}`)).data?.chunks || [] : [];
+  logTestResult('Image upload read with OCR', scanJob?.status === 'completed' && scanChunks.length > 0 &&
+    scanChunks.every(c => typeof c.chunkMetadata?.ocrConfidence === 'number'),
+    `Status: ${scanJob?.status || scanTrain.status}, text: ${scanChunks.map(c => `${c.text} (${c.chunkMetadata?.ocrConfidence})`).join(' / ')}`);
+
+  // An unreadable file doesn't fail the others; the job completes with errors and only that file is retried
+  const partialForm = new FormData();
+  partialForm.append('agentId', tempAgentId);
+  partialForm.append('source', 'document');
+  partialForm.append('fileType', 'txt,pdf');
+  partialForm.append('files', fs.createReadStream(SAMPLE_DOC_PATH));
+  partialForm.append('files', Buffer.from('This is not a PDF'), { filename: 'broken.pdf', contentType: 'application/pdf' });
+  const partialTrain = await makeRequest('/api/train', 'POST', partialForm, partialForm.getHeaders());
+  const partialJob = partialTrain.success ? await waitForTrainJob(partialTrain.data.jobId) : null;
+  const brokenResult = partialJob?.result?.files?.find(f => f.fileName === 'broken.pdf');
+  logTestResult('Job with an unreadable file completes with errors', partialJob?.status === 'completed_with_errors' &&
+    brokenResult?.status === 'failed' && !!brokenResult.error && partialJob.result.files.some(f => f.fileName === 'sample.txt' && f.status !== 'failed'),
+    `Status: ${partialJob?.status || partialTrain.status}, files: ${(partialJob?.result?.files || []).map(f => `${f.fileName}=${f.status}`).join(', ')}`);
+
+  if (partialJob?.status === 'completed_with_errors') {
+    const retryResult = await makeRequest(`/api/train/${partialTrain.data.jobId}/retry`, 'POST');
+    logTestResult('Retry failed files', retryResult.status === 202 && retryResult.data.fileNames?.join(',') === 'broken.pdf',
+      `Status: ${retryResult.status}, files: ${retryResult.data.fileNames}`);
+    // The file is still not a PDF, so the retry fails as well
+    const retriedJob = retryResult.status === 202 ? await waitForTrainJob(retryResult.data.jobId) : null;
+    logTestResult('Retry job processes only the failed file', retriedJob?.status === 'failed' && retriedJob.retryOf === partialTrain.data.jobId,
+      `Status: ${retriedJob?.status}`);
+
+    const secondRetry = await makeRequest(`/api/train/${partialTrain.data.jobId}/retry`, 'POST');
+    logTestResult('Failed files can only be retried once', secondRetry.status === 409, `Status: ${secondRetry.status}`);
+  }
+
+  // A replacement takes one file; if it fails, the old version of the source stays
+  if (pdfSource) {
+    const multiReplace = new FormData();
+    multiReplace.append('agentId', tempAgentId);
+    multiReplace.append('source', 'document');
+    multiReplace.append('fileType', 'pdf,pdf');
+    multiReplace.append('replaceSourceId', pdfSource.sourceId);
+    multiReplace.append('files', fs.createReadStream(SAMPLE_PDF_PATH));
+    multiReplace.append('files', Buffer.from('This is not a PDF'), { filename: 'broken.pdf', contentType: 'application/pdf' });
+    const multiReplaceResult = await makeRequest('/api/train', 'POST', multiReplace, multiReplace.getHeaders());
+    logTestResult('Replace source with several files rejected', multiReplaceResult.status === 400 && multiReplaceResult.data?.field === 'replaceSourceId',
+      `Status: ${multiReplaceResult.status}`);
+
+    const failedReplace = new FormData();
+    failedReplace.append('agentId', tempAgentId);
+    failedReplace.append('source', 'document');
+    failedReplace.append('fileType', 'pdf');
+    failedReplace.append('replaceSourceId', pdfSource.sourceId);
+    failedReplace.append('files', Buffer.from('This is not a PDF'), { filename: 'handbook.pdf', contentType: 'application/pdf' });
+    const failedReplaceTrain = await makeRequest('/api/train', 'POST', failedReplace, failedReplace.getHeaders());
+    const failedReplaceJob = failedReplaceTrain.success ? await waitForTrainJob(failedReplaceTrain.data.jobId) : null;
+    const keptSource = await makeRequest(`/api/agents/${tempAgentId}/sources/${pdfSource.sourceId}`);
+    logTestResult('Failed replacement keeps the old source', failedReplaceJob?.status === 'failed' &&
+      keptSource.success && keptSource.data.source.chunkCount === pdfSource.chunkCount,
+      `Status: ${failedReplaceJob?.status || failedReplaceTrain.status}, chunks: ${keptSource.data?.source?.chunkCount}`);
+  }
+
+  const unknownRetry = await makeRequest('/api/train/non-existent-job/retry', 'POST');
+  logTestResult('Retry unknown training job', unknownRetry.status === 404, `Status: ${unknownRetry.status}`);
+
+  await makeRequest(`/api/agents/${tempAgentId}`, 'DELETE');
+}
+
+async function testChunkEndpoints() {
+  console.log('\n🧪 Testing Chunk Endpoints...');
+
+  const tempAgentId = `chunk-test-agent-${Date.now()}`;
+  await makeRequest('/api/agents', 'POST', { agentId: tempAgentId });
+  const chunksPath = `/api/agents/${tempAgentId}/chunks`;
+
+  const createResult = await makeRequest(chunksPath, 'POST', {
+    question: 'What are the support hours?',
+    answer: 'Support is available from 9am to 5pm on weekdays.'
+  });
+  const chunkId = createResult.data?.chunk?.chunkId;
+  logTestResult('Add Q&A chunk', createResult.status === 201 && createResult.data.chunk.source === 'manual',
+    `Status: ${createResult.status}`);
+
+  const missingAnswer = await makeRequest(chunksPath, 'POST', { question: 'No answer?' });
+  logTestResult('Add Q&A chunk without answer', missingAnswer.status === 400, `Status: ${missingAnswer.status}`);
+
+  const searchResult = await makeRequest(`${chunksPath}?q=support%20hours&source=manual`);
+  logTestResult('Search chunks', searchResult.success && searchResult.data.chunks.some(c => c.chunkId === chunkId),
+    searchResult.success ? `${searchResult.data.pagination.total} matches` : `Status: ${searchResult.status}`);
+
+  const invalidIdResult = await makeRequest(`${chunksPath}/not-a-chunk-id`);
+  logTestResult('Get chunk with invalid ID', invalidIdResult.status === 400, `Status: ${invalidIdResult.status}`);
+
+  if (chunkId) {
+    const getResult = await makeRequest(`${chunksPath}/${chunkId}`);
+    logTestResult('Get chunk', getResult.success && getResult.data.chunk.chunkMetadata?.question === 'What are the support hours?',
+      getResult.success ? '' : `Status: ${getResult.status}`);
+
+    const editResult = await makeRequest(`${chunksPath}/${chunkId}`, 'PATCH', {
+      text: 'Q: What are the support hours?\nA: Support is available around the clock.'
+    });
+    logTestResult('Edit chunk text', editResult.success && editResult.data.chunk.contentVersion === 2,
+      editResult.success ? '' : `Status: ${editResult.status}`);
+
+    const flagResult = await makeRequest(`${chunksPath}/${chunkId}`, 'PATCH', { pinned: true, disabled: true });
+    logTestResult('Pin and disable chunk', flagResult.success && flagResult.data.chunk.pinned && flagResult.data.chunk.disabled,
+      flagResult.success ? '' : `Status: ${flagResult.status}`);
+
+    const emptyEdit = await makeRequest(`${chunksPath}/${chunkId}`, 'PATCH', {});
+    logTestResult('Edit chunk without fields', emptyEdit.status === 400, `Status: ${emptyEdit.status}`);
+  }
+
+  await makeRequest(`/api/agents/${tempAgentId}`, 'DELETE');
 }
 
 // Test 5: Ask endpoints
@@ -244,20 +725,132 @@ async function testAskEndpoints() {
     console.log(`   📝 Error details: ${askResult.data.error || 'Unknown error'}`);
   }
   
+  // Test ask streaming endpoint
+  try {
+    const streamResponse = await fetch(`${BASE_URL}/api/ask/stream`, {
+      method: 'POST',
+      headers: { ...API_HEADERS, 'Accept': 'text/event-stream' },
+      body: JSON.stringify({
+        agentId: 'test-agent-document',
+        question: 'What is the BrightPack product?'
+      })
+    });
+    const streamText = await streamResponse.text();
+    const streamOk = streamResponse.ok &&
+      (streamResponse.headers.get('content-type') || '').includes('text/event-stream') &&
+      streamText.includes('event: retrieval') &&
+      streamText.includes('event: done');
+    logTestResult('Ask stream endpoint', streamOk, streamOk ? '' : `Status: ${streamResponse.status}`);
+    if (streamOk) {
+      const tokenEvents = streamText.split('event: token').length - 1;
+      console.log(`   📝 Token events received: ${tokenEvents}`);
+    }
+  } catch (error) {
+    logTestResult('Ask stream endpoint', false, error.message);
+  }
+  
   // Test ask config GET endpoint
-  const configGetResult = await makeRequest('/api/ask/config');
+  const configGetResult = await makeRequest('/api/ask/config?agentId=test-agent-document');
   logTestResult('Ask config GET endpoint', configGetResult.success, configGetResult.success ? '' : `Status: ${configGetResult.status}`);
   
-  // Test ask config POST endpoint
+  // Test ask config POST endpoint (persists settings on the agent)
   const configPostResult = await makeRequest('/api/ask/config', 'POST', {
-    vector_k: 10,
-    keyword_k: 5,
-    min_similarity_score: 0.3,
-    max_context_length: 4000,
-    confidence_threshold: 0.4,
-    max_chunks: 5
+    agentId: 'test-agent-document',
+    vectorK: 10,
+    keywordK: 5,
+    minSimilarityScore: 0.3,
+    maxContextLength: 4000,
+    confidenceThreshold: 0.2,
+    maxChunks: 5
+  });
+  logTestResult('Ask config POST endpoint', configPostResult.success && configPostResult.data.retrievalConfig?.maxChunks === 5, configPostResult.success ? '' : `Status: ${configPostResult.status}`);
+  
+  // Per-request overrides apply to one call and are reported in meta.retrieval_config
+  const overrideResult = await makeRequest('/api/ask', 'POST', {
+    agentId: 'test-agent-document',
+    question: 'What is the BrightPack product?',
+    retrieval: { maxChunks: 2 }
+  });
+  const usedConfig = overrideResult.data.meta?.retrieval_config;
+  logTestResult('Ask retrieval override', usedConfig?.max_chunks === 2 && usedConfig?.keyword_k === 5, `Status: ${overrideResult.status}`);
+  
+  const invalidOverrideResult = await makeRequest('/api/ask', 'POST', {
+    agentId: 'test-agent-document',
+    question: 'What is the BrightPack product?',
+    retrieval: { maxChunks: 500 }
+  });
+  logTestResult('Ask retrieval override validation', invalidOverrideResult.status === 400, `Status: ${invalidOverrideResult.status}`);
+
+  const invalidFiltersResult = await makeRequest('/api/ask', 'POST', {
+    agentId: 'test-agent-document',
+    question: 'What is the BrightPack product?',
+    filters: { Region: { $ne: 'EU' } }
+  });
+  logTestResult('Ask filters validation', invalidFiltersResult.status === 400 && invalidFiltersResult.data.field === 'filters',
+    `Status: ${invalidFiltersResult.status}`);
+
+  // Filter names ignore case, so one column can't be given twice
+  const duplicateFiltersResult = await makeRequest('/api/ask', 'POST', {
+    agentId: 'test-agent-document',
+    question: 'What is the BrightPack product?',
+    filters: { Region: 'EU', region: 'US' }
   });
-  logTestResult('Ask config POST endpoint', configPostResult.success, configPostResult.success ? '' : `Status: ${configPostResult.status}`);
+  logTestResult('Ask filters reject the same column twice', duplicateFiltersResult.status === 400 && duplicateFiltersResult.data.field === 'filters',
+    `Status: ${duplicateFiltersResult.status}`);
+
+  // Restore the defaults for the rest of the run
+  await makeRequest('/api/ask/config', 'POST', {
+    agentId: 'test-agent-document',
+    vectorK: null,
+    keywordK: null,
+    minSimilarityScore: null,
+    maxContextLength: null,
+    confidenceThreshold: null,
+    maxChunks: null
+  });
+}
+
+// Test 5b: Conversation endpoints
+async function testConversationEndpoints() {
+  console.log('\n🧪 Testing Conversation Endpoints...');
+  
+  // Start a conversation
+  const createResult = await makeRequest('/api/conversations', 'POST', {
+    agentId: 'test-agent-document'
+  });
+  logTestResult('Conversation create', createResult.success && !!createResult.data.conversationId, createResult.success ? '' : `Status: ${createResult.status}`);
+  if (!createResult.success) return;
+  
+  const conversationId = createResult.data.conversationId;
+  
+  // Ask a question followed by a follow-up in the same conversation
+  await makeRequest('/api/ask', 'POST', {
+    agentId: 'test-agent-document',
+    question: 'What is the BrightPack product?',
+    conversationId
+  });
+  const followUp = await makeRequest('/api/ask', 'POST', {
+    agentId: 'test-agent-document',
+    question: 'And how much does it cost?',
+    conversationId
+  });
+  logTestResult('Conversation follow-up ask', followUp.status !== 500 && followUp.data.conversation_id === conversationId, `Status: ${followUp.status}`);
+  if (followUp.data.standalone_question) {
+    console.log(`   📝 Standalone question: ${followUp.data.standalone_question}`);
+  }
+  
+  // Fetch the conversation with its turns
+  const getResult = await makeRequest(`/api/conversations/${conversationId}`);
+  const turnCount = getResult.data.conversation?.turns?.length || 0;
+  logTestResult('Conversation get', getResult.success && turnCount >= 2, `Turns: ${turnCount}`);
+  
+  // List conversations for the agent
+  const listResult = await makeRequest('/api/conversations?agentId=test-agent-document');
+  logTestResult('Conversation list', listResult.success, listResult.success ? '' : `Status: ${listResult.status}`);
+  
+  // Delete the conversation
+  const deleteResult = await makeRequest(`/api/conversations/${conversationId}`, 'DELETE');
+  logTestResult('Conversation delete', deleteResult.success, deleteResult.success ? '' : `Status: ${deleteResult.status}`);
 }
 
 // Test 6: Analytics endpoints
@@ -288,6 +881,53 @@ async function testAnalyticsEndpoints() {
   logTestResult('Analytics generate insights', insightsResult.success, insightsResult.success ? '' : `Status: ${insightsResult.status}`);
 }
 
+// Test 6b: Memory purge endpoints
+async function testMemoryPurgeEndpoints() {
+  console.log('\n🧪 Testing Memory Purge Endpoints...');
+
+  const dryRunResult = await makeRequest('/api/analytics/memory-clear?dryRun=true', 'DELETE');
+  logTestResult('Memory clear dry run', dryRunResult.success && dryRunResult.data?.dryRun === true && typeof dryRunResult.data?.data?.totalChunks === 'number',
+    dryRunResult.success ? '' : `Status: ${dryRunResult.status}`);
+
+  const unconfirmedResult = await makeRequest('/api/analytics/memory-clear', 'DELETE');
+  logTestResult('Memory clear requires confirmation', !unconfirmedResult.success && unconfirmedResult.status === 400,
+    `Status: ${unconfirmedResult.status}`);
+
+  // Purge and restore a throwaway agent so the test agent's knowledge is left alone
+  const tempAgentId = `purge-test-agent-${Date.now()}`;
+  await makeRequest('/api/agents', 'POST', { agentId: tempAgentId });
+
+  // The purge runs in the background; poll it until the chunks have moved
+  const purgeResult = await makeRequest(`/api/analytics/memory-agent/${tempAgentId}?confirm=${tempAgentId}`, 'DELETE');
+  const purgeId = purgeResult.data?.data?.purgeId;
+  logTestResult('Memory agent purge', purgeResult.status === 202 && !!purgeId, `Status: ${purgeResult.status}`);
+
+  let purge = null;
+  for (let attempt = 0; purgeId && attempt < 10; attempt++) {
+    const statusResult = await makeRequest(`/api/analytics/memory-purges/${purgeId}`);
+    purge = statusResult.data?.data;
+    if (purge?.status !== 'deleting') break;
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+  logTestResult('Memory purge completes', purge?.status === 'soft_deleted' && !!purge.restoreUntil, `Status: ${purge?.status}`);
+
+  if (purgeId) {
+    const listResult = await makeRequest('/api/analytics/memory-purges');
+    const listed = listResult.data?.data?.purges?.some(p => p.purgeId === purgeId);
+    logTestResult('Memory purges list', listResult.success && listed, listResult.success ? '' : `Status: ${listResult.status}`);
+
+    const restoreResult = await makeRequest(`/api/analytics/memory-purges/${purgeId}/restore`, 'POST');
+    logTestResult('Memory purge restore', restoreResult.success && restoreResult.data?.data?.status === 'restored',
+      restoreResult.success ? '' : `Status: ${restoreResult.status}`);
+
+    const secondRestoreResult = await makeRequest(`/api/analytics/memory-purges/${purgeId}/restore`, 'POST');
+    logTestResult('Memory purge restore twice is rejected', !secondRestoreResult.success && secondRestoreResult.status === 409,
+      `Status: ${secondRestoreResult.status}`);
+  }
+
+  await makeRequest(`/api/agents/${tempAgentId}`, 'DELETE');
+}
+
 // Test 7: Feedback endpoints
 async function testFeedbackEndpoints() {
   console.log('\n🧪 Testing Feedback Endpoints...');
@@ -406,6 +1046,14 @@ async function testErrorHandling() {
   // Test non-existent endpoint
   const notFoundResult = await makeRequest('/api/nonexistent');
   logTestResult('404 handling', !notFoundResult.success, notFoundResult.success ? 'Should have failed' : '');
+
+  // Website sources that point at internal or metadata addresses are rejected before a job is queued
+  const metadataUrlResult = await makeRequest('/api/train', 'POST', {
+    agentId: TEST_AGENT_ID,
+    source: 'website',
+    sourceUrl: 'http://metadata.google.internal/computeMetadata/v1/'
+  });
+  logTestResult('Internal website URL rejected', metadataUrlResult.status === 400, `Status: ${metadataUrlResult.status}`);
 }
 
 // Test 11: Rate limiting (if applicable)
@@ -448,9 +1096,13 @@ async function runAllTests() {
     await testRootEndpoint();
     await testHealthEndpoint();
     await testApiStatusEndpoint();
+    await testAgentEndpoints();
+    await testApiKeyEndpoints();
     await testTrainEndpoints();
     await testAskEndpoints();
+    await testConversationEndpoints();
     await testAnalyticsEndpoints();
+    await testMemoryPurgeEndpoints();
     await testFeedbackEndpoints();
     await testWatchdogEndpoints();
     await testCacheEndpoints();
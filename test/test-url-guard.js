@@ -0,0 +1,206 @@
+import http from 'http';
+import { startGuardedProxy } from '../src/utils/guardedProxy.ts';
+import { assertUrlAllowed, BlockedUrlError, guardedGet, isBlockedAddress, setDnsLookup } from '../src/utils/urlGuard.ts';
+
+// Fake DNS: every hostname the tests use resolves through this table instead of the network
+const FAKE_DNS = {
+  'public.test': ['93.184.216.34'],
+  'private.test': ['10.0.0.5'],
+  'metadata.test': ['169.254.169.254'],
+  'mixed.test': ['93.184.216.34', '192.168.1.10'],
+  'mapped.test': ['::ffff:127.0.0.1'],
+  'nat64.test': ['64:ff9b::a9fe:a9fe'],
+  'ula.test': ['fd00:ec2::254'],
+  'app.test': ['127.0.0.1'],
+  'evil.test': ['127.0.0.1'],
+  'denied.test': ['203.0.114.7']
+};
+
+let rebindLookups = 0;
+setDnsLookup(async (hostname) => {
+  // Public on the first lookup, loopback afterwards (DNS rebinding)
+  if (hostname === 'rebind.test') {
+    return rebindLookups++ === 0 ? ['93.184.216.34'] : ['127.0.0.1'];
+  }
+  if (!FAKE_DNS[hostname]) throw new Error(`ENOTFOUND ${hostname}`);
+  return FAKE_DNS[hostname];
+});
+
+// app.test is allowlisted (an intranet site); evil.test isn't
+process.env.URL_ALLOWLIST = 'app.test';
+process.env.URL_DENYLIST = '203.0.114.0/24';
+
+let passed = 0;
+let failed = 0;
+
+function logTestResult(testName, success, details = '') {
+  if (success) {
+    passed++;
+    console.log(`✅ ${testName}`);
+  } else {
+    failed++;
+    console.log(`❌ ${testName}${details ? ` - ${details}` : ''}`);
+  }
+}
+
+async function expectBlocked(testName, check) {
+  try {
+    await check();
+    logTestResult(testName, false, 'was allowed');
+  } catch (error) {
+    logTestResult(testName, error instanceof BlockedUrlError, error.message);
+  }
+}
+
+async function expectAllowed(testName, check) {
+  try {
+    await check();
+    logTestResult(testName, true);
+  } catch (error) {
+    logTestResult(testName, false, error.message);
+  }
+}
+
+async function testAddressRanges() {
+  console.log('\n🧪 Testing address ranges...');
+  logTestResult('Public IPv4 is allowed', !isBlockedAddress('93.184.216.34'));
+  logTestResult('Loopback is blocked', isBlockedAddress('127.0.0.1'));
+  logTestResult('Private 172.16/12 is blocked', isBlockedAddress('172.20.1.1'));
+  logTestResult('CGNAT is blocked', isBlockedAddress('100.64.0.1'));
+  logTestResult('Cloud metadata is blocked', isBlockedAddress('169.254.169.254'));
+  logTestResult('IPv6 loopback is blocked', isBlockedAddress('::1'));
+  logTestResult('IPv4-mapped IPv6 loopback is blocked', isBlockedAddress('::ffff:127.0.0.1'));
+  logTestResult('6to4 address of a private IPv4 is blocked', isBlockedAddress('2002:a00:1::1'));
+  logTestResult('Public IPv6 is allowed', !isBlockedAddress('2606:2800:220:1:248:1893:25c8:1946'));
+}
+
+async function testResolution() {
+  console.log('\n🧪 Testing DNS resolution checks...');
+  await expectAllowed('Host resolving to a public address', () => assertUrlAllowed('https://public.test/page'));
+  await expectBlocked('Host resolving to 10.x', () => assertUrlAllowed('https://private.test/'));
+  await expectBlocked('Host resolving to the metadata address', () => assertUrlAllowed('http://metadata.test/latest/meta-data/'));
+  await expectBlocked('Host with one private address among public ones', () => assertUrlAllowed('https://mixed.test/'));
+  await expectBlocked('Host resolving to IPv4-mapped loopback', () => assertUrlAllowed('https://mapped.test/'));
+  await expectBlocked('Host resolving to NAT64 metadata address', () => assertUrlAllowed('https://nat64.test/'));
+  await expectBlocked('Host resolving to a unique local IPv6 address', () => assertUrlAllowed('https://ula.test/'));
+  await expectBlocked('Metadata hostname', () => assertUrlAllowed('http://metadata.google.internal/'));
+  await expectBlocked('IP literal in a private range', () => assertUrlAllowed('http://[::1]:8080/'));
+  await expectBlocked('Denylisted range', () => assertUrlAllowed('https://denied.test/'));
+  await expectBlocked('Unresolvable host', () => assertUrlAllowed('https://unknown.test/'));
+  await expectBlocked('Non-http protocol', () => assertUrlAllowed('file:///etc/passwd'));
+  await expectAllowed('Allowlisted host resolving to loopback', () => assertUrlAllowed('http://app.test/'));
+}
+
+async function testGuardedRequests() {
+  console.log('\n🧪 Testing guarded requests against a local server...');
+  const server = http.createServer((req, res) => {
+    if (req.url === '/redirect-out') {
+      res.writeHead(302, { Location: 'http://evil.test/secret' });
+      res.end();
+    } else if (req.url === '/redirect-in') {
+      res.writeHead(301, { Location: '/page' });
+      res.end();
+    } else {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('hello');
+    }
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  try {
+    await expectAllowed('Fetch from an allowlisted host', async () => {
+      const response = await guardedGet(`http://app.test:${port}/page`, { responseType: 'text' });
+      if (response.data !== 'hello') throw new Error(`Unexpected body: ${response.data}`);
+    });
+    await expectAllowed('Redirect within the allowlisted host', async () => {
+      const response = await guardedGet(`http://app.test:${port}/redirect-in`, { responseType: 'text' });
+      if (response.finalUrl !== `http://app.test:${port}/page`) throw new Error(`Ended at ${response.finalUrl}`);
+    });
+    await expectBlocked('Redirect to a private host', () => guardedGet(`http://app.test:${port}/redirect-out`));
+    // The first lookup passes the check; the connection's own lookup sees loopback and is refused
+    await expectBlocked('DNS rebinding to loopback', () => guardedGet(`http://rebind.test:${port}/page`));
+  } finally {
+    server.close();
+  }
+}
+
+// Open a CONNECT tunnel through the proxy; resolves with the proxy's status and the tunnel socket
+function proxyConnect(proxyPort, target) {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port: proxyPort, method: 'CONNECT', path: target });
+    req.on('connect', (res, socket) => resolve({ status: res.statusCode, socket }));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+function proxyGet(proxyPort, url, headers = {}) {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port: proxyPort, path: url, headers }, res => {
+      let body = '';
+      res.on('data', data => body += data);
+      res.on('end', () => resolve({ status: res.statusCode, body }));
+    }).on('error', reject);
+  });
+}
+
+async function testBrowserProxy() {
+  console.log('\n🧪 Testing the browser proxy...');
+  const server = http.createServer((req, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('hello');
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+  const proxy = await startGuardedProxy();
+  const proxyPort = new URL(proxy.url).port;
+
+  try {
+    const allowed = await proxyGet(proxyPort, `http://app.test:${port}/page`);
+    logTestResult('Proxied request to an allowlisted host', allowed.status === 200 && allowed.body === 'hello', `Status: ${allowed.status}`);
+    const blocked = await proxyGet(proxyPort, `http://evil.test:${port}/page`);
+    logTestResult('Proxied request to a private host refused', blocked.status === 403, `Status: ${blocked.status}`);
+    const literal = await proxyGet(proxyPort, 'http://169.254.169.254/latest/meta-data/');
+    logTestResult('Proxied request to the metadata address refused', literal.status === 403, `Status: ${literal.status}`);
+    const upgrade = await proxyGet(proxyPort, `http://app.test:${port}/socket`, { Connection: 'Upgrade', Upgrade: 'websocket' });
+    logTestResult('WebSocket upgrade refused', upgrade.status === 403, `Status: ${upgrade.status}`);
+
+    const tunnel = await proxyConnect(proxyPort, `app.test:${port}`);
+    const tunnelled = tunnel.status === 200 && await new Promise(resolve => {
+      tunnel.socket.once('data', data => resolve(data.toString()));
+      tunnel.socket.write('GET /page HTTP/1.1\r\nHost: app.test\r\nConnection: close\r\n\r\n');
+    });
+    tunnel.socket.destroy();
+    logTestResult('Tunnel to an allowlisted host', tunnel.status === 200 && String(tunnelled).includes('hello'), `Status: ${tunnel.status}`);
+
+    const blockedTunnel = await proxyConnect(proxyPort, `evil.test:${port}`);
+    blockedTunnel.socket.destroy();
+    logTestResult('Tunnel to a private host refused', blockedTunnel.status === 403, `Status: ${blockedTunnel.status}`);
+    // rebind.test already answered once with a public address; the proxy resolves it again itself
+    const rebindTunnel = await proxyConnect(proxyPort, `rebind.test:${port}`);
+    rebindTunnel.socket.destroy();
+    logTestResult('Tunnel to a host rebinding to loopback refused', rebindTunnel.status === 403, `Status: ${rebindTunnel.status}`);
+  } finally {
+    await proxy.close();
+    server.close();
+  }
+}
+
+async function runTests() {
+  console.log('🛡️ Testing URL Guard (fake DNS resolver)');
+  console.log('=========================================');
+
+  await testAddressRanges();
+  await testResolution();
+  await testGuardedRequests();
+  await testBrowserProxy();
+
+  console.log(`\n🎯 ${passed} passed, ${failed} failed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+runTests().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
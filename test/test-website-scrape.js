@@ -1,4 +1,5 @@
-import { scrapeAllRoutes } from '../src/utils/scrapeWebsite.ts';
+import { BrowserPool } from '../src/utils/browserPool.ts';
+import { scrapeWebsite } from '../src/utils/scrapeWebsite.ts';
 
 async function testWebsiteScraping() {
   console.log('🧪 Testing Website Scraping Functionality');
@@ -14,22 +15,22 @@ async function testWebsiteScraping() {
     console.log('─'.repeat(50));
 
     try {
-      // Test first route only (fast mode)
-      console.log('⏱️  Testing first route only mode...');
+      console.log('⏱️  Scraping the page...');
       const startTime = Date.now();
       
-      const result = await scrapeAllRoutes(url, { firstRouteOnly: true });
+      const result = await scrapeWebsite(url);
       const endTime = Date.now();
       const duration = endTime - startTime;
 
-      if (typeof result === 'string') {
+      if (!result.error) {
         console.log('✅ Success! Content scraped:');
         console.log(`📊 Duration: ${duration}ms`);
-        console.log(`📏 Content length: ${result.length} characters`);
-        console.log(`📝 First 200 characters: ${result.substring(0, 200)}...`);
+        console.log(`🧭 Strategy: ${result.strategy}`);
+        console.log(`📏 Content length: ${result.content.length} characters`);
+        console.log(`📝 First 200 characters: ${result.content.substring(0, 200)}...`);
         
         // Show a sample of the cleaned content
-        const lines = result.split('\n').filter(line => line.trim().length > 0);
+        const lines = result.content.split('\n').filter(line => line.trim().length > 0);
         console.log(`📄 Number of text lines: ${lines.length}`);
         if (lines.length > 0) {
           console.log(`📖 Sample line: "${lines[0].substring(0, 100)}..."`);
@@ -48,9 +49,10 @@ async function testWebsiteScraping() {
 
   console.log('\n🎯 Test Summary');
   console.log('===============');
-  console.log('✅ First route only mode is working for faster testing');
-  console.log('💡 You can now test website scraping without waiting for full crawl');
-  console.log('🔧 To test full crawling, remove the { firstRouteOnly: true } option');
+  console.log('✅ Single page scraping is working');
+  console.log('🔧 To test full crawling, train with source=website and crawl=true (see TRAINING_API.md)');
+
+  await BrowserPool.close();
 }
 
 // Run the test